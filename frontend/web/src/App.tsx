@@ -1,9 +1,32 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, config } from "./contract";
+import { clockParams, createMarketEngine, macroCalendar, MarketState } from "./simulation/marketEngine";
+import { ClockControl, DEFAULT_CLOCK, DEFAULT_CLOCK_CONTROL, FAST_FORWARD_SPEEDS, formatTime, Granularity, GRANULARITIES, stepSchedule } from "./simulation/clock";
+import { buildReplayFeed, defaultSymbolMapping, OhlcvSeries, parseOhlcvFile } from "./simulation/marketData";
+import { REGIMES } from "./simulation/regimes";
+import { Allocation, AssetClass, ASSET_CLASSES, ASSET_LABELS } from "./simulation/assets";
+import { addCosts, totalCost, TradingCosts, ZERO_COSTS } from "./simulation/costs";
+import { contractLabel, DEFAULT_OVERLAY, OptionOverlay, OptionPosition } from "./simulation/options";
+import { Greeks } from "./simulation/optionPricing";
+import { addFuturesPnl, DEFAULT_FUTURES, futuresUnderlyings, FuturesMode, FuturesPnl, FuturesPosition, ZERO_FUTURES_PNL } from "./simulation/futures";
+import { EMPTY_MARGIN_ACCOUNT, MarginAccount, MarginStatus } from "./simulation/margin";
+import { cashHoldings, Holdings, normalizeAllocation } from "./simulation/portfolio";
+import { checkProgram, defaultAllocation, defaultFuturesMode, DEFAULT_STRATEGY, EXAMPLE_PROGRAMS, RULES_STRATEGY, strategyFor, strategyRegistry, writesProgram } from "./simulation/strategies";
+import { INDICATORS, ruleVariables } from "./simulation/ruleCompiler";
+import { formatDiagnostic } from "./simulation/ruleParser";
+import { SCRIPT_API } from "./simulation/sandbox";
+import { formatViolation, paramErrors, StrategyParams } from "./simulation/strategy";
+import { MARKET_MAKER } from "./simulation/exchange";
+import { FundAccount } from "./simulation/fundStep";
+import { createSimulationClient, MonteCarloHandle, MonteCarloProgress, SimulationHandle, SimulationProgress, webPort } from "./simulation/workerProtocol";
+import { exportMonteCarloReport, MAX_PATHS, MonteCarloReport, PERCENTILES } from "./simulation/monteCarlo";
+import { createSnapshot, parseSnapshot, restoreSnapshot, serializeSnapshot } from "./simulation/snapshot";
+import PriceChart from "./components/PriceChart";
+import ParamsForm from "./components/ParamsForm";
 import "./App.css";
 import { useAccount, useSignMessage } from 'wagmi';
 
@@ -13,9 +36,21 @@ interface HedgeFund {
   encryptedPerformance: string;
   encryptedRisk: string;
   encryptedAssets: string;
+  encryptedAllocation?: Record<string, string>;
+  encryptedCosts?: Record<string, string>;
+  encryptedCash?: string;
+  encryptedPositions?: Record<string, string>;
+  encryptedMargin?: any;
+  encryptedOptions?: any[];
+  optionOverlay?: OptionOverlay;
+  encryptedFutures?: any[];
+  encryptedFuturesPnl?: Record<string, string>;
+  futuresMode?: FuturesMode;
+  encryptedMarketImpact?: string;
   timestamp: number;
   owner: string;
   strategy: string;
+  params?: StrategyParams;
 }
 
 const FHEEncryptNumber = (value: number): string => {
@@ -29,6 +64,167 @@ const FHEDecryptNumber = (encryptedData: string): number => {
   return parseFloat(encryptedData);
 };
 
+const encryptAssetValues = (values: Record<string, number>): Record<string, string> =>
+  Object.fromEntries(ASSET_CLASSES.map(c => [c, FHEEncryptNumber(values[c] || 0)]));
+
+const decryptAssetValues = (encrypted: Record<string, string>): Record<string, number> =>
+  Object.fromEntries(Object.entries(encrypted).map(([c, value]) => [c, FHEDecryptNumber(value)]));
+
+const decryptAllocation = (encrypted: Record<string, string>): Allocation => normalizeAllocation(decryptAssetValues(encrypted));
+
+const encryptOptions = (options: OptionPosition[] = []) => options.map(position => ({
+  contract: { ...position.contract, strike: FHEEncryptNumber(position.contract.strike) },
+  quantity: FHEEncryptNumber(position.quantity)
+}));
+
+const decryptOptions = (encrypted: any[] = []): OptionPosition[] => encrypted.map(position => ({
+  contract: { ...position.contract, strike: FHEDecryptNumber(position.contract.strike) },
+  quantity: FHEDecryptNumber(position.quantity)
+}));
+
+const encryptFutures = (futures: FuturesPosition[] = []) => futures.map(position => ({
+  ...position,
+  quantity: FHEEncryptNumber(position.quantity),
+  lastPrice: FHEEncryptNumber(position.lastPrice),
+  lastSpot: FHEEncryptNumber(position.lastSpot)
+}));
+
+const decryptFutures = (encrypted: any[] = []): FuturesPosition[] => encrypted.map(position => ({
+  ...position,
+  quantity: FHEDecryptNumber(position.quantity),
+  lastPrice: FHEDecryptNumber(position.lastPrice),
+  lastSpot: FHEDecryptNumber(position.lastSpot)
+}));
+
+const decryptFuturesPnl = (encrypted?: Record<string, string>): FuturesPnl =>
+  encrypted ? { ...ZERO_FUTURES_PNL, ...decryptAssetValues(encrypted) } : ZERO_FUTURES_PNL;
+
+// Funds created before trading existed hold their whole NAV as cash
+const decryptPositions = (fundData: any, assets: number): Holdings => {
+  if (!fundData.positions) return cashHoldings(assets);
+  const positions = decryptAssetValues(fundData.positions);
+  return {
+    cash: FHEDecryptNumber(fundData.cash),
+    positions: { ...cashHoldings(0).positions, ...positions },
+    options: decryptOptions(fundData.options),
+    futures: decryptFutures(fundData.futures)
+  };
+};
+
+// The stored record fields decryptPositions reads, from a loaded fund
+const fundHoldings = (fund: HedgeFund): Holdings => decryptPositions(
+  { cash: fund.encryptedCash, positions: fund.encryptedPositions, options: fund.encryptedOptions, futures: fund.encryptedFutures },
+  FHEDecryptNumber(fund.encryptedAssets)
+);
+
+// Encrypts each field of a flat record of numbers such as TradingCosts
+const encryptValues = (values: object): Record<string, string> =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key, FHEEncryptNumber(value)]));
+
+const decryptCosts = (encrypted?: Record<string, string>): TradingCosts =>
+  encrypted ? { ...ZERO_COSTS, ...decryptAssetValues(encrypted) } : ZERO_COSTS;
+
+// Ticks stay in the clear like timestamps; amounts and prices are encrypted
+const encryptMarginAccount = (account: MarginAccount) => ({
+  call: account.call && { ...account.call, deficit: FHEEncryptNumber(account.call.deficit) },
+  liquidations: account.liquidations.map(liquidation => ({
+    ...liquidation,
+    quantity: FHEEncryptNumber(liquidation.quantity),
+    price: FHEEncryptNumber(liquidation.price),
+    penalty: FHEEncryptNumber(liquidation.penalty)
+  }))
+});
+
+const decryptMarginAccount = (encrypted: any): MarginAccount => {
+  if (!encrypted) return EMPTY_MARGIN_ACCOUNT;
+  return {
+    call: encrypted.call && { ...encrypted.call, deficit: FHEDecryptNumber(encrypted.call.deficit) },
+    liquidations: (encrypted.liquidations || []).map((liquidation: any) => ({
+      ...liquidation,
+      quantity: FHEDecryptNumber(liquidation.quantity),
+      price: FHEDecryptNumber(liquidation.price),
+      penalty: FHEDecryptNumber(liquidation.penalty)
+    }))
+  };
+};
+
+// Records saved before overlay tenors were set in trading days carry tenorTicks,
+// which counted daily bars
+const storedOverlay = ({ tenorTicks, ...overlay }: any = {}): OptionOverlay =>
+  ({ ...DEFAULT_OVERLAY, ...(tenorTicks !== undefined && { tenorDays: tenorTicks }), ...overlay });
+
+// Decrypted view of a stored fund record, as the simulation trades it
+const decryptFundAccount = (id: string, fundData: any): FundAccount => {
+  const assets = FHEDecryptNumber(fundData.assets);
+  return {
+    id,
+    strategy: fundData.strategy,
+    performance: FHEDecryptNumber(fundData.performance),
+    risk: FHEDecryptNumber(fundData.risk),
+    assets,
+    allocation: fundData.allocation ? decryptAllocation(fundData.allocation) : defaultAllocation(fundData.strategy),
+    holdings: decryptPositions(fundData, assets),
+    futuresMode: fundData.futuresMode ?? defaultFuturesMode(fundData.strategy),
+    optionOverlay: storedOverlay(fundData.optionOverlay),
+    margin: decryptMarginAccount(fundData.margin),
+    costs: decryptCosts(fundData.costs),
+    futuresPnl: decryptFuturesPnl(fundData.futuresPnl),
+    marketImpact: fundData.marketImpact ? FHEDecryptNumber(fundData.marketImpact) : 0,
+    params: fundData.params,
+    program: fundData.program
+  };
+};
+
+const encryptFundAccount = (fundData: any, fund: FundAccount) => ({
+  ...fundData,
+  performance: FHEEncryptNumber(fund.performance),
+  assets: FHEEncryptNumber(fund.assets),
+  cash: FHEEncryptNumber(fund.holdings.cash),
+  positions: encryptAssetValues(fund.holdings.positions),
+  options: encryptOptions(fund.holdings.options),
+  futures: encryptFutures(fund.holdings.futures),
+  futuresPnl: encryptValues(fund.futuresPnl),
+  costs: encryptValues(fund.costs),
+  margin: encryptMarginAccount(fund.margin),
+  marketImpact: FHEEncryptNumber(fund.marketImpact)
+});
+
+// Stored fund records in contract key order, which is the order funds trade in
+const readFundRecords = async (contract: ethers.Contract) => {
+  const keysBytes = await contract.getData("fund_keys");
+  let keys: string[] = [];
+  if (keysBytes.length > 0) {
+    try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
+    catch (e) { console.error("Error parsing keys:", e); }
+  }
+  const records: { key: string; fundData: any }[] = [];
+  for (const key of keys) {
+    const fundBytes = await contract.getData(`fund_${key}`);
+    if (fundBytes.length === 0) continue;
+    records.push({ key, fundData: JSON.parse(ethers.toUtf8String(fundBytes)) });
+  }
+  return records;
+};
+
+// Trading rounds one simulation run covers, in bars of the current clock
+const SIMULATION_LENGTHS = [1, 21, 252, 1260];
+
+// Seeds a Monte Carlo test of a draft fund can run, and the bars each path covers
+const MONTE_CARLO_PATHS = [50, 100, 250, MAX_PATHS];
+const MONTE_CARLO_TICKS = 252;
+
+const downloadJson = (filename: string, text: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const FUTURES_UNDERLYINGS = futuresUnderlyings(DEFAULT_FUTURES);
+
+const generatedMarketEngine = createMarketEngine({ seed: config.simulationSeed });
+
 const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
 
 const App: React.FC = () => {
@@ -40,29 +236,153 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newFundData, setNewFundData] = useState({ name: "", strategy: "Quant", initialAssets: 1000000 });
+  const [newFundData, setNewFundData] = useState({ name: "", strategy: DEFAULT_STRATEGY, initialAssets: 1000000, allocation: defaultAllocation(DEFAULT_STRATEGY), overlay: DEFAULT_OVERLAY, futuresMode: defaultFuturesMode(DEFAULT_STRATEGY), program: "", params: {} as StrategyParams });
   const [selectedFund, setSelectedFund] = useState<HedgeFund | null>(null);
-  const [decryptedValue, setDecryptedValue] = useState<{ performance?: number, risk?: number, assets?: number }>({});
+  const [managedFund, setManagedFund] = useState<{ fund: HedgeFund; params: StrategyParams } | null>(null);
+  const [decryptedValue, setDecryptedValue] = useState<{ performance?: number, risk?: number, assets?: number, marketImpact?: number, allocation?: Allocation, costs?: TradingCosts, margin?: { status: MarginStatus, account: MarginAccount }, options?: { positions: OptionPosition[], greeks: Greeks }, futures?: { positions: FuturesPosition[], pnl: FuturesPnl } }>({});
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [publicKey, setPublicKey] = useState<string>("");
   const [contractAddress, setContractAddress] = useState<string>("");
   const [chainId, setChainId] = useState<number>(0);
   const [startTimestamp, setStartTimestamp] = useState<number>(0);
   const [durationDays, setDurationDays] = useState<number>(30);
-  const [marketConditions, setMarketConditions] = useState<{ volatility: number, trend: number, blackSwan: boolean }>({ volatility: 0.5, trend: 0.2, blackSwan: false });
+  const [marketEngine, setMarketEngine] = useState(() => generatedMarketEngine);
+  const [marketState, setMarketState] = useState<MarketState>(() => generatedMarketEngine.initialState());
+  const [historicalData, setHistoricalData] = useState<{ series: OhlcvSeries; symbols: Partial<Record<AssetClass, string>> } | null>(null);
+  const [clockControl, setClockControl] = useState<ClockControl>(DEFAULT_CLOCK_CONTROL);
+  const [simulationLength, setSimulationLength] = useState<number>(1);
+  const [simulationRun, setSimulationRun] = useState<{ handle: SimulationHandle; progress?: SimulationProgress } | null>(null);
+  const simulationClient = useRef<ReturnType<typeof createSimulationClient> | null>(null);
+  const simulating = simulationRun !== null;
+  const [monteCarloPaths, setMonteCarloPaths] = useState<number>(MONTE_CARLO_PATHS[0]);
+  const [monteCarloRun, setMonteCarloRun] = useState<{ handle: MonteCarloHandle; progress?: MonteCarloProgress } | null>(null);
+  const [monteCarloReport, setMonteCarloReport] = useState<MonteCarloReport | null>(null);
+  const draftProgram = writesProgram(newFundData.strategy) ? newFundData.program : undefined;
+  const programDiagnostics = draftProgram !== undefined ? checkProgram(newFundData.strategy, draftProgram, macroCalendar(marketEngine.config)) : [];
+  const draftParamErrors = paramErrors(strategyFor(newFundData.strategy), newFundData.params);
+  const draftInvalid = programDiagnostics.length > 0 || Object.keys(draftParamErrors).length > 0;
+  const managedParamErrors = managedFund ? paramErrors(strategyFor(managedFund.fund.strategy), managedFund.params) : {};
+  const clock = clockParams(marketEngine.config);
+  const marketConditions = marketState.conditions;
+  const marketRegime = marketEngine.regime(marketState);
+  const currentEvents = marketEngine.activeEvents(marketState);
+  const pastEvents = marketState.events.filter(event => event.endTick <= marketState.tick).slice(-5).reverse();
+  const upcomingReleases = marketEngine.upcomingReleases(marketState);
+  const halted = marketEngine.haltedAssets(marketState);
+  const crowding = marketEngine.crowding(marketState);
+  const unwinding = marketEngine.activeUnwinds(marketState).map(unwind => unwind.asset);
+  const recentHalts = marketState.halts.slice(-5).reverse();
+  const recentReleases = marketState.releases.slice(-5).reverse();
 
-  // Simulate market conditions changing
+  // Advance the seeded market engine at the clock's pace; fast playback steps
+  // several ticks per update
   useEffect(() => {
-    const interval = setInterval(() => {
-      setMarketConditions(prev => ({
-        volatility: Math.min(1, Math.max(0, prev.volatility + (Math.random() - 0.5) * 0.1)),
-        trend: Math.min(1, Math.max(-1, prev.trend + (Math.random() - 0.5) * 0.05)),
-        blackSwan: Math.random() > 0.99 ? true : prev.blackSwan
-      }));
-    }, 5000);
-    return () => clearInterval(interval);
+    if (clockControl.paused || simulating) return;
+    const { interval, ticks } = stepSchedule(clockParams(marketEngine.config), clockControl);
+    const timer = setInterval(() => {
+      setMarketState(prev => {
+        let next = prev;
+        for (let i = 0; i < ticks && !marketEngine.replayComplete(next); i++) next = marketEngine.step(next);
+        return next;
+      });
+    }, interval);
+    return () => clearInterval(timer);
+  }, [marketEngine, clockControl, simulating]);
+
+  // Simulation runs go to a worker so long ones leave the page responsive
+  useEffect(() => {
+    const worker = new Worker(new URL("./simulation/simulationWorker.ts", import.meta.url), { type: "module" });
+    const client = createSimulationClient(webPort(worker));
+    simulationClient.current = client;
+    return () => {
+      client.close();
+      worker.terminate();
+    };
   }, []);
 
+  const loadHistoricalData = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      let series: OhlcvSeries = {};
+      for (const file of Array.from(files)) {
+        series = { ...series, ...parseOhlcvFile(file.name, await file.text()) };
+      }
+      setHistoricalData({ series, symbols: defaultSymbolMapping(series) });
+    } catch (e: any) {
+      alert("Could not load historical data: " + (e.message || "Unknown error"));
+    }
+  };
+
+  // Replays the loaded files once their symbols are mapped to asset classes;
+  // unmapped classes keep generated prices
+  const startReplay = () => {
+    if (!historicalData) return;
+    try {
+      const feed = buildReplayFeed(historicalData.series, historicalData.symbols);
+      const engine = createMarketEngine({ seed: config.simulationSeed, priceSource: { kind: "replay", feed } });
+      setMarketEngine(engine);
+      setMarketState(engine.initialState());
+      setHistoricalData(null);
+    } catch (e: any) {
+      alert("Could not replay historical data: " + (e.message || "Unknown error"));
+    }
+  };
+
+  // A new step length means a new dt, so the generated market starts over
+  const changeGranularity = (granularity: Granularity) => {
+    const engine = createMarketEngine({ seed: config.simulationSeed, clock: { ...DEFAULT_CLOCK, granularity } });
+    setMarketEngine(engine);
+    setMarketState(engine.initialState());
+  };
+
+  // Snapshots carry the market and every fund's decrypted account; loading one
+  // brings the market back and writes each saved account over the contract's
+  // fund of the same id. Funds no longer on the contract are left out.
+  const saveSnapshot = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      const records = contract ? await readFundRecords(contract) : [];
+      const snapshot = createSnapshot(marketEngine.config, marketState, records.map(({ key, fundData }) => decryptFundAccount(key, fundData)));
+      downloadJson(`simulation-${marketEngine.config.seed}-tick-${marketState.tick}.json`, serializeSnapshot(snapshot));
+    } catch (e: any) {
+      alert("Could not save snapshot: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const loadSnapshot = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      const restored = restoreSnapshot(parseSnapshot(await files[0].text()));
+      const skipped: string[] = [];
+      if (restored.funds.length > 0) {
+        if (!isConnected) throw new Error("connect a wallet to restore the snapshot's funds");
+        const contract = await getContractWithSigner();
+        if (!contract) throw new Error("Failed to get contract with signer");
+        const records = await readFundRecords(contract);
+        setTransactionStatus({ visible: true, status: "pending", message: "Restoring FHE-encrypted fund accounts..." });
+        for (const fund of restored.funds) {
+          const record = records.find(({ key }) => key === fund.id);
+          if (!record) { skipped.push(fund.id); continue; }
+          await contract.setData(`fund_${fund.id}`, ethers.toUtf8Bytes(JSON.stringify(encryptFundAccount(record.fundData, fund))));
+        }
+        await loadFunds();
+      }
+      setMarketEngine(restored.engine);
+      setMarketState(restored.state);
+      const note = skipped.length > 0 ? `; funds no longer on the contract were skipped: ${skipped.join(", ")}` : "";
+      setTransactionStatus({ visible: true, status: "success", message: `Snapshot restored at tick ${restored.state.tick}${note}` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      alert("Could not load snapshot: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const switchToGeneratedPrices = () => {
+    setMarketEngine(generatedMarketEngine);
+    setMarketState(generatedMarketEngine.initialState());
+  };
+
   useEffect(() => {
     loadFunds().finally(() => setLoading(false));
     const initSignatureParams = async () => {
@@ -116,9 +436,21 @@ const App: React.FC = () => {
                 encryptedPerformance: fundData.performance, 
                 encryptedRisk: fundData.risk,
                 encryptedAssets: fundData.assets,
+                encryptedAllocation: fundData.allocation,
+                encryptedCosts: fundData.costs,
+                encryptedCash: fundData.cash,
+                encryptedPositions: fundData.positions,
+                encryptedMargin: fundData.margin,
+                encryptedOptions: fundData.options,
+                optionOverlay: fundData.optionOverlay,
+                encryptedFutures: fundData.futures,
+                encryptedFuturesPnl: fundData.futuresPnl,
+                futuresMode: fundData.futuresMode,
+                encryptedMarketImpact: fundData.marketImpact,
                 timestamp: fundData.timestamp, 
                 owner: fundData.owner, 
-                strategy: fundData.strategy 
+                strategy: fundData.strategy,
+                params: fundData.params
               });
             } catch (e) { console.error(`Error parsing fund data for ${key}:`, e); }
           }
@@ -153,7 +485,7 @@ const App: React.FC = () => {
       if (!contract) throw new Error("Failed to get contract with signer");
 
       // Generate unique ID
-      const fundId = `fund-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+      const fundId = `fund-${marketState.time}-${Math.random().toString(36).substring(2, 8)}`;
       
       // Store fund data
       const fundData = { 
@@ -161,9 +493,16 @@ const App: React.FC = () => {
         performance: encryptedPerformance,
         risk: encryptedRisk,
         assets: encryptedAssets,
-        timestamp: Math.floor(Date.now() / 1000),
+        allocation: encryptAssetValues(normalizeAllocation(newFundData.allocation)),
+        cash: encryptedAssets,
+        positions: encryptAssetValues(cashHoldings(0).positions),
+        optionOverlay: newFundData.overlay,
+        futuresMode: newFundData.futuresMode,
+        timestamp: marketState.time,
         owner: address,
-        strategy: newFundData.strategy
+        strategy: newFundData.strategy,
+        ...(draftProgram !== undefined && { program: draftProgram }),
+        ...(Object.keys(newFundData.params).length > 0 && { params: newFundData.params })
       };
       
       await contract.setData(`fund_${fundId}`, ethers.toUtf8Bytes(JSON.stringify(fundData)));
@@ -183,7 +522,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewFundData({ name: "", strategy: "Quant", initialAssets: 1000000 });
+        setNewFundData({ name: "", strategy: DEFAULT_STRATEGY, initialAssets: 1000000, allocation: defaultAllocation(DEFAULT_STRATEGY), overlay: DEFAULT_OVERLAY, futuresMode: defaultFuturesMode(DEFAULT_STRATEGY), program: "", params: {} as StrategyParams });
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Creation failed: " + (e.message || "Unknown error");
@@ -192,75 +531,134 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string, field: 'performance' | 'risk' | 'assets'): Promise<void> => {
+  const signDecryptionRequest = async () => {
+    const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
+    await signMessageAsync({ message });
+    await new Promise(resolve => setTimeout(resolve, 1500));
+  };
+
+  const decryptWithSignature = async (encryptedData: string, field: 'performance' | 'risk' | 'assets' | 'marketImpact'): Promise<void> => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      await signDecryptionRequest();
       const decrypted = FHEDecryptNumber(encryptedData);
       setDecryptedValue(prev => ({ ...prev, [field]: decrypted }));
     } catch (e) { console.error("Decryption failed:", e); } 
     finally { setIsDecrypting(false); }
   };
 
+  const decryptHoldings = async (fund: HedgeFund): Promise<void> => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsDecrypting(true);
+    try {
+      await signDecryptionRequest();
+      const allocation = fund.encryptedAllocation ? decryptAllocation(fund.encryptedAllocation) : defaultAllocation(fund.strategy);
+      const holdings = fundHoldings(fund);
+      const margin = { status: marketEngine.marginStatus(marketState, holdings), account: decryptMarginAccount(fund.encryptedMargin) };
+      const options = { positions: holdings.options ?? [], greeks: marketEngine.fundGreeks(marketState, holdings) };
+      const futures = { positions: holdings.futures ?? [], pnl: decryptFuturesPnl(fund.encryptedFuturesPnl) };
+      setDecryptedValue(prev => ({ ...prev, allocation, costs: decryptCosts(fund.encryptedCosts), margin, options, futures }));
+    } catch (e) { console.error("Decryption failed:", e); } 
+    finally { setIsDecrypting(false); }
+  };
+
+  // Manual-roll funds roll their futures into the front contract on request
+  const rollFundFutures = async (fund: HedgeFund): Promise<void> => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Rolling futures with FHE..." });
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      const fundBytes = await contract.getData(`fund_${fund.id}`);
+      if (fundBytes.length === 0) throw new Error("Fund not found");
+      const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
+
+      const variation = marketEngine.settleFutures(marketState, decryptPositions(fundData, FHEDecryptNumber(fundData.assets)), "manual");
+      const rolled = marketEngine.rollFutures(marketState, variation.holdings);
+      const updatedFund = {
+        ...fundData,
+        cash: FHEEncryptNumber(rolled.holdings.cash),
+        futures: encryptFutures(rolled.holdings.futures),
+        futuresPnl: encryptValues(addFuturesPnl(decryptFuturesPnl(fundData.futuresPnl), variation.pnl)),
+        costs: encryptValues([variation.costs, rolled.costs].reduce(addCosts, decryptCosts(fundData.costs)))
+      };
+      await contract.setData(`fund_${fund.id}`, ethers.toUtf8Bytes(JSON.stringify(updatedFund)));
+
+      setTransactionStatus({ visible: true, status: "success", message: "Futures rolled!" });
+      await loadFunds();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Roll failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Owners retune their strategy; the new settings apply from the next round
+  const updateFundParams = async (fund: HedgeFund, params: StrategyParams): Promise<void> => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Saving strategy parameters..." });
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      const fundBytes = await contract.getData(`fund_${fund.id}`);
+      if (fundBytes.length === 0) throw new Error("Fund not found");
+      const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
+      await contract.setData(`fund_${fund.id}`, ethers.toUtf8Bytes(JSON.stringify({ ...fundData, params })));
+
+      setTransactionStatus({ visible: true, status: "success", message: "Strategy parameters saved!" });
+      await loadFunds();
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setManagedFund(null);
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Update failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
   const simulateMarket = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Running market simulation with FHE..." });
+    if (!simulationClient.current || simulating) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Loading encrypted funds..." });
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
 
-      // Get current fund keys
-      const keysBytes = await contract.getData("fund_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
+      // Funds trade in contract key order so every client fills them identically
+      const records = await readFundRecords(contract);
 
-      // Update each fund's performance based on market conditions
-      for (const key of keys) {
-        const fundBytes = await contract.getData(`fund_${key}`);
-        if (fundBytes.length === 0) continue;
-        
-        const fundData = JSON.parse(ethers.toUtf8String(fundBytes));
-        
-        // In a real implementation, we would use FHE operations here
-        // For demo purposes, we'll decrypt, calculate, then re-encrypt
-        const performance = FHEDecryptNumber(fundData.performance);
-        const risk = FHEDecryptNumber(fundData.risk);
-        const assets = FHEDecryptNumber(fundData.assets);
-        
-        // Simulate performance change based on market conditions
-        let performanceChange = (marketConditions.trend * 0.1) + (Math.random() - 0.5) * marketConditions.volatility;
-        if (marketConditions.blackSwan) {
-          performanceChange = -0.3 + (Math.random() - 0.5) * 0.4; // Big negative impact
-        }
-        
-        // Apply strategy modifiers
-        let strategyMultiplier = 1;
-        switch(fundData.strategy) {
-          case "Quant": strategyMultiplier = 1.2; break;
-          case "Value": strategyMultiplier = 0.8; break;
-          case "Macro": strategyMultiplier = 1.0; break;
+      // In a real implementation, we would use FHE operations here
+      // For demo purposes, we'll decrypt, calculate in the worker, then re-encrypt
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      const startState = marketState;
+      const handle = simulationClient.current.run(
+        { config: marketEngine.config, state: startState, funds: records.map(({ key, fundData }) => decryptFundAccount(key, fundData)), ticks: simulationLength },
+        progress => {
+          setSimulationRun(prev => prev && { ...prev, progress });
+          setMarketState(progress.state);
         }
-        
-        const newPerformance = performance + performanceChange * strategyMultiplier * (1 - risk);
-        const newAssets = assets * (1 + performanceChange * 0.01); // Assets grow with performance
-        
-        // Re-encrypt with FHE
-        const updatedFund = { 
-          ...fundData, 
-          performance: FHEEncryptNumber(newPerformance),
-          assets: FHEEncryptNumber(newAssets)
-        };
-        
-        await contract.setData(`fund_${key}`, ethers.toUtf8Bytes(JSON.stringify(updatedFund)));
+      );
+      setSimulationRun({ handle });
+      const outcome = await handle.result
+        .catch(e => { setMarketState(startState); throw e; })
+        .finally(() => setSimulationRun(null));
+      if (outcome.status === "cancelled") {
+        setMarketState(startState);
+        setTransactionStatus({ visible: true, status: "error", message: `Simulation cancelled after ${outcome.completed} bars; no funds were updated` });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        return;
       }
 
-      setTransactionStatus({ visible: true, status: "success", message: "Market simulation completed with FHE!" });
+      setTransactionStatus({ visible: true, status: "pending", message: "Writing FHE-encrypted fund results..." });
+      for (const fund of outcome.funds) {
+        const { fundData } = records.find(record => record.key === fund.id)!;
+        await contract.setData(`fund_${fund.id}`, ethers.toUtf8Bytes(JSON.stringify(encryptFundAccount(fundData, fund))));
+      }
+
+      setMarketState(outcome.state);
+      setTransactionStatus({ visible: true, status: "success", message: `Market simulation of ${outcome.completed} bars completed with FHE!` });
       await loadFunds();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
@@ -269,6 +667,46 @@ const App: React.FC = () => {
     }
   };
 
+  // Runs the draft fund alone through many generated markets, so a player can
+  // tell a strategy's edge from one lucky seed before launching it
+  const testAcrossSeeds = async () => {
+    if (!simulationClient.current || monteCarloRun) return;
+    const { priceSource, ...generated } = marketEngine.config;
+    const handle = simulationClient.current.runMonteCarlo({
+      config: generated,
+      fund: {
+        id: "draft",
+        strategy: newFundData.strategy,
+        performance: 0,
+        risk: 0.2,
+        assets: newFundData.initialAssets,
+        allocation: normalizeAllocation(newFundData.allocation),
+        holdings: cashHoldings(newFundData.initialAssets),
+        futuresMode: newFundData.futuresMode,
+        optionOverlay: newFundData.overlay,
+        margin: EMPTY_MARGIN_ACCOUNT,
+        costs: ZERO_COSTS,
+        futuresPnl: ZERO_FUTURES_PNL,
+        marketImpact: 0,
+        params: newFundData.params,
+        program: draftProgram
+      },
+      paths: monteCarloPaths,
+      firstSeed: marketEngine.config.seed,
+      ticks: MONTE_CARLO_TICKS
+    }, progress => setMonteCarloRun(prev => prev && { ...prev, progress }));
+    setMonteCarloRun({ handle });
+    setMonteCarloReport(null);
+    try {
+      const outcome = await handle.result;
+      if (outcome.status === "complete") setMonteCarloReport(outcome.report);
+    } catch (e: any) {
+      alert("Monte Carlo test failed: " + (e.message || "Unknown error"));
+    } finally {
+      setMonteCarloRun(null);
+    }
+  };
+
   const isOwner = (fundAddress: string) => address?.toLowerCase() === fundAddress.toLowerCase();
 
   // Calculate statistics
@@ -294,7 +732,10 @@ const App: React.FC = () => {
           <button onClick={() => setShowCreateModal(true)} className="create-fund-btn industrial-button">
             <div className="add-icon"></div>New Fund
           </button>
-          <button onClick={simulateMarket} className="industrial-button" disabled={funds.length === 0}>
+          <select className="industrial-select" value={simulationLength} onChange={(e) => setSimulationLength(Number(e.target.value))} disabled={simulating}>
+            {SIMULATION_LENGTHS.map(length => <option key={length} value={length}>{length === 1 ? '1 bar' : `${length} bars`}</option>)}
+          </select>
+          <button onClick={simulateMarket} className="industrial-button" disabled={funds.length === 0 || simulating}>
             Run Market Simulation
           </button>
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
@@ -305,6 +746,22 @@ const App: React.FC = () => {
         {/* Market Conditions Panel */}
         <div className="market-conditions industrial-panel">
           <h2>Market Conditions</h2>
+          <div className="sim-clock">
+            <label>Simulated Time</label>
+            <strong>{formatTime(marketState.time, clock.granularity)}</strong>
+            <span>Tick {marketState.tick} · {clock.granularity} · {clock.compression} sim years per real day</span>
+            <button className="industrial-button" onClick={() => setClockControl(prev => ({ ...prev, paused: !prev.paused }))}>
+              {clockControl.paused ? 'Resume' : 'Pause'}
+            </button>
+            <select className="industrial-select" value={clockControl.speed} onChange={(e) => setClockControl(prev => ({ ...prev, speed: Number(e.target.value) }))}>
+              {FAST_FORWARD_SPEEDS.map(speed => <option key={speed} value={speed}>{speed === 1 ? 'Normal speed' : `Fast-forward ${speed}×`}</option>)}
+            </select>
+            {marketEngine.config.priceSource?.kind !== "replay" && (
+              <select className="industrial-select" value={clock.granularity} onChange={(e) => changeGranularity(e.target.value as Granularity)}>
+                {GRANULARITIES.map(granularity => <option key={granularity} value={granularity}>{granularity} steps</option>)}
+              </select>
+            )}
+          </div>
           <div className="condition-meters">
             <div className="meter">
               <label>Volatility</label>
@@ -327,10 +784,180 @@ const App: React.FC = () => {
               <label>Black Swan Event</label>
               <div className={`status-light ${marketConditions.blackSwan ? 'active' : ''}`}></div>
               <span>{marketConditions.blackSwan ? 'ACTIVE' : 'Inactive'}</span>
+              {currentEvents.map(event => (
+                <span key={event.id} className="event-tag active">
+                  {marketEngine.eventLabel(event.kind)} ({event.endTick - marketState.tick} ticks left)
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="market-regime">
+            <div className={`regime-badge ${marketRegime.regime}`}>{marketRegime.regime.toUpperCase()}</div>
+            <span>{marketRegime.age} ticks in regime</span>
+            <span>Switch odds: {(marketRegime.switchProbability * 100).toFixed(1)}%</span>
+            {REGIMES.filter(r => r !== marketRegime.regime).map(r => (
+              <span key={r}>→ {r}: {(marketRegime.odds[r] * 100).toFixed(1)}%</span>
+            ))}
+          </div>
+          <div className="macro-calendar">
+            <label>Upcoming Releases</label>
+            {upcomingReleases.map(release => (
+              <span key={`${release.kind}-${release.tick}`} className="event-tag">
+                {marketEngine.releaseLabel(release.kind)} · in {release.tick - marketState.tick} ticks · consensus {release.consensus.toFixed(1)} {marketEngine.releaseUnit(release.kind)}
+              </span>
+            ))}
+          </div>
+          {recentReleases.length > 0 && (
+            <div className="macro-calendar">
+              <label>Released</label>
+              {recentReleases.map(release => (
+                <span key={release.id} className={`event-tag ${release.surprise >= 0 ? 'beat' : 'miss'}`}>
+                  {marketEngine.releaseLabel(release.kind)} @{release.tick}: {release.actual.toFixed(1)} vs {release.consensus.toFixed(1)} {marketEngine.releaseUnit(release.kind)} ({release.surprise >= 0 ? '+' : ''}{release.surprise.toFixed(1)}σ)
+                </span>
+              ))}
+            </div>
+          )}
+          {recentHalts.length > 0 && (
+            <div className="event-history">
+              <label>Trading Halts</label>
+              {recentHalts.map(halt => (
+                <span key={halt.id} className={`event-tag ${marketState.tick < halt.endTick ? 'active' : ''}`}>
+                  {halt.scope === "index" ? 'Market-wide' : ASSET_LABELS[halt.scope]} · {(halt.move * 100).toFixed(1)}% · ticks {halt.startTick}–{halt.endTick - 1}
+                </span>
+              ))}
+            </div>
+          )}
+          {pastEvents.length > 0 && (
+            <div className="event-history">
+              <label>Recent Events</label>
+              {pastEvents.map(event => (
+                <span key={event.id} className="event-tag">
+                  {marketEngine.eventLabel(event.kind)} · ticks {event.startTick}–{event.endTick - 1}
+                </span>
+              ))}
             </div>
+          )}
+          <div className="price-source">
+            <label>Price Source</label>
+            {marketEngine.config.priceSource?.kind === "replay" ? (
+              <>
+                <span>Historical replay · {marketState.date}{marketEngine.replayComplete(marketState) ? ' (complete)' : ''}</span>
+                <button className="industrial-button" onClick={switchToGeneratedPrices}>Use Generated Prices</button>
+              </>
+            ) : (
+              <>
+                <span>Generated (seed {marketEngine.config.seed})</span>
+                <label className="industrial-button file-button">
+                  Load OHLCV Files
+                  <input type="file" accept=".csv,.json" multiple onChange={(e) => loadHistoricalData(e.target.files)} />
+                </label>
+              </>
+            )}
+            <small>Files named after an asset class, e.g. equities.csv, map to it; map other symbols below</small>
           </div>
+          {historicalData && marketEngine.config.priceSource?.kind !== "replay" && (
+            <div className="symbol-mapping">
+              {ASSET_CLASSES.map(c => (
+                <div key={c} className="form-group">
+                  <label>{ASSET_LABELS[c]}</label>
+                  <select 
+                    value={historicalData.symbols[c] ?? ""} 
+                    onChange={(e) => setHistoricalData({...historicalData, symbols: {...historicalData.symbols, [c]: e.target.value || undefined}})}
+                    className="industrial-select"
+                  >
+                    <option value="">Generated</option>
+                    {Object.keys(historicalData.series).map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+                  </select>
+                </div>
+              ))}
+              <button className="industrial-button" onClick={startReplay} disabled={!Object.values(historicalData.symbols).some(symbol => symbol)}>Start Replay</button>
+              <button className="industrial-button" onClick={() => setHistoricalData(null)}>Discard</button>
+            </div>
+          )}
+          <div className="price-source">
+            <label>Snapshot</label>
+            <button className="industrial-button" onClick={saveSnapshot} disabled={simulating}>Save Snapshot</button>
+            <label className="industrial-button file-button">
+              Load Snapshot
+              <input type="file" accept=".json" onChange={(e) => loadSnapshot(e.target.files)} disabled={simulating} />
+            </label>
+            <small>Checkpoints the market at tick {marketState.tick} with every fund's positions</small>
+          </div>
+          <div className="market-price">
+            {ASSET_CLASSES.map(c => (
+              <div key={c} className={`asset-quote ${halted.includes(c) ? 'halted' : ''}`}>
+                <label>{ASSET_LABELS[c]}{halted.includes(c) && ' · HALTED'}</label>
+                <span>{marketState.prices[c].toFixed(2)} ({(marketState.returns[c] * 100).toFixed(2)}%)</span>
+                <small className={marketState.recalls.includes(c) ? 'borrow-recall' : ''}>
+                  Borrow {(marketState.borrow[c].feeRate * 100).toFixed(1)}%{marketState.recalls.includes(c) && ' · RECALL'}
+                </small>
+                <small className={unwinding.includes(c) ? 'crowd-unwind' : ''}>
+                  Crowding {(crowding[c] * 100).toFixed(0)}%{unwinding.includes(c) && ' · UNWIND'}
+                </small>
+              </div>
+            ))}
+          </div>
+          {marketState.exchange.tape.length > 0 && (
+            <div className="trade-tape">
+              <label>Trade Tape</label>
+              {marketState.exchange.tape.slice(-8).reverse().map(trade => (
+                <span key={trade.id} className={`tape-print ${trade.buyer === MARKET_MAKER ? 'sell' : 'buy'}`}>
+                  {ASSET_LABELS[trade.asset]} {trade.quantity.toFixed(0)} @ {trade.price.toFixed(2)}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="yield-curve">
+            <label>Yield Curve · short rate {(marketState.shortRate * 100).toFixed(2)}%</label>
+            {marketEngine.yieldCurve(marketState).map(point => (
+              <small key={point.tenor}>{point.tenor < 1 ? `${point.tenor * 12}M` : `${point.tenor}Y`}: {(point.yield * 100).toFixed(2)}%</small>
+            ))}
+          </div>
+          <div className="futures-curves">
+            {FUTURES_UNDERLYINGS.map(c => {
+              const basis = marketState.futuresBasis[c] ?? 0;
+              return (
+                <div key={c} className="futures-curve">
+                  <label>{ASSET_LABELS[c]} Futures</label>
+                  <span className={basis >= 0 ? 'contango' : 'backwardation'}>
+                    {basis >= 0 ? 'Contango' : 'Backwardation'} {(basis * 100).toFixed(1)}%/yr
+                  </span>
+                  {marketEngine.futuresCurve(marketState, c).map(point => (
+                    <small key={point.expiryTick}>T{point.expiryTick}: {point.price.toFixed(2)}</small>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <PriceChart
+            series={ASSET_CLASSES.map(c => ({ label: ASSET_LABELS[c], values: marketState.priceHistory[c] }))}
+            labels={marketState.timeHistory.map(time => formatTime(time, clock.granularity))}
+          />
         </div>
 
+        {simulationRun && (
+          <div className="simulation-progress industrial-panel">
+            <h2>Simulation Running</h2>
+            <div className="simulation-status">
+              <span>Bar {simulationRun.progress?.completed ?? 0} / {simulationRun.progress?.total ?? simulationLength}</span>
+              <div className="meter-bar">
+                <div className="meter-fill" style={{ width: `${(simulationRun.progress ? simulationRun.progress.completed / simulationRun.progress.total : 0) * 100}%` }}></div>
+              </div>
+              <button className="industrial-button" onClick={simulationRun.handle.cancel}>Cancel</button>
+            </div>
+            {simulationRun.progress && (
+              <div className="simulation-funds">
+                {simulationRun.progress.funds.map(fund => (
+                  <span key={fund.id} className="event-tag">
+                    {funds.find(f => f.id === fund.id)?.name ?? fund.id}: ${(fund.assets / 1000000).toFixed(2)}M ({fund.performance >= 0 ? '+' : ''}{fund.performance.toFixed(2)}%)
+                    {fund.violation && <span title={formatViolation(fund.violation)}> · sat out {fund.roundsSatOut} rounds</span>}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Dashboard Grid */}
         <div className="dashboard-grid">
           {/* Project Introduction */}
@@ -421,7 +1048,7 @@ const App: React.FC = () => {
               <div className="fund-row" key={fund.id} onClick={() => setSelectedFund(fund)}>
                 <div className="table-cell rank">#{index + 1}</div>
                 <div className="table-cell name">{fund.name}</div>
-                <div className="table-cell strategy">{fund.strategy}</div>
+                <div className="table-cell strategy">{strategyFor(fund.strategy).label}</div>
                 <div className="table-cell performance">
                   {decryptedValue.performance !== undefined ? `${decryptedValue.performance.toFixed(2)}%` : '🔒'}
                   <button 
@@ -465,7 +1092,7 @@ const App: React.FC = () => {
                   {isOwner(fund.owner) && (
                     <button className="action-btn industrial-button" onClick={(e) => {
                       e.stopPropagation();
-                      // Future: Add fund management options
+                      setManagedFund({ fund, params: fund.params ?? {} });
                     }}>
                       Manage
                     </button>
@@ -504,14 +1131,58 @@ const App: React.FC = () => {
                 <label>Investment Strategy *</label>
                 <select 
                   value={newFundData.strategy} 
-                  onChange={(e) => setNewFundData({...newFundData, strategy: e.target.value})}
+                  onChange={(e) => setNewFundData({...newFundData, strategy: e.target.value, allocation: defaultAllocation(e.target.value), futuresMode: defaultFuturesMode(e.target.value), program: EXAMPLE_PROGRAMS[e.target.value] ?? "", params: {}})}
                   className="industrial-select"
                 >
-                  <option value="Quant">Quantitative</option>
-                  <option value="Value">Value Investing</option>
-                  <option value="Macro">Macro Strategy</option>
+                  {strategyRegistry.list().map(strategy => <option key={strategy.id} value={strategy.id}>{strategy.label}</option>)}
                 </select>
+                <small>{strategyRegistry.get(newFundData.strategy)?.description}</small>
               </div>
+              {Object.keys(strategyFor(newFundData.strategy).params).length > 0 && (
+                <div className="form-group">
+                  <label>Strategy Parameters</label>
+                  <ParamsForm 
+                    schema={strategyFor(newFundData.strategy).params} 
+                    values={newFundData.params} 
+                    errors={draftParamErrors} 
+                    onChange={(params) => setNewFundData({...newFundData, params})} 
+                  />
+                </div>
+              )}
+              {draftProgram !== undefined && (
+                <div className="form-group">
+                  <label>{newFundData.strategy === RULES_STRATEGY ? "Trading Rules" : "Strategy Script"} *</label>
+                  <textarea 
+                    value={draftProgram} 
+                    onChange={(e) => setNewFundData({...newFundData, program: e.target.value})}
+                    className="industrial-input program-editor"
+                    rows={newFundData.strategy === RULES_STRATEGY ? 6 : 12}
+                    spellCheck={false}
+                  />
+                  {programDiagnostics.length > 0 ? (
+                    <ul className="program-diagnostics">
+                      {programDiagnostics.map((diagnostic, i) => <li key={i}>{formatDiagnostic(diagnostic)}</li>)}
+                    </ul>
+                  ) : newFundData.strategy === RULES_STRATEGY ? (
+                    <small>Rules compile. Rounds where none match keep the current mix.</small>
+                  ) : (
+                    <small>Script parses. Returning null keeps the current mix; a round where it fails or runs over budget is sat out.</small>
+                  )}
+                  <details className="program-help">
+                    <summary>{newFundData.strategy === RULES_STRATEGY ? "Indicators and names" : "Available API"}</summary>
+                    {newFundData.strategy === RULES_STRATEGY ? (
+                      <ul>
+                        {Object.entries(INDICATORS).map(([name, indicator]) => <li key={name}><code>{name}({indicator.params.join(", ")})</code> {indicator.help}</li>)}
+                        {Object.entries(ruleVariables(macroCalendar(marketEngine.config))).map(([name, variable]) => <li key={name}><code>{name}</code> {variable.help}</li>)}
+                      </ul>
+                    ) : (
+                      <ul>
+                        {Object.entries(SCRIPT_API).map(([name, help]) => <li key={name}><code>{name}</code> {help}</li>)}
+                      </ul>
+                    )}
+                  </details>
+                </div>
+              )}
               <div className="form-group">
                 <label>Initial Assets (USD) *</label>
                 <input 
@@ -524,6 +1195,115 @@ const App: React.FC = () => {
                   step="100000"
                 />
               </div>
+              <div className="form-group">
+                <label>Asset Allocation (%)</label>
+                <div className="allocation-grid">
+                  {ASSET_CLASSES.map(c => (
+                    <div key={c} className="allocation-input">
+                      <span>{ASSET_LABELS[c]}</span>
+                      <input 
+                        type="number" 
+                        value={Math.round(newFundData.allocation[c] * 100)} 
+                        onChange={(e) => setNewFundData({...newFundData, allocation: {...newFundData.allocation, [c]: (parseFloat(e.target.value) || 0) / 100}})}
+                        className="industrial-input"
+                        min="-100"
+                        max="100"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <small>Negative weights are shorts. Weights above 100% in gross are scaled down; anything below is held as cash.</small>
+              </div>
+              <div className="form-group">
+                <label>Index & Commodity Exposure</label>
+                <select 
+                  value={newFundData.futuresMode} 
+                  onChange={(e) => setNewFundData({...newFundData, futuresMode: e.target.value as FuturesMode})}
+                  className="industrial-select"
+                >
+                  <option value="spot">Spot</option>
+                  <option value="auto">Futures, auto roll</option>
+                  <option value="manual">Futures, manual roll</option>
+                </select>
+                <small>Futures tie up no cash but earn or pay roll yield as the curve converges to spot.</small>
+              </div>
+              <div className="form-group">
+                <label>Option Overlay</label>
+                <div className="overlay-options">
+                  <label>
+                    <input 
+                      type="checkbox" 
+                      checked={newFundData.overlay.protectivePuts} 
+                      onChange={(e) => setNewFundData({...newFundData, overlay: {...newFundData.overlay, protectivePuts: e.target.checked}})}
+                    />
+                    Protective puts ({Math.round(newFundData.overlay.putMoneyness * 100)}% strike)
+                  </label>
+                  <label>
+                    <input 
+                      type="checkbox" 
+                      checked={newFundData.overlay.coveredCalls} 
+                      onChange={(e) => setNewFundData({...newFundData, overlay: {...newFundData.overlay, coveredCalls: e.target.checked}})}
+                    />
+                    Covered calls ({Math.round(newFundData.overlay.callMoneyness * 100)}% strike)
+                  </label>
+                  <select 
+                    value={newFundData.overlay.style} 
+                    onChange={(e) => setNewFundData({...newFundData, overlay: {...newFundData.overlay, style: e.target.value as OptionOverlay["style"]}})}
+                    className="industrial-select"
+                  >
+                    <option value="european">European</option>
+                    <option value="american">American</option>
+                  </select>
+                </div>
+                <small>Puts insure every long position; calls are written against part of it. Both roll every {newFundData.overlay.tenorDays} trading days.</small>
+              </div>
+              <div className="form-group">
+                <label>Test Across Seeds</label>
+                <div className="monte-carlo-controls">
+                  <select value={monteCarloPaths} onChange={(e) => setMonteCarloPaths(Number(e.target.value))} className="industrial-select" disabled={!!monteCarloRun}>
+                    {MONTE_CARLO_PATHS.map(paths => <option key={paths} value={paths}>{paths} seeds</option>)}
+                  </select>
+                  {monteCarloRun ? (
+                    <>
+                      <span>Path {monteCarloRun.progress?.completed ?? 0} / {monteCarloPaths}</span>
+                      <button onClick={monteCarloRun.handle.cancel} className="industrial-button">Cancel</button>
+                    </>
+                  ) : (
+                    <button onClick={testAcrossSeeds} disabled={draftInvalid} className="industrial-button">Run {MONTE_CARLO_TICKS}-Bar Test</button>
+                  )}
+                  {monteCarloReport && (
+                    <button onClick={() => downloadJson(`monte-carlo-${monteCarloReport.strategy}-${monteCarloReport.paths}.json`, exportMonteCarloReport(monteCarloReport))} className="industrial-button">Export JSON</button>
+                  )}
+                </div>
+                {monteCarloReport && (
+                  <div className="monte-carlo-report">
+                    <table>
+                      <thead>
+                        <tr><th></th>{PERCENTILES.map(p => <th key={p}>P{p}</th>)}</tr>
+                      </thead>
+                      <tbody>
+                        <tr>
+                          <td>Final NAV</td>
+                          {PERCENTILES.map(p => <td key={p}>${(monteCarloReport.finalNav.percentiles[p] / 1000000).toFixed(2)}M</td>)}
+                        </tr>
+                        <tr>
+                          <td>Max drawdown</td>
+                          {PERCENTILES.map(p => <td key={p}>{(monteCarloReport.maxDrawdown.percentiles[p] * 100).toFixed(1)}%</td>)}
+                        </tr>
+                      </tbody>
+                    </table>
+                    <span>
+                      Ruin (NAV below {Math.round(monteCarloReport.ruinLevel * 100)}% of start): {(monteCarloReport.ruinProbability * 100).toFixed(1)}% ± {(monteCarloReport.ruinStdError * 100).toFixed(1)}% over {monteCarloReport.paths} seeds
+                    </span>
+                    <PriceChart
+                      series={PERCENTILES.map(p => ({ label: `P${p}`, values: monteCarloReport.bands.map(band => band.percentiles[p]) }))}
+                      labels={monteCarloReport.bands.map(band => `Bar ${band.tick}`)}
+                      height={120}
+                    />
+                  </div>
+                )}
+                <small>Runs this fund alone through generated markets from seed {marketEngine.config.seed} on. A wide band means one season's result says little about the strategy.</small>
+              </div>
               <div className="encryption-preview">
                 <h4>FHE Encryption Preview</h4>
                 <div className="preview-grid">
@@ -542,7 +1322,7 @@ const App: React.FC = () => {
               <button onClick={() => setShowCreateModal(false)} className="cancel-btn industrial-button">Cancel</button>
               <button 
                 onClick={createFund} 
-                disabled={creating || !newFundData.name} 
+                disabled={creating || !newFundData.name || draftInvalid} 
                 className="submit-btn industrial-button primary"
               >
                 {creating ? "Encrypting with FHE..." : "Launch Fund"}
@@ -552,6 +1332,47 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Fund Management Modal */}
+      {managedFund && (
+        <div className="modal-overlay">
+          <div className="create-modal industrial-panel">
+            <div className="modal-header">
+              <h2>Manage Fund: {managedFund.fund.name}</h2>
+              <button onClick={() => setManagedFund(null)} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <div className="form-group">
+                <label>{strategyFor(managedFund.fund.strategy).label}</label>
+                <small>{strategyFor(managedFund.fund.strategy).description}</small>
+              </div>
+              {Object.keys(strategyFor(managedFund.fund.strategy).params).length > 0 ? (
+                <div className="form-group">
+                  <label>Strategy Parameters</label>
+                  <ParamsForm 
+                    schema={strategyFor(managedFund.fund.strategy).params} 
+                    values={managedFund.params} 
+                    errors={managedParamErrors} 
+                    onChange={(params) => setManagedFund({...managedFund, params})} 
+                  />
+                </div>
+              ) : (
+                <small>This strategy has no tunable parameters.</small>
+              )}
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => setManagedFund(null)} className="cancel-btn industrial-button">Cancel</button>
+              <button 
+                onClick={() => updateFundParams(managedFund.fund, managedFund.params)} 
+                disabled={Object.keys(strategyFor(managedFund.fund.strategy).params).length === 0 || Object.keys(managedParamErrors).length > 0} 
+                className="submit-btn industrial-button primary"
+              >
+                Save Parameters
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Fund Detail Modal */}
       {selectedFund && (
         <div className="modal-overlay">
@@ -567,7 +1388,7 @@ const App: React.FC = () => {
               <div className="fund-info">
                 <div className="info-item">
                   <span>Strategy:</span>
-                  <strong>{selectedFund.strategy}</strong>
+                  <strong>{strategyFor(selectedFund.strategy).label}</strong>
                 </div>
                 <div className="info-item">
                   <span>Owner:</span>
@@ -575,7 +1396,7 @@ const App: React.FC = () => {
                 </div>
                 <div className="info-item">
                   <span>Created:</span>
-                  <strong>{new Date(selectedFund.timestamp * 1000).toLocaleDateString()}</strong>
+                  <strong>{formatTime(selectedFund.timestamp, "daily")}</strong>
                 </div>
               </div>
 
@@ -606,6 +1427,21 @@ const App: React.FC = () => {
                     {isDecrypting ? 'Decrypting...' : decryptedValue.risk !== undefined ? 'Re-decrypt' : 'Decrypt'}
                   </button>
                 </div>
+                <div className="metric-card">
+                  <h3>Market Impact</h3>
+                  <div className="metric-value">
+                    {decryptedValue.marketImpact !== undefined ? `${decryptedValue.marketImpact} bps` : selectedFund.encryptedMarketImpact ? '🔒 Encrypted' : 'Not traded yet'}
+                  </div>
+                  {selectedFund.encryptedMarketImpact && (
+                    <button 
+                      className="industrial-button" 
+                      onClick={() => decryptWithSignature(selectedFund.encryptedMarketImpact!, 'marketImpact')}
+                      disabled={isDecrypting}
+                    >
+                      {isDecrypting ? 'Decrypting...' : decryptedValue.marketImpact !== undefined ? 'Re-decrypt' : 'Decrypt'}
+                    </button>
+                  )}
+                </div>
                 <div className="metric-card">
                   <h3>Assets Under Management</h3>
                   <div className="metric-value">
@@ -621,6 +1457,131 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <div className="holdings-section">
+                <h3>Holdings</h3>
+                {decryptedValue.allocation ? (
+                  <div className="allocation-grid">
+                    {ASSET_CLASSES.map(c => (
+                      <div key={c} className="allocation-input">
+                        <span>{ASSET_LABELS[c]}</span>
+                        <strong>{(decryptedValue.allocation![c] * 100).toFixed(1)}%</strong>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="metric-value">🔒 Encrypted</div>
+                )}
+                {decryptedValue.costs && (
+                  <div className="trading-costs">
+                    <span>Commission <strong>${decryptedValue.costs.commission.toFixed(0)}</strong></span>
+                    <span>Spread <strong>${decryptedValue.costs.spread.toFixed(0)}</strong></span>
+                    <span>Impact <strong>${decryptedValue.costs.impact.toFixed(0)}</strong></span>
+                    <span>Borrow fees <strong>${decryptedValue.costs.borrowFees.toFixed(0)}</strong></span>
+                    <span>Net financing <strong>${decryptedValue.costs.financing.toFixed(0)}</strong></span>
+                    <span>
+                      Total <strong>${totalCost(decryptedValue.costs).toFixed(0)}</strong>
+                      {decryptedValue.costs.turnover > 0 && ` (${(totalCost(decryptedValue.costs) / decryptedValue.costs.turnover * 10000).toFixed(1)} bps of $${(decryptedValue.costs.turnover / 1000000).toFixed(2)}M traded)`}
+                    </span>
+                  </div>
+                )}
+                <button 
+                  className="industrial-button" 
+                  onClick={() => decryptHoldings(selectedFund)}
+                  disabled={isDecrypting}
+                >
+                  {isDecrypting ? 'Decrypting...' : decryptedValue.allocation ? 'Re-decrypt' : 'Decrypt'}
+                </button>
+              </div>
+
+              <div className="options-section">
+                <h3>Options & Greeks</h3>
+                {decryptedValue.options ? (
+                  <>
+                    <div className="greeks">
+                      <span>Δ <strong>${decryptedValue.options.greeks.delta.toFixed(0)}</strong>/1%</span>
+                      <span>Γ <strong>${decryptedValue.options.greeks.gamma.toFixed(0)}</strong>/1%²</span>
+                      <span>Vega <strong>${decryptedValue.options.greeks.vega.toFixed(0)}</strong>/pt</span>
+                      <span>Θ <strong>${decryptedValue.options.greeks.theta.toFixed(0)}</strong>/tick</span>
+                    </div>
+                    {decryptedValue.options.positions.length === 0 ? (
+                      <span>No open options</span>
+                    ) : decryptedValue.options.positions.map((position, i) => (
+                      <div key={i} className="option-position">
+                        <span>{contractLabel(position.contract)}</span>
+                        <strong>{position.quantity.toFixed(2)}</strong>
+                      </div>
+                    ))}
+                  </>
+                ) : (
+                  <div className="metric-value">🔒 Encrypted</div>
+                )}
+              </div>
+
+              <div className="futures-section">
+                <h3>Futures</h3>
+                {decryptedValue.futures ? (
+                  <>
+                    <div className="futures-pnl">
+                      <span>Spot P&L <strong>${decryptedValue.futures.pnl.spot.toFixed(0)}</strong></span>
+                      <span className={decryptedValue.futures.pnl.roll >= 0 ? 'positive' : 'negative'}>
+                        Roll yield <strong>${decryptedValue.futures.pnl.roll.toFixed(0)}</strong>
+                      </span>
+                      <span>Mode <strong>{selectedFund.futuresMode ?? defaultFuturesMode(selectedFund.strategy)}</strong></span>
+                    </div>
+                    {decryptedValue.futures.positions.length === 0 ? (
+                      <span>No open futures</span>
+                    ) : decryptedValue.futures.positions.map((position, i) => (
+                      <div key={i} className="option-position">
+                        <span>{ASSET_LABELS[position.underlying]} T{position.expiryTick}</span>
+                        <strong>{position.quantity.toFixed(2)}</strong>
+                      </div>
+                    ))}
+                    {isOwner(selectedFund.owner) && selectedFund.futuresMode === 'manual' && (
+                      <button className="industrial-button" onClick={() => rollFundFutures(selectedFund)}>
+                        Roll to Front Contract
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <div className="metric-value">🔒 Encrypted</div>
+                )}
+              </div>
+
+              <div className="margin-section">
+                <h3>Leverage & Margin</h3>
+                {decryptedValue.margin ? (
+                  <>
+                    <div className="margin-metrics">
+                      <span>Leverage <strong>{isFinite(decryptedValue.margin.status.leverage) ? `${decryptedValue.margin.status.leverage.toFixed(2)}x` : '∞'}</strong></span>
+                      <span>Borrowed <strong>${(decryptedValue.margin.status.borrowed / 1000000).toFixed(2)}M</strong></span>
+                      <span>Maintenance <strong>${(decryptedValue.margin.status.maintenanceMargin / 1000000).toFixed(2)}M</strong></span>
+                      <span className={decryptedValue.margin.status.headroom < 0 ? 'negative' : 'positive'}>
+                        Headroom <strong>${(decryptedValue.margin.status.headroom / 1000000).toFixed(2)}M</strong>
+                      </span>
+                    </div>
+                    {decryptedValue.margin.account.call && (
+                      <div className="margin-call">
+                        Margin call: ${decryptedValue.margin.account.call.deficit.toFixed(0)} short, due at tick {decryptedValue.margin.account.call.dueTick}
+                      </div>
+                    )}
+                    <div className="liquidation-history">
+                      {decryptedValue.margin.account.liquidations.length === 0 ? (
+                        <span>No liquidations</span>
+                      ) : decryptedValue.margin.account.liquidations.slice().reverse().map((liquidation, i) => (
+                        <div key={i} className="liquidation">
+                          <span>Tick {liquidation.tick}</span>
+                          <span>{ASSET_LABELS[liquidation.asset]}</span>
+                          <span>{liquidation.quantity.toFixed(2)} @ {liquidation.price.toFixed(2)}</span>
+                          <span className="negative">-${liquidation.penalty.toFixed(0)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <div className="metric-value">🔒 Encrypted</div>
+                )}
+              </div>
+
               <div className="fhe-explanation">
                 <h3>How FHE Protects Your Strategy</h3>
                 <p>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { paramError, ParamsSchema, ParamValue, StrategyParams } from '../simulation/strategy';
+
+interface ParamsFormProps {
+  schema: ParamsSchema;
+  values: StrategyParams; // missing entries show the default
+  errors?: Record<string, string>; // problems found across params, shown under the param to change
+  onChange: (values: StrategyParams) => void;
+  disabled?: boolean;
+}
+
+// One input per parameter, generated from the strategy's schema and checked as the player types
+const ParamsForm: React.FC<ParamsFormProps> = ({ schema, values, errors, onChange, disabled }) => {
+  const set = (name: string, value: ParamValue) => onChange({ ...values, [name]: value });
+
+  return (
+    <div className="params-form">
+      {Object.entries(schema).map(([name, param]) => {
+        const value = values[name] ?? param.default;
+        const error = paramError(param, value) ?? errors?.[name];
+        const id = `param-${name}`;
+        return (
+          <div key={name} className={`param-field${error ? ' invalid' : ''}`}>
+            <label htmlFor={id}>{param.title}</label>
+            {param.type === 'boolean' ? (
+              <input id={id} type="checkbox" checked={value === true} disabled={disabled} onChange={(e) => set(name, e.target.checked)} />
+            ) : param.type === 'string' ? (
+              <select id={id} value={String(value)} disabled={disabled} onChange={(e) => set(name, e.target.value)} className="industrial-select">
+                {param.enum.map(option => <option key={option} value={option}>{param.labels?.[option] ?? option}</option>)}
+              </select>
+            ) : (
+              <input
+                id={id}
+                type="number"
+                value={typeof value === 'number' && !isNaN(value) ? value : ''}
+                min={param.minimum}
+                max={param.maximum}
+                step={param.step ?? (param.type === 'integer' ? 1 : 'any')}
+                disabled={disabled}
+                onChange={(e) => set(name, e.target.value === '' ? NaN : Number(e.target.value))}
+                className="industrial-input"
+              />
+            )}
+            <small>{error ? `${param.title} ${error}` : param.help}</small>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ParamsForm;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+export interface PriceSeries {
+  label: string;
+  values: number[];
+  color?: string;
+}
+
+interface PriceChartProps {
+  series: PriceSeries[];
+  labels?: string[]; // one per point, aligned with the end of each series
+  height?: number;
+}
+
+const PALETTE = ['#ff0000', '#ffaa00', '#00aa00', '#3399ff', '#cc66ff', '#cccccc'];
+
+const PriceChart: React.FC<PriceChartProps> = ({ series, labels, height = 160 }) => {
+  const length = Math.max(0, ...series.map(s => s.values.length));
+  const data = {
+    labels: labels ? labels.slice(-length) : Array.from({ length }, (_, i) => String(i - length + 1)),
+    datasets: series.map((s, index) => ({
+      label: s.label,
+      data: s.values,
+      borderColor: s.color || PALETTE[index % PALETTE.length],
+      borderWidth: 1.5,
+      pointRadius: 0,
+      tension: 0.1
+    }))
+  };
+
+  return (
+    <div className="price-chart" style={{ height }}>
+      <Line
+        data={data}
+        options={{
+          responsive: true,
+          maintainAspectRatio: false,
+          animation: false,
+          plugins: { legend: { display: series.length > 1, labels: { color: '#cccccc' } } },
+          scales: {
+            x: { display: !!labels, ticks: { color: '#cccccc', maxTicksLimit: 6 }, grid: { display: false } },
+            y: { ticks: { color: '#cccccc' }, grid: { color: '#333333' } }
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -0,0 +1,61 @@
+// assets.ts
+// Asset classes the simulated market trades.
+
+export type AssetClass = "equities" | "govBonds" | "credit" | "commodities" | "fx" | "crypto";
+
+export const ASSET_CLASSES: AssetClass[] = ["equities", "govBonds", "credit", "commodities", "fx", "crypto"];
+
+export const ASSET_LABELS: Record<AssetClass, string> = {
+  equities: "Equities",
+  govBonds: "Government Bonds",
+  credit: "Corporate Credit",
+  commodities: "Commodities",
+  fx: "FX",
+  crypto: "Crypto"
+};
+
+export interface AssetParams {
+  drift: number; // annualised, on top of the market drift times beta
+  beta: number; // sensitivity to the market trend
+  volatility: number; // annualised at the reference market volatility
+  jumpSensitivity: number; // scales market-wide jumps
+  averageVolume: number; // notional traded per trading day at the reference market volatility
+  duration?: number; // years; bonds are priced off the yield curve at this tenor, the rest is their spread
+}
+
+export type Allocation = Record<AssetClass, number>;
+
+// Market volatility at which each asset trades at its own `volatility`
+export const REFERENCE_VOLATILITY = 0.16;
+
+export const DEFAULT_ASSETS: Record<AssetClass, AssetParams> = {
+  equities: { drift: 0, beta: 1, volatility: 0.18, jumpSensitivity: 1, averageVolume: 5e7 },
+  govBonds: { drift: 0, beta: 0, volatility: 0.01, jumpSensitivity: -0.2, averageVolume: 8e7, duration: 7 },
+  credit: { drift: 0.015, beta: 0.3, volatility: 0.05, jumpSensitivity: 0.4, averageVolume: 1.5e7, duration: 5 },
+  commodities: { drift: 0.03, beta: 0.4, volatility: 0.22, jumpSensitivity: 0.6, averageVolume: 2e7 },
+  fx: { drift: 0, beta: 0.05, volatility: 0.09, jumpSensitivity: 0.1, averageVolume: 1e8 },
+  crypto: { drift: 0.3, beta: 1.5, volatility: 0.7, jumpSensitivity: 2, averageVolume: 1e7 }
+};
+
+// Rows and columns follow ASSET_CLASSES
+export const DEFAULT_CORRELATION: number[][] = [
+  [1, -0.2, 0.6, 0.3, 0.1, 0.4],
+  [-0.2, 1, 0.3, -0.1, 0, -0.1],
+  [0.6, 0.3, 1, 0.2, 0.05, 0.3],
+  [0.3, -0.1, 0.2, 1, 0.2, 0.2],
+  [0.1, 0, 0.05, 0.2, 1, 0.1],
+  [0.4, -0.1, 0.3, 0.2, 0.1, 1]
+];
+
+// Share of the correlation matrix pulled towards the regime's uniform correlation
+const REGIME_CORRELATION_WEIGHT = 0.5;
+
+// Convex blend of two correlation matrices, so the result stays positive definite
+export const regimeCorrelation = (base: number[][], correlation: number): number[][] =>
+  base.map((row, i) => row.map((value, j) => {
+    const uniform = i === j ? 1 : correlation;
+    return (1 - REGIME_CORRELATION_WEIGHT) * value + REGIME_CORRELATION_WEIGHT * uniform;
+  }));
+
+export const assetRecord = <T>(value: (assetClass: AssetClass, index: number) => T): Record<AssetClass, T> =>
+  Object.fromEntries(ASSET_CLASSES.map((c, i) => [c, value(c, i)])) as Record<AssetClass, T>;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { DEFAULT_CIRCUIT_BREAKERS, haltedAssets, limitMoves, tripBreakers } from "./circuitBreakers";
+
+const moves = (falls: Partial<Record<AssetClass, number>>) => assetRecord(c => falls[c] ?? 0);
+
+describe("circuit breakers", () => {
+  it("halts an asset that falls through its threshold and stops it at the limit", () => {
+    const falls = moves({ govBonds: -0.05, crypto: -0.3, fx: -0.05 });
+    const tripped = tripBreakers(DEFAULT_CIRCUIT_BREAKERS, falls, [], 10);
+    expect(tripped).toEqual([
+      { id: "govBonds-10", scope: "govBonds", startTick: 10, endTick: 13, move: -0.05 },
+      { id: "crypto-10", scope: "crypto", startTick: 10, endTick: 13, move: -0.3 }
+    ]);
+    expect(limitMoves(DEFAULT_CIRCUIT_BREAKERS, falls, tripped)).toEqual(moves({ govBonds: -0.04, crypto: -0.25, fx: -0.05 }));
+    expect(haltedAssets(tripped, 12)).toEqual(["govBonds", "crypto"]);
+    expect(haltedAssets(tripped, 13)).toEqual([]);
+  });
+
+  it("shuts the whole market at the deepest index level broken and lands the index on it", () => {
+    const falls = moves({ equities: -0.2, credit: -0.1 });
+    const tripped = tripBreakers(DEFAULT_CIRCUIT_BREAKERS, falls, [], 5);
+    expect(tripped).toMatchObject([{ scope: "index", startTick: 5, endTick: 9 }]);
+    expect(tripped[0].move).toBeCloseTo(-0.14);
+    const limited = limitMoves(DEFAULT_CIRCUIT_BREAKERS, falls, tripped);
+    expect(limited.equities).toBeCloseTo(-0.2 * 0.13 / 0.14);
+    expect(haltedAssets(tripped, 8)).toEqual(ASSET_CLASSES);
+  });
+
+  it("does not trip an asset again while it is halted", () => {
+    const [halt] = tripBreakers(DEFAULT_CIRCUIT_BREAKERS, moves({ crypto: -0.3 }), [], 0);
+    expect(tripBreakers(DEFAULT_CIRCUIT_BREAKERS, moves({ crypto: -0.3 }), [halt], 1)).toEqual([]);
+    expect(tripBreakers(DEFAULT_CIRCUIT_BREAKERS, moves({ crypto: -0.3 }), [halt], 3)).toHaveLength(1);
+  });
+
+  it("counts halts in trading days on longer ticks", () => {
+    expect(tripBreakers(DEFAULT_CIRCUIT_BREAKERS, moves({ crypto: -0.3 }), [], 4, 5)[0].endTick).toBe(5);
+  });
+});
@@ -0,0 +1,85 @@
+// circuitBreakers.ts
+// Trading halts. An asset whose price falls further in one tick than its
+// threshold stops at the limit and stays shut for a few trading days; a fall in
+// the market index past one of its levels shuts every asset. While halted the
+// model keeps moving a fair price in the background, and the asset reopens at it
+// with a gap.
+import { ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { ticksIn } from "./clock";
+
+export type HaltScope = AssetClass | "index";
+
+export interface CircuitBreakerLevel {
+  drop: number; // log-return fall in one tick, as a positive number
+  days: number; // trading days trading stays shut after the tick that tripped it
+}
+
+export interface CircuitBreakerParams {
+  assetThresholds: Record<AssetClass, number>; // fall that halts the asset
+  assetHaltDays: number;
+  indexWeights: Partial<Record<AssetClass, number>>;
+  indexLevels: CircuitBreakerLevel[]; // mildest first
+}
+
+export interface Halt {
+  id: string;
+  scope: HaltScope;
+  startTick: number; // tick the breaker tripped; the price stops at the limit
+  endTick: number; // exclusive; the first tick trading is open again
+  move: number; // log return that tripped it
+}
+
+export const DEFAULT_CIRCUIT_BREAKERS: CircuitBreakerParams = {
+  assetThresholds: { equities: 0.1, govBonds: 0.04, credit: 0.06, commodities: 0.1, fx: 0.06, crypto: 0.25 },
+  assetHaltDays: 2,
+  indexWeights: { equities: 0.6, credit: 0.2, commodities: 0.1, crypto: 0.1 },
+  indexLevels: [{ drop: 0.07, days: 1 }, { drop: 0.13, days: 3 }, { drop: 0.2, days: 10 }]
+};
+
+export const validateCircuitBreakers = (params: CircuitBreakerParams) => {
+  if (ASSET_CLASSES.some(c => !(params.assetThresholds[c] > 0))) throw new Error("Circuit breaker thresholds must be positive");
+  if (params.indexLevels.some((level, i) => !(level.drop > 0 && level.days >= 0) || (i > 0 && level.drop <= params.indexLevels[i - 1].drop))) {
+    throw new Error("Index circuit breaker levels must be positive and in increasing order");
+  }
+};
+
+export const isHalted = (halt: Halt, tick: number) => halt.startTick <= tick && tick < halt.endTick;
+
+export const haltedAssets = (halts: Halt[], tick: number): AssetClass[] => {
+  const active = halts.filter(halt => isHalted(halt, tick));
+  if (active.some(halt => halt.scope === "index")) return [...ASSET_CLASSES];
+  return ASSET_CLASSES.filter(c => active.some(halt => halt.scope === c));
+};
+
+export const indexReturn = (moves: Record<AssetClass, number>, weights: Partial<Record<AssetClass, number>>) => {
+  const total = ASSET_CLASSES.reduce((sum, c) => sum + (weights[c] ?? 0), 0);
+  return total > 0 ? ASSET_CLASSES.reduce((sum, c) => sum + (weights[c] ?? 0) * moves[c], 0) / total : 0;
+};
+
+// Checks this tick's moves against the breakers. Only the move itself counts,
+// not the gap an asset reopens with, so a reopening cannot trip straight back.
+// Ticks are `days` trading days long.
+export const tripBreakers = (params: CircuitBreakerParams, moves: Record<AssetClass, number>, halts: Halt[], tick: number, days = 1): Halt[] => {
+  const halted = haltedAssets(halts, tick);
+  const halt = (scope: HaltScope, shut: number, move: number): Halt =>
+    ({ id: `${scope}-${tick}`, scope, startTick: tick, endTick: tick + 1 + ticksIn(shut, days), move });
+
+  const index = indexReturn(moves, params.indexWeights);
+  const level = [...params.indexLevels].reverse().find(l => -index >= l.drop);
+  if (level && halted.length < ASSET_CLASSES.length) return [halt("index", level.days, index)];
+
+  return ASSET_CLASSES
+    .filter(c => !halted.includes(c) && -moves[c] >= params.assetThresholds[c])
+    .map(c => halt(c, params.assetHaltDays, moves[c]));
+};
+
+// Where a newly halted asset stops this tick: at its own limit, or for an index
+// halt, scaled so the index lands on the level it broke
+export const limitMoves = (params: CircuitBreakerParams, moves: Record<AssetClass, number>, tripped: Halt[]): Record<AssetClass, number> => {
+  const index = tripped.find(halt => halt.scope === "index");
+  if (index) {
+    const level = [...params.indexLevels].reverse().find(l => -index.move >= l.drop)!;
+    return assetRecord(c => moves[c] * level.drop / -index.move);
+  }
+  return assetRecord(c => tripped.some(halt => halt.scope === c) ? -params.assetThresholds[c] : moves[c]);
+};
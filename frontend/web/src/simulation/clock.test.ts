@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { chanceIn, ClockParams, DEFAULT_CLOCK, formatTime, initialTime, nextTime, ticksIn } from "./clock";
+
+const bars = (params: ClockParams, count: number) => {
+  const times = [initialTime(params)];
+  while (times.length < count) times.push(nextTime(times[times.length - 1], params));
+  return times.map(time => formatTime(time, params.granularity));
+};
+
+const perDay = (times: string[]) => {
+  const counts: Record<string, number> = {};
+  for (const time of times) counts[time.substring(0, 10)] = (counts[time.substring(0, 10)] ?? 0) + 1;
+  return counts;
+};
+
+describe("clock", () => {
+  it("closes intraday bars through the session and opens the next trading day", () => {
+    const times = bars({ ...DEFAULT_CLOCK, granularity: "intraday" }, 14);
+    expect(times.slice(0, 2)).toEqual(["2024-01-02 10:00", "2024-01-02 10:30"]);
+    expect(times.slice(12)).toEqual(["2024-01-02 16:00", "2024-01-03 10:00"]);
+  });
+
+  it("keeps every intraday bar when the session does not divide evenly", () => {
+    const params: ClockParams = { ...DEFAULT_CLOCK, granularity: "intraday", barsPerDay: 7 };
+    const times = bars(params, 7 * 4);
+    expect(perDay(times)).toEqual({ "2024-01-02": 7, "2024-01-03": 7, "2024-01-04": 7, "2024-01-05": 7 });
+    expect(times.filter(time => time.endsWith("16:00"))).toHaveLength(4);
+  });
+
+  it("skips weekends and holidays, fixed and yearly", () => {
+    const params: ClockParams = { ...DEFAULT_CLOCK, startDate: "2024-07-03", holidays: ["07-04", "2024-07-08"] };
+    expect(bars(params, 4)).toEqual(["2024-07-03", "2024-07-05", "2024-07-09", "2024-07-10"]);
+    expect(bars({ ...DEFAULT_CLOCK, startDate: "2024-12-24" }, 4)).toEqual(["2024-12-24", "2024-12-26", "2024-12-27", "2024-12-30"]);
+    expect(bars({ ...DEFAULT_CLOCK, startDate: "2024-12-31" }, 2)).toEqual(["2024-12-31", "2025-01-02"]);
+  });
+
+  it("closes weekly bars on the last trading day of each week", () => {
+    const params: ClockParams = { ...DEFAULT_CLOCK, granularity: "weekly", startDate: "2024-06-24", holidays: ["2024-07-05"] };
+    expect(bars(params, 3)).toEqual(["2024-06-28", "2024-07-04", "2024-07-12"]);
+    const closed: ClockParams = { ...params, holidays: ["2024-07-01", "2024-07-02", "2024-07-03", "2024-07-04", "2024-07-05"] };
+    expect(bars(closed, 2)).toEqual(["2024-06-28", "2024-07-12"]);
+  });
+
+  it("restates trading-day durations and chances per tick", () => {
+    expect(ticksIn(10, 1)).toBe(10);
+    expect(ticksIn(10, 5)).toBe(2);
+    expect(chanceIn(0.1, 1)).toBe(0.1);
+    expect(chanceIn(0.1, 5)).toBeCloseTo(1 - 0.9 ** 5);
+    expect(chanceIn(0.1, 1 / 13)).toBeCloseTo(1 - 0.9 ** (1 / 13));
+  });
+});
@@ -0,0 +1,151 @@
+// clock.ts
+// Simulated time. Each tick is one bar of the chosen granularity on a trading
+// calendar that skips weekends and holidays, and the engine's dt follows from
+// it. Times are Unix seconds of exchange wall-clock time written as UTC, so a
+// date reads the same in every browser. Compression sets how fast simulated
+// time plays back against real time.
+
+export type Granularity = "intraday" | "daily" | "weekly";
+
+export interface ClockParams {
+  startDate: string; // YYYY-MM-DD; the first bar falls on the first trading day from here
+  granularity: Granularity;
+  barsPerDay: number; // intraday bars in one session
+  openMinutes: number; // session open, minutes after midnight
+  closeMinutes: number;
+  weekend: number[]; // days of the week with no trading, 0 is Sunday
+  holidays: string[]; // MM-DD every year, or YYYY-MM-DD once
+  compression: number; // simulated years played per real day
+}
+
+// Playback state; lives with the UI, not in the market state
+export interface ClockControl {
+  paused: boolean;
+  speed: number; // fast-forward multiplier
+}
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export const GRANULARITIES: Granularity[] = ["intraday", "daily", "weekly"];
+
+export const FAST_FORWARD_SPEEDS = [1, 4, 16];
+
+export const DEFAULT_CLOCK: ClockParams = {
+  startDate: "2024-01-02",
+  granularity: "daily",
+  barsPerDay: 13,
+  openMinutes: 9 * 60 + 30,
+  closeMinutes: 16 * 60,
+  weekend: [0, 6],
+  holidays: ["01-01", "07-04", "12-25"],
+  compression: 72
+};
+
+export const DEFAULT_CLOCK_CONTROL: ClockControl = { paused: false, speed: 1 };
+
+const DAY_MS = 86400000;
+// Shortest real gap between UI updates; faster playback steps several ticks at once
+const MIN_INTERVAL_MS = 100;
+
+const parseDay = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+export const validateClock = (params: ClockParams) => {
+  if (isNaN(parseDay(params.startDate))) throw new Error(`Invalid clock start date "${params.startDate}"`);
+  if (new Set(params.weekend.filter(day => day >= 0 && day <= 6)).size >= 7) throw new Error("The trading week needs at least one trading day");
+  if (!(params.barsPerDay >= 1 && params.closeMinutes > params.openMinutes)) throw new Error("Invalid trading session");
+  if (!(params.compression > 0)) throw new Error("Time compression must be positive");
+};
+
+export const isTradingDay = (day: number, params: ClockParams) => {
+  const date = new Date(day);
+  const iso = date.toISOString().substring(0, 10);
+  return !params.weekend.includes(date.getUTCDay()) && !params.holidays.some(holiday => holiday === iso || holiday === iso.substring(5));
+};
+
+// Bounded, in case the holiday list closes the market for good
+const tradingDayFrom = (day: number, params: ClockParams) => {
+  for (let candidate = day, i = 0; i < 3660; candidate += DAY_MS, i++) {
+    if (isTradingDay(candidate, params)) return candidate;
+  }
+  throw new Error("No trading day within ten years");
+};
+
+// Last trading day of the Sunday-to-Saturday week holding `day`, if any
+const weekClose = (day: number, params: ClockParams) => {
+  const sunday = day - new Date(day).getUTCDay() * DAY_MS;
+  for (let weekday = 6; weekday >= 0; weekday--) {
+    if (isTradingDay(sunday + weekday * DAY_MS, params)) return sunday + weekday * DAY_MS;
+  }
+  return undefined;
+};
+
+const barMinutes = (params: ClockParams) => (params.closeMinutes - params.openMinutes) / params.barsPerDay;
+
+const at = (day: number, minutes: number) => Math.round((day + minutes * 60000) / 1000);
+
+// Length of one tick in trading years
+export const tickYears = (params: ClockParams) => {
+  switch (params.granularity) {
+    case "intraday": return 1 / (TRADING_DAYS_PER_YEAR * params.barsPerDay);
+    case "daily": return 1 / TRADING_DAYS_PER_YEAR;
+    case "weekly": return 5 / TRADING_DAYS_PER_YEAR;
+  }
+};
+
+// Length of a tick of `dt` years in trading days: 1 on daily bars, 5 on weekly ones
+export const tickDays = (dt: number) => dt * TRADING_DAYS_PER_YEAR;
+
+// The engine's durations and per-day chances are set in trading days and
+// restated per tick of `days` trading days
+export const ticksIn = (tradingDays: number, days: number) => Math.round(tradingDays / days);
+
+// Daily bars take the chance as it is, so their draws are not off by rounding
+export const chanceIn = (dailyChance: number, days: number) => days === 1 ? dailyChance : 1 - (1 - dailyChance) ** days;
+
+// Close of the first bar
+export const initialTime = (params: ClockParams): number => {
+  const day = tradingDayFrom(parseDay(params.startDate), params);
+  switch (params.granularity) {
+    case "intraday": return at(day, params.openMinutes + barMinutes(params));
+    case "daily": return at(day, params.closeMinutes);
+    case "weekly": return at(weekClose(day, params)!, params.closeMinutes);
+  }
+};
+
+// Close of the bar after the one ending at `time`
+export const nextTime = (time: number, params: ClockParams): number => {
+  const day = Math.floor(time * 1000 / DAY_MS) * DAY_MS;
+  switch (params.granularity) {
+    case "intraday": {
+      // Bars are counted from the open rather than added to a time that was
+      // rounded to the second, so uneven bar lengths still end at the close
+      const bar = Math.round(((time * 1000 - day) / 60000 - params.openMinutes) / barMinutes(params));
+      if (bar < params.barsPerDay) return at(day, params.openMinutes + (bar + 1) * barMinutes(params));
+      return at(tradingDayFrom(day + DAY_MS, params), params.openMinutes + barMinutes(params));
+    }
+    case "daily": return at(tradingDayFrom(day + DAY_MS, params), params.closeMinutes);
+    case "weekly": {
+      const sunday = day - new Date(day).getUTCDay() * DAY_MS;
+      for (let week = 1; week <= 520; week++) {
+        const close = weekClose(sunday + week * 7 * DAY_MS, params);
+        if (close !== undefined) return at(close, params.closeMinutes);
+      }
+      throw new Error("No trading week within ten years");
+    }
+  }
+};
+
+// Replayed bars close at the session close of their date
+export const dateTime = (date: string, params: ClockParams) => at(parseDay(date), params.closeMinutes);
+
+export const formatTime = (time: number, granularity: Granularity) => {
+  const iso = new Date(time * 1000).toISOString();
+  return granularity === "intraday" ? `${iso.substring(0, 10)} ${iso.substring(11, 16)}` : iso.substring(0, 10);
+};
+
+// Real milliseconds between UI updates and ticks to step at each one
+export const stepSchedule = (params: ClockParams, control: ClockControl) => {
+  const perTick = tickYears(params) / (params.compression * Math.max(1, control.speed)) * DAY_MS;
+  const ticks = Math.max(1, Math.ceil(MIN_INTERVAL_MS / perTick));
+  return { interval: perTick * ticks, ticks };
+};
@@ -0,0 +1,53 @@
+// costs.ts
+// What trading costs a fund. Spread and impact are not charged separately: they
+// are the slippage of each fill against the book mid, split at the quoted
+// half-spread. Commission is an explicit fee on notional.
+import { Trade } from "./orderBook";
+
+export interface CommissionParams {
+  rate: number; // fraction of notional
+  minimum: number; // per fill
+}
+
+export interface TradingCosts {
+  commission: number;
+  spread: number;
+  impact: number;
+  turnover: number; // notional traded
+  borrowFees: number; // paid on shorts; financing rather than trading, so not in totalCost
+  financing: number; // interest paid on borrowed cash less interest earned on idle cash; also not in totalCost
+}
+
+export const DEFAULT_COMMISSION: CommissionParams = { rate: 0.0005, minimum: 1 };
+
+export const ZERO_COSTS: TradingCosts = { commission: 0, spread: 0, impact: 0, turnover: 0, borrowFees: 0, financing: 0 };
+
+export const addCosts = (a: TradingCosts, b: TradingCosts): TradingCosts => ({
+  commission: a.commission + b.commission,
+  spread: a.spread + b.spread,
+  impact: a.impact + b.impact,
+  turnover: a.turnover + b.turnover,
+  borrowFees: a.borrowFees + b.borrowFees,
+  financing: a.financing + b.financing
+});
+
+export const totalCost = (costs: TradingCosts) => costs.commission + costs.spread + costs.impact;
+
+export const commission = (notional: number, params: CommissionParams = DEFAULT_COMMISSION) =>
+  Math.max(params.minimum, notional * params.rate);
+
+// Passive fills (bought below or sold above mid) show up as a negative spread cost
+export const fillCosts = (fills: Trade[], fundId: string, halfSpread: number, params: CommissionParams = DEFAULT_COMMISSION): TradingCosts =>
+  fills.reduce((costs, trade) => {
+    const sign = (trade.buyer === fundId ? 1 : 0) - (trade.seller === fundId ? 1 : 0);
+    if (sign === 0) return costs;
+    const notional = trade.price * trade.quantity;
+    const slippage = sign * (trade.price - trade.mid) * trade.quantity;
+    const spread = Math.min(slippage, halfSpread * trade.mid * trade.quantity);
+    return addCosts(costs, { commission: commission(notional, params), spread, impact: slippage - spread, turnover: notional, borrowFees: 0, financing: 0 });
+  }, ZERO_COSTS);
+
+// Square-root law: expected price move, as a fraction, from trading `notional`
+// against `volume` traded per tick by an asset with per-tick volatility `volatility`
+export const sqrtImpact = (notional: number, volume: number, volatility: number, coefficient: number) =>
+  volume > 0 ? coefficient * volatility * Math.sqrt(notional / volume) : Infinity;
@@ -0,0 +1,117 @@
+// crowding.ts
+// What funds do to each other. Every fund's net position feeds a market-wide
+// positioning book; when the funds together hold more of an asset than the
+// market can absorb, the trade is crowded and risks a sudden unwind against
+// them. The flows funds send in a tick move prices through the book, and each
+// fund's share of that move is its market impact.
+import { ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { chanceIn, ticksIn } from "./clock";
+import { decayWeight } from "./events";
+import { futuresExposure } from "./futures";
+import { Trade } from "./orderBook";
+import { Holdings } from "./portfolio";
+import { Rng } from "./rng";
+
+export interface CrowdingParams {
+  capacityDays: number; // net fund positioning the market absorbs, in trading days of volume
+  unwindThreshold: number; // crowding below which an unwind cannot start
+  unwindProbability: number; // per trading day, once fully crowded
+  unwindSeverity: number; // total log return against the crowd, once fully crowded
+  unwindDays: number;
+}
+
+// Per fund, per asset: net units held, spot and futures together
+export type PositionBook = Record<string, Partial<Record<AssetClass, number>>>;
+
+// Per fund, per asset: signed notional traded this tick, positive when buying
+export type FlowBook = Record<string, Partial<Record<AssetClass, number>>>;
+
+export interface Unwind {
+  id: string;
+  asset: AssetClass;
+  startTick: number;
+  endTick: number; // exclusive
+  move: number; // total log return, against the crowd
+}
+
+export const DEFAULT_CROWDING: CrowdingParams = {
+  capacityDays: 10,
+  unwindThreshold: 0.3,
+  unwindProbability: 0.05,
+  unwindSeverity: 0.12,
+  unwindDays: 5
+};
+
+export const fundPositioning = (holdings: Holdings): Partial<Record<AssetClass, number>> => {
+  const futures = futuresExposure(holdings);
+  return Object.fromEntries(ASSET_CLASSES
+    .map(c => [c, holdings.positions[c] + futures[c]] as const)
+    .filter(([, quantity]) => quantity !== 0));
+};
+
+// Net fund positioning as a signed share of what the market absorbs; past one
+// the crowd is bigger than the market. Volumes are per tick of `days` trading days.
+export const crowdingLevels = (
+  params: CrowdingParams,
+  positioning: PositionBook,
+  prices: Record<AssetClass, number>,
+  volumes: Record<AssetClass, number>,
+  days = 1
+): Record<AssetClass, number> =>
+  assetRecord(c => {
+    const net = Object.values(positioning).reduce((sum, fund) => sum + (fund[c] ?? 0), 0);
+    const capacity = volumes[c] / days * params.capacityDays;
+    return capacity > 0 ? net * prices[c] / capacity : 0;
+  });
+
+// One draw per asset, crowded or not, so the stream does not depend on what
+// funds hold. Assets already unwinding do not start another.
+export const drawUnwinds = (
+  params: CrowdingParams,
+  crowding: Record<AssetClass, number>,
+  active: Unwind[],
+  tick: number,
+  rng: Rng,
+  days = 1
+): Unwind[] =>
+  ASSET_CLASSES.flatMap(c => {
+    const draw = rng.next();
+    const level = Math.min(1, Math.abs(crowding[c]));
+    const pressure = Math.max(0, (level - params.unwindThreshold) / (1 - params.unwindThreshold));
+    if (active.some(unwind => unwind.asset === c) || draw >= chanceIn(params.unwindProbability * pressure, days)) return [];
+    const endTick = tick + Math.max(1, ticksIn(params.unwindDays, days));
+    return [{ id: `unwind-${c}-${tick}`, asset: c, startTick: tick, endTick, move: -Math.sign(crowding[c]) * params.unwindSeverity * level }];
+  });
+
+export const isUnwinding = (unwind: Unwind, tick: number) => unwind.startTick <= tick && tick < unwind.endTick;
+
+export const unwindShocks = (active: Unwind[], tick: number): Record<AssetClass, number> =>
+  assetRecord(c => active
+    .filter(unwind => unwind.asset === c)
+    .reduce((sum, unwind) => sum + unwind.move * decayWeight("linear", unwind.endTick - unwind.startTick, tick - unwind.startTick), 0));
+
+// Adds fund trades to the flow book; trades against the market maker count on
+// one side only
+export const recordFlows = (flows: FlowBook, trades: Trade[], maker: string): FlowBook => {
+  const next: FlowBook = { ...flows };
+  const add = (fundId: string, asset: AssetClass, notional: number) => {
+    if (fundId === maker) return;
+    next[fundId] = { ...next[fundId], [asset]: (next[fundId]?.[asset] ?? 0) + notional };
+  };
+  for (const trade of trades) {
+    add(trade.buyer, trade.asset, trade.price * trade.quantity);
+    add(trade.seller, trade.asset, -trade.price * trade.quantity);
+  }
+  return next;
+};
+
+// Basis points of price move a fund caused this tick, summed over assets. Each
+// asset's move since the tick opened is shared among the funds that traded in
+// its direction, by notional; funds trading against it caused none of it.
+export const marketImpact = (flows: FlowBook, fundId: string, opens: Record<AssetClass, number>, prices: Record<AssetClass, number>) =>
+  Math.round(ASSET_CLASSES.reduce((sum, c) => {
+    const move = Math.log(prices[c] / opens[c]);
+    const pushing = (fund: Partial<Record<AssetClass, number>>) => Math.max(0, (fund[c] ?? 0) * Math.sign(move));
+    const total = Object.values(flows).reduce((acc, fund) => acc + pushing(fund), 0);
+    return total > 0 ? sum + pushing(flows[fundId] ?? {}) / total * Math.abs(move) * 10000 : sum;
+  }, 0));
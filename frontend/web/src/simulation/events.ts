@@ -0,0 +1,129 @@
+// events.ts
+// Catalog of black swan events. An event fires with its own daily probability,
+// lasts a fixed number of trading days and spreads its total shock over the
+// ticks of that window according to its decay curve.
+import { AssetClass, ASSET_CLASSES, assetRecord } from "./assets";
+import { chanceIn, ticksIn } from "./clock";
+import { Rng } from "./rng";
+
+export type BlackSwanKind = "flashCrash" | "liquidityFreeze" | "rateShock" | "sovereignDefault" | "pandemic" | "exchangeOutage";
+
+export type DecayCurve = "instant" | "linear" | "exponential";
+
+export interface BlackSwanDefinition {
+  kind: BlackSwanKind;
+  label: string;
+  probability: number; // per trading day
+  duration: number; // trading days
+  decay: DecayCurve;
+  impact: Record<AssetClass, number>; // total log return over the event
+  volatilityShock: number; // added to the volatility meter at full intensity
+  rateShock?: number; // total move in the short rate over the event
+}
+
+export interface MarketEvent {
+  id: string;
+  kind: BlackSwanKind;
+  startTick: number;
+  endTick: number; // exclusive
+}
+
+export const DEFAULT_EVENT_CATALOG: BlackSwanDefinition[] = [
+  {
+    kind: "flashCrash", label: "Flash Crash", probability: 0.0005, duration: 2, decay: "instant",
+    impact: { equities: -0.1, govBonds: 0.01, credit: -0.03, commodities: -0.04, fx: -0.01, crypto: -0.2 },
+    volatilityShock: 0.5
+  },
+  {
+    kind: "liquidityFreeze", label: "Liquidity Freeze", probability: 0.00015, duration: 20, decay: "linear",
+    impact: { equities: -0.15, govBonds: 0.01, credit: -0.1, commodities: -0.08, fx: -0.03, crypto: -0.3 },
+    volatilityShock: 0.4, rateShock: -0.005
+  },
+  {
+    kind: "rateShock", label: "Rate Shock", probability: 0.0004, duration: 10, decay: "exponential",
+    impact: { equities: -0.08, govBonds: 0, credit: -0.02, commodities: -0.02, fx: 0.03, crypto: -0.12 },
+    volatilityShock: 0.25, rateShock: 0.02
+  },
+  {
+    kind: "sovereignDefault", label: "Sovereign Default", probability: 0.0001, duration: 30, decay: "exponential",
+    impact: { equities: -0.2, govBonds: -0.1, credit: -0.18, commodities: 0.05, fx: -0.1, crypto: 0.05 },
+    volatilityShock: 0.45
+  },
+  {
+    kind: "pandemic", label: "Pandemic", probability: 0.00005, duration: 60, decay: "linear",
+    impact: { equities: -0.35, govBonds: 0, credit: -0.16, commodities: -0.3, fx: -0.04, crypto: -0.25 },
+    volatilityShock: 0.6, rateShock: -0.015
+  },
+  {
+    kind: "exchangeOutage", label: "Exchange Outage", probability: 0.0005, duration: 1, decay: "instant",
+    impact: { equities: -0.02, govBonds: 0, credit: 0, commodities: 0, fx: 0, crypto: -0.15 },
+    volatilityShock: 0.2
+  }
+];
+
+// Share of the event's shock applied `age` ticks after it started; sums to 1 over the duration
+export const decayWeight = (decay: DecayCurve, duration: number, age: number): number => {
+  if (age < 0 || age >= duration) return 0;
+  switch (decay) {
+    case "instant": return age === 0 ? 1 : 0;
+    case "linear": return (duration - age) / (duration * (duration + 1) / 2);
+    case "exponential": {
+      const rate = 3 / duration;
+      const total = (1 - Math.exp(-rate * duration)) / (1 - Math.exp(-rate));
+      return Math.exp(-rate * age) / total;
+    }
+  }
+};
+
+export const isActive = (event: MarketEvent, tick: number) => event.startTick <= tick && tick < event.endTick;
+
+const definitionFor = (catalog: BlackSwanDefinition[], kind: BlackSwanKind) => catalog.find(def => def.kind === kind);
+
+const ticksOf = (event: MarketEvent) => event.endTick - event.startTick;
+
+// Draws once per catalog entry, in catalog order, skipping kinds that are
+// already running. Ticks are `days` trading days long; every event spans at
+// least one.
+export const triggerEvents = (catalog: BlackSwanDefinition[], active: MarketEvent[], tick: number, rng: Rng, days = 1): MarketEvent[] => {
+  const started: MarketEvent[] = [];
+  for (const def of catalog) {
+    const draw = rng.next();
+    if (active.some(e => e.kind === def.kind)) continue;
+    if (draw < chanceIn(def.probability, days)) {
+      const duration = Math.max(1, ticksIn(def.duration, days));
+      started.push({ id: `${def.kind}-${tick}`, kind: def.kind, startTick: tick, endTick: tick + duration });
+    }
+  }
+  return started;
+};
+
+export const eventShocks = (catalog: BlackSwanDefinition[], active: MarketEvent[], tick: number): Record<AssetClass, number> => {
+  const shocks = assetRecord(() => 0);
+  for (const event of active) {
+    const def = definitionFor(catalog, event.kind);
+    if (!def) continue;
+    const weight = decayWeight(def.decay, ticksOf(event), tick - event.startTick);
+    for (const assetClass of ASSET_CLASSES) {
+      shocks[assetClass] += def.impact[assetClass] * weight;
+    }
+  }
+  return shocks;
+};
+
+// Rate moves follow the same decay curve as the event's price shocks
+export const eventRateShock = (catalog: BlackSwanDefinition[], active: MarketEvent[], tick: number): number =>
+  active.reduce((sum, event) => {
+    const def = definitionFor(catalog, event.kind);
+    if (!def?.rateShock) return sum;
+    return sum + def.rateShock * decayWeight(def.decay, ticksOf(event), tick - event.startTick);
+  }, 0);
+
+// Volatility boost fades linearly over the event regardless of its shock curve
+export const eventVolatility = (catalog: BlackSwanDefinition[], active: MarketEvent[], tick: number): number =>
+  active.reduce((sum, event) => {
+    const def = definitionFor(catalog, event.kind);
+    if (!def) return sum;
+    return sum + def.volatilityShock * (1 - (tick - event.startTick) / ticksOf(event));
+  }, 0);
+
+export const eventLabel = (catalog: BlackSwanDefinition[], kind: BlackSwanKind) => definitionFor(catalog, kind)?.label ?? kind;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { assetRecord } from "./assets";
+import { createExchange, DEFAULT_LIQUIDITY, levelOffset, MARKET_MAKER, openOrders, placeOrders, Quote, refreshLiquidity, takeFills } from "./exchange";
+import { bestAsk, bestBid } from "./orderBook";
+
+const quote = (price: number): Quote => ({ price, volume: 1e7, volatility: 0.01 });
+const quoted = (price: number) =>
+  refreshLiquidity(createExchange(assetRecord(() => 100)), assetRecord(() => quote(price)), 1);
+
+describe("exchange", () => {
+  it("quotes a ladder around the model price", () => {
+    const exchange = quoted(100);
+    const touch = levelOffset(quote(100), 0, DEFAULT_LIQUIDITY);
+    expect(bestBid(exchange.books.equities)).toBeCloseTo(100 * (1 - touch));
+    expect(bestAsk(exchange.books.equities)).toBeCloseTo(100 * (1 + touch));
+    expect(exchange.books.equities.asks).toHaveLength(DEFAULT_LIQUIDITY.levels);
+    expect(exchange.books.equities.asks.every(order => order.fundId === MARKET_MAKER)).toBe(true);
+  });
+
+  it("leaves halted assets unquoted", () => {
+    const exchange = refreshLiquidity(createExchange(assetRecord(() => 100)), assetRecord(() => quote(100)), 1, DEFAULT_LIQUIDITY, ["crypto"]);
+    expect(exchange.books.crypto.bids).toEqual([]);
+    expect(exchange.books.equities.bids).not.toEqual([]);
+  });
+
+  it("holds each fund's fills until it takes them, and reports rejections", () => {
+    const { exchange, trades, rejections } = placeOrders(quoted(100), [
+      { fundId: "a", asset: "equities", side: "buy", type: "market", quantity: 10 },
+      { fundId: "b", asset: "fx", side: "sell", type: "limit", quantity: 0 }
+    ], 1);
+    expect(trades.map(({ buyer, seller }) => [buyer, seller])).toEqual([["a", MARKET_MAKER]]);
+    expect(rejections.map(({ reason }) => reason)).toEqual(["Quantity must be positive"]);
+
+    const taken = takeFills(exchange, "a");
+    expect(taken.fills).toEqual(trades);
+    expect(takeFills(taken.exchange, "a").fills).toEqual([]);
+  });
+
+  it("fills resting fund orders that new quotes cross", () => {
+    const { exchange } = placeOrders(quoted(100), [{ fundId: "a", asset: "equities", side: "buy", type: "limit", quantity: 1, limitPrice: 99 }], 1);
+    expect(openOrders(exchange, "a")).toHaveLength(1);
+
+    const moved = refreshLiquidity(exchange, assetRecord(() => quote(95)), 2);
+    expect(openOrders(moved, "a")).toEqual([]);
+    expect(takeFills(moved, "a").fills.map(({ buyer, quantity }) => [buyer, quantity])).toEqual([["a", 1]]);
+  });
+});
@@ -0,0 +1,152 @@
+// exchange.ts
+// One order book per asset class, a market maker that re-quotes around the model
+// price every tick, and a tape of prints. Fund fills wait in `fills` until the
+// fund's record is settled. The maker's ladder follows the square-root impact law
+// and only shows a slice of the tick's volume, so big orders pay to trade and
+// can run out of book.
+import { ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { bestAsk, bestBid, Order, OrderBook, OrderRequest, Trade, cancelOrders, emptyBook, restOrders, submitOrder, triggerStops } from "./orderBook";
+
+export const MARKET_MAKER = "market-maker";
+
+export interface LiquidityParams {
+  halfSpread: number; // fraction of price from mid to the touch
+  impactCoefficient: number; // Y in impact = Y * sigma * sqrt(notional / volume)
+  participationCap: number; // share of the tick's volume the ladder shows on each side
+  levels: number;
+}
+
+// What the market maker needs to quote one asset
+export interface Quote {
+  price: number;
+  volume: number; // notional traded per tick
+  volatility: number; // per-tick standard deviation of returns
+}
+
+export interface ExchangeState {
+  books: Record<AssetClass, OrderBook>;
+  tape: Trade[];
+  fills: Record<string, Trade[]>;
+  nextSeq: number;
+}
+
+export interface Rejection {
+  request: OrderRequest;
+  reason: string;
+}
+
+export const DEFAULT_LIQUIDITY: LiquidityParams = {
+  halfSpread: 0.0005,
+  impactCoefficient: 1,
+  participationCap: 0.1,
+  levels: 20
+};
+
+const TAPE_LENGTH = 200;
+
+export const createExchange = (prices: Record<AssetClass, number>): ExchangeState => ({
+  books: assetRecord(c => emptyBook(c, prices[c])),
+  tape: [],
+  fills: {},
+  nextSeq: 0
+});
+
+const record = (exchange: ExchangeState, trades: Trade[]): ExchangeState => {
+  if (trades.length === 0) return exchange;
+  const fills = { ...exchange.fills };
+  for (const trade of trades) {
+    for (const fundId of [trade.buyer, trade.seller]) {
+      if (fundId !== MARKET_MAKER) fills[fundId] = [...(fills[fundId] || []), trade];
+    }
+  }
+  return { ...exchange, fills, tape: [...exchange.tape, ...trades].slice(-TAPE_LENGTH) };
+};
+
+const enter = (exchange: ExchangeState, request: OrderRequest, tick: number) => {
+  const order: Order = { ...request, id: `${tick}-${exchange.nextSeq}`, seq: exchange.nextSeq, tick, remaining: request.quantity };
+  const result = submitOrder(exchange.books[request.asset], order);
+  const next = {
+    ...exchange,
+    books: { ...exchange.books, [request.asset]: result.book },
+    nextSeq: exchange.nextSeq + 1
+  };
+  return { exchange: record(next, result.trades), trades: result.trades, rejected: result.rejected };
+};
+
+// Level k is priced at the square-root law's average marginal impact over the
+// slice of volume it holds, so walking the book costs what impact predicts
+export const levelOffset = (quote: Quote, level: number, params: LiquidityParams) => {
+  const from = level / params.levels * params.participationCap;
+  const to = (level + 1) / params.levels * params.participationCap;
+  const meanSqrt = 2 / 3 * (to ** 1.5 - from ** 1.5) / (to - from);
+  return params.halfSpread + params.impactCoefficient * quote.volatility * meanSqrt;
+};
+
+// Replaces the market maker's ladder around each asset's new model price. The new
+// quotes can fill resting fund orders that now cross, and the move can trip stops.
+// Halted assets get no quotes, so their resting orders wait for the reopening.
+// Only quotes that cross a fund order go through matching; the rest of the
+// ladder is already in price order and is merged into the book in one pass.
+export const refreshLiquidity = (
+  exchange: ExchangeState,
+  quotes: Record<AssetClass, Quote>,
+  tick: number,
+  params: LiquidityParams = DEFAULT_LIQUIDITY,
+  halted: AssetClass[] = []
+): ExchangeState => {
+  let current = exchange;
+  for (const asset of ASSET_CLASSES) {
+    const quote = quotes[asset];
+    const mid = quote.price;
+    const withoutQuotes = cancelOrders(current.books[asset], order => order.fundId !== MARKET_MAKER);
+    current = { ...current, books: { ...current.books, [asset]: { ...withoutQuotes, lastPrice: mid } } };
+    if (halted.includes(asset)) continue;
+
+    const quantity = params.participationCap * quote.volume / params.levels / mid;
+    const ladder: Order[] = [];
+    let seq = current.nextSeq;
+    for (let level = 0; level < params.levels && quantity > 0; level++) {
+      const offset = levelOffset(quote, level, params);
+      for (const [side, price] of [["buy", mid * (1 - offset)], ["sell", mid * (1 + offset)]] as const) {
+        const against = side === "buy" ? bestAsk(current.books[asset]) : bestBid(current.books[asset]);
+        if (against !== undefined && (side === "buy" ? against <= price : against >= price)) {
+          current = enter({ ...current, nextSeq: seq }, { fundId: MARKET_MAKER, asset, side, type: "limit", quantity, limitPrice: price }, tick).exchange;
+        } else {
+          // Spelled out rather than spread from a request: this runs for every level of every ladder each tick
+          ladder.push({ fundId: MARKET_MAKER, asset, side, type: "limit", quantity, limitPrice: price, id: `${tick}-${seq}`, seq, tick, remaining: quantity });
+        }
+        seq++;
+      }
+    }
+    current = { ...current, books: { ...current.books, [asset]: restOrders(current.books[asset], ladder) }, nextSeq: seq };
+
+    // Stops are checked against the new mid once the fresh quotes are there to fill them
+    const stopped = triggerStops(current.books[asset], mid);
+    current = record({ ...current, books: { ...current.books, [asset]: stopped.book } }, stopped.trades);
+  }
+  return current;
+};
+
+export const placeOrders = (exchange: ExchangeState, requests: OrderRequest[], tick: number) => {
+  let current = exchange;
+  const trades: Trade[] = [];
+  const rejections: Rejection[] = [];
+  for (const request of requests) {
+    const result = enter(current, request, tick);
+    current = result.exchange;
+    trades.push(...result.trades);
+    if (result.rejected) rejections.push({ request, reason: result.rejected });
+  }
+  return { exchange: current, trades, rejections };
+};
+
+export const takeFills = (exchange: ExchangeState, fundId: string) => {
+  const { [fundId]: fills = [], ...rest } = exchange.fills;
+  return { exchange: { ...exchange, fills: rest }, fills };
+};
+
+export const openOrders = (exchange: ExchangeState, fundId: string): Order[] =>
+  ASSET_CLASSES.flatMap(c => {
+    const book = exchange.books[c];
+    return [...book.bids, ...book.asks, ...book.stops].filter(order => order.fundId === fundId);
+  });
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { stepFunds } from "./fundStep";
+import { createMarketEngine } from "./marketEngine";
+import { EXAMPLE_PROGRAMS, RULES_STRATEGY, SCRIPT_STRATEGY } from "./strategies";
+import { testFund } from "./testFixtures";
+
+const run = (seed: number, ticks: number) => {
+  const engine = createMarketEngine({ seed });
+  const funds = ["Quant", "Macro", RULES_STRATEGY, SCRIPT_STRATEGY].map((strategy, i) => testFund(`f${i}`, strategy, { program: EXAMPLE_PROGRAMS[strategy] }));
+  let round = stepFunds(engine, engine.initialState(), funds);
+  for (let i = 1; i < ticks; i++) round = stepFunds(engine, engine.step(round.state), round.funds);
+  return round;
+};
+
+describe("fund steps", () => {
+  it("repeat exactly for the same seed", () => {
+    const first = run(5, 80);
+    expect(JSON.stringify(run(5, 80))).toBe(JSON.stringify(first));
+    expect(first.funds.every(({ holdings }) => holdings.cash !== 1e6)).toBe(true);
+  });
+});
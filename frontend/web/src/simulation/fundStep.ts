@@ -0,0 +1,113 @@
+// fundStep.ts
+// One trading round for every fund at the current bar: collect fills, settle
+// futures, enforce margin, charge borrow and interest, settle options, then ask
+// the fund's strategy what to hold, trade there and put the option overlay
+// back on. Works on plain data so it runs the same on the main thread, in a
+// Web Worker or under Node.
+import { Allocation, AssetClass } from "./assets";
+import { addCosts, TradingCosts, ZERO_COSTS } from "./costs";
+import { addFuturesPnl, FuturesMode, FuturesPnl, splitTargets } from "./futures";
+import { leveragedAllocation, MarginAccount, targetLeverage } from "./margin";
+import { macroCalendar, marginParams, MarketEngine, MarketState, priceModelParams } from "./marketEngine";
+import { OptionOverlay } from "./options";
+import { Holdings, markToMarket, normalizeAllocation, rebalanceOrders } from "./portfolio";
+import { coverRecalled } from "./shorting";
+import { strategyFor } from "./strategies";
+import { isStrategyViolation, marketView, MarketView, portfolioView, PortfolioView, StrategyDecision, StrategyParams, strategyParams, StrategyViolation } from "./strategy";
+
+// Everything a fund carries from one round to the next, decrypted
+export interface FundAccount {
+  id: string;
+  strategy: string;
+  performance: number;
+  risk: number;
+  assets: number;
+  allocation: Allocation;
+  holdings: Holdings;
+  futuresMode: FuturesMode;
+  optionOverlay: OptionOverlay;
+  margin: MarginAccount;
+  costs: TradingCosts; // running totals
+  futuresPnl: FuturesPnl; // running totals
+  marketImpact: number; // bps caused in the last round
+  params?: StrategyParams; // the fund's settings for its strategy's tunable params
+  program?: string; // rules or script, for funds that write their own strategy
+  violation?: StrategyViolation & { tick: number }; // the last round the fund sat out, and why
+  roundsSatOut?: number;
+}
+
+export interface FundsStep {
+  state: MarketState;
+  funds: FundAccount[];
+}
+
+const targetWeights = (engine: MarketEngine, fund: FundAccount, weights: Partial<Allocation>, recalls: AssetClass[]) => {
+  const normalized = normalizeAllocation(weights);
+  const leverage = targetLeverage(fund.risk, normalized, marginParams(engine.config));
+  return splitTargets(coverRecalled(leveragedAllocation(normalized, leverage), recalls), fund.futuresMode);
+};
+
+// A strategy that breaks its limits places nothing this round
+const decide = (engine: MarketEngine, fund: FundAccount, market: MarketView, portfolio: PortfolioView): { decision: StrategyDecision; violation?: StrategyViolation } => {
+  try {
+    const strategy = strategyFor(fund.strategy, fund.program, macroCalendar(engine.config));
+    return { decision: strategy.onTick(market, portfolio, strategyParams(strategy, fund.params)) };
+  } catch (e) {
+    if (!isStrategyViolation(e)) throw e;
+    return { decision: { kind: "orders", orders: [] }, violation: e.violation };
+  }
+};
+
+export const tradeFund = (engine: MarketEngine, state: MarketState, fund: FundAccount): { state: MarketState; fund: FundAccount } => {
+  const settled = engine.settleFund(state, fund.id, fund.holdings);
+  const variation = engine.settleFutures(settled.state, settled.holdings, fund.futuresMode === "auto" ? "auto" : "manual");
+  const margin = engine.checkMargin(settled.state, variation.holdings, fund.margin);
+  const borrow = engine.chargeBorrow(settled.state, margin.holdings);
+  const interest = engine.accrueInterest(settled.state, borrow.holdings);
+  const expired = engine.settleOptions(settled.state, interest.holdings);
+  const { decision, violation } = decide(engine, fund, marketView(engine, settled.state, priceModelParams(engine.config).dt), portfolioView(expired.holdings, settled.state.prices, fund.allocation, fund.risk, marginParams(engine.config)));
+  // Weights are reached at the leverage the risk factor asks for, covering any
+  // short whose borrow was recalled, with futures underlyings held as futures
+  // unless the fund trades spot only. Orders go in as they are.
+  const target = decision.kind === "weights" ? targetWeights(engine, fund, decision.weights, settled.state.recalls) : undefined;
+  const orders = decision.kind === "weights"
+    ? rebalanceOrders(fund.id, expired.holdings, target!.spot, settled.state.prices)
+    : decision.orders.map(order => ({ ...order, fundId: fund.id }));
+  const placed = engine.submitOrders(settled.state, orders);
+  const traded = engine.settleFund(placed.state, fund.id, expired.holdings);
+  const hedged = target
+    ? engine.rebalanceFutures(traded.state, traded.holdings, target.futures, markToMarket(expired.holdings, settled.state.prices))
+    : { holdings: traded.holdings, costs: ZERO_COSTS };
+  const overlay = engine.applyOverlay(traded.state, hedged.holdings, fund.optionOverlay);
+  const next = engine.recordPositioning(engine.recordShorts(traded.state, fund.id, overlay.holdings), fund.id, overlay.holdings);
+
+  const result = engine.evaluateFund(next, { id: fund.id, strategy: fund.strategy, performance: fund.performance, risk: fund.risk, assets: fund.assets, allocation: fund.allocation, holdings: overlay.holdings });
+  const costs = [settled.costs, variation.costs, traded.costs, hedged.costs, overlay.costs, { ...ZERO_COSTS, borrowFees: borrow.fee, financing: -interest.interest }].reduce(addCosts, fund.costs);
+  return {
+    state: next,
+    fund: {
+      ...fund,
+      performance: result.performance,
+      assets: result.assets,
+      holdings: overlay.holdings,
+      margin: margin.account,
+      costs,
+      futuresPnl: addFuturesPnl(fund.futuresPnl, variation.pnl),
+      ...(violation && { violation: { ...violation, tick: settled.state.tick }, roundsSatOut: (fund.roundsSatOut ?? 0) + 1 })
+    }
+  };
+};
+
+// Funds trade in the order given, so every client passing the same order fills
+// them identically. Market impact is read once everyone has traded, since each
+// fund's share depends on what the others did.
+export const stepFunds = (engine: MarketEngine, state: MarketState, funds: FundAccount[]): FundsStep => {
+  let next = state;
+  const traded: FundAccount[] = [];
+  for (const fund of funds) {
+    const round = tradeFund(engine, next, fund);
+    next = round.state;
+    traded.push(round.fund);
+  }
+  return { state: next, funds: traded.map(fund => ({ ...fund, marketImpact: engine.marketImpact(next, fund.id) })) };
+};
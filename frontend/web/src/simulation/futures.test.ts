@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { assetRecord } from "./assets";
+import { DEFAULT_FUTURES, FuturesMarket, frontContract, futuresCurve, futuresPrice, listedExpiries, settleFutures, stepBasis } from "./futures";
+import { cashHoldings, Holdings } from "./portfolio";
+import { createRng } from "./rng";
+
+const dt = 1 / 252;
+
+const market = (tick: number, spot: number, basis: number): FuturesMarket =>
+  ({ prices: assetRecord(() => spot), basis: { equities: basis }, tick, dt });
+
+// Ten index contracts expiring at tick 21, bought at tick 0
+const long = (basis: number): Holdings => ({
+  ...cashHoldings(0),
+  futures: [{ underlying: "equities", expiryTick: 21, quantity: 10, lastPrice: futuresPrice(100, basis, 21, 0, dt), lastSpot: 100 }]
+});
+
+describe("futures", () => {
+  it("prices contango above spot and backwardation below, converging at expiry", () => {
+    expect(futuresPrice(100, 0.12, 21, 0, dt)).toBeCloseTo(100 * Math.exp(0.01));
+    expect(futuresPrice(100, -0.12, 21, 0, dt)).toBeCloseTo(100 * Math.exp(-0.01));
+    expect(futuresPrice(100, 0.12, 21, 21, dt)).toBe(100);
+    expect(futuresPrice(100, 0.12, 21, 30, dt)).toBe(100);
+  });
+
+  it("lists expiries every interval and quotes the curve along them", () => {
+    expect(listedExpiries(0, dt, DEFAULT_FUTURES)).toEqual([21, 42, 63, 84, 105, 126]);
+    expect(listedExpiries(21, dt, DEFAULT_FUTURES)[0]).toBe(42);
+    expect(listedExpiries(0, 5 / 252, DEFAULT_FUTURES)).toEqual([4, 8, 12, 16, 20, 24]);
+    const prices = futuresCurve(100, 0.05, 0, dt, DEFAULT_FUTURES).map(point => point.price);
+    expect(prices.every((price, i) => i === 0 || price > prices[i - 1])).toBe(true);
+  });
+
+  it("skips to the next contract once the front one is inside the roll window", () => {
+    expect(frontContract(15, dt, DEFAULT_FUTURES)).toBe(21);
+    expect(frontContract(16, dt, DEFAULT_FUTURES)).toBe(42);
+  });
+
+  it("reverts the basis towards the regime's mean", () => {
+    const calm = { ...DEFAULT_FUTURES, curves: { equities: { ...DEFAULT_FUTURES.curves.equities!, volatility: 0 } } };
+    const next = stepBasis({ equities: 0.1 }, calm, "crisis", 0.25, createRng(1));
+    expect(next.equities).toBeCloseTo(-0.01 + 0.11 * Math.exp(-1));
+  });
+
+  it("pays the roll yield as a contango curve converges on unchanged spot", () => {
+    const { holdings, pnl } = settleFutures(long(0.12), market(10, 100, 0.12), "manual");
+    const loss = 10 * (futuresPrice(100, 0.12, 21, 10, dt) - futuresPrice(100, 0.12, 21, 0, dt));
+    expect(loss).toBeLessThan(0);
+    expect(pnl.spot).toBe(0);
+    expect(pnl.roll).toBeCloseTo(loss);
+    expect(holdings.cash).toBeCloseTo(loss);
+    expect(holdings.futures![0].lastPrice).toBeCloseTo(futuresPrice(100, 0.12, 21, 10, dt));
+  });
+
+  it("puts a flat curve's P&L down to the move in spot", () => {
+    const { pnl } = settleFutures(long(0), market(10, 110, 0), "manual");
+    expect(pnl.spot).toBeCloseTo(100);
+    expect(pnl.roll).toBeCloseTo(0);
+  });
+
+  it("cash-settles expired contracts at spot", () => {
+    const { holdings, pnl } = settleFutures(long(0.12), market(21, 100, 0.12), "manual");
+    expect(holdings.futures).toEqual([]);
+    expect(holdings.cash).toBeCloseTo(10 * (100 - futuresPrice(100, 0.12, 21, 0, dt)));
+    expect(pnl.roll).toBeCloseTo(holdings.cash);
+  });
+
+  it("rolls into the next contract only in auto mode", () => {
+    const auto = settleFutures(long(0.12), market(17, 100, 0.12), "auto");
+    expect(auto.holdings.futures).toMatchObject([{ expiryTick: 42, quantity: 10 }]);
+    expect(auto.costs.spread).toBeGreaterThan(0);
+
+    const manual = settleFutures(long(0.12), market(17, 100, 0.12), "manual");
+    expect(manual.holdings.futures).toMatchObject([{ expiryTick: 21, quantity: 10 }]);
+    expect(manual.costs.spread).toBe(0);
+  });
+});
@@ -0,0 +1,235 @@
+// futures.ts
+// Futures on the equity index and on commodities. Each curve is a single
+// annualised basis over spot: positive is contango, negative backwardation. The
+// basis mean-reverts towards a level set by the market regime, so a curve can
+// flip shape as regimes change. Contracts settle variation margin in cash every
+// tick and cash-settle at spot on expiry; the part of futures P&L that spot
+// moves do not explain is the roll yield.
+import { Allocation, AssetClass, assetRecord } from "./assets";
+import { tickDays, ticksIn } from "./clock";
+import { TradingCosts, ZERO_COSTS, addCosts } from "./costs";
+import { Holdings } from "./portfolio";
+import { RegimeName } from "./regimes";
+import { Rng } from "./rng";
+
+export type RollMode = "auto" | "manual";
+
+// How a fund takes exposure to the futures underlyings
+export type FuturesMode = "spot" | RollMode;
+
+export interface CurveParams {
+  meanBasis: Record<RegimeName, number>; // annualised
+  reversion: number; // per year
+  volatility: number; // of the basis, annualised
+}
+
+export interface FuturesParams {
+  curves: Partial<Record<AssetClass, CurveParams>>;
+  expiryInterval: number; // trading days between listed expiries
+  listed: number; // expiries quoted at once
+  rollWindow: number; // trading days before expiry at which auto roll moves to the next contract
+  halfSpread: number; // fraction of the futures price
+}
+
+export interface FuturesPosition {
+  underlying: AssetClass;
+  expiryTick: number;
+  quantity: number; // units of the underlying, negative when short
+  lastPrice: number; // price variation margin was last settled at
+  lastSpot: number; // underlying spot at that settlement, for P&L attribution
+}
+
+export interface FuturesPnl {
+  spot: number; // what the move in spot explains
+  roll: number; // the rest: convergence along the curve
+}
+
+export interface CurvePoint {
+  expiryTick: number;
+  price: number;
+}
+
+export interface FuturesActivity {
+  holdings: Holdings;
+  pnl: FuturesPnl;
+  costs: TradingCosts;
+}
+
+export const DEFAULT_FUTURES: FuturesParams = {
+  curves: {
+    equities: { meanBasis: { bull: 0.005, bear: 0, crisis: -0.01 }, reversion: 4, volatility: 0.01 },
+    commodities: { meanBasis: { bull: -0.03, bear: 0.05, crisis: 0.15 }, reversion: 3, volatility: 0.08 }
+  },
+  expiryInterval: 21,
+  listed: 6,
+  rollWindow: 5,
+  halfSpread: 0.0002
+};
+
+// Weights on futures underlyings move from the spot target to the futures one
+export const splitTargets = (target: Allocation, mode: FuturesMode, params: FuturesParams = DEFAULT_FUTURES) => {
+  const underlyings = mode === "spot" ? [] : futuresUnderlyings(params);
+  return {
+    spot: assetRecord(c => underlyings.includes(c) ? 0 : target[c]),
+    futures: Object.fromEntries(underlyings.map(c => [c, target[c]])) as Partial<Record<AssetClass, number>>
+  };
+};
+
+export const ZERO_FUTURES_PNL: FuturesPnl = { spot: 0, roll: 0 };
+
+export const addFuturesPnl = (a: FuturesPnl, b: FuturesPnl): FuturesPnl => ({ spot: a.spot + b.spot, roll: a.roll + b.roll });
+
+export const futuresUnderlyings = (params: FuturesParams): AssetClass[] =>
+  (Object.keys(params.curves) as AssetClass[]).filter(c => params.curves[c]);
+
+export const initialBasis = (params: FuturesParams, regime: RegimeName): Partial<Record<AssetClass, number>> =>
+  Object.fromEntries(futuresUnderlyings(params).map(c => [c, params.curves[c]!.meanBasis[regime]]));
+
+// Exact Ornstein-Uhlenbeck step towards the regime's mean basis
+export const stepBasis = (
+  basis: Partial<Record<AssetClass, number>>,
+  params: FuturesParams,
+  regime: RegimeName,
+  dt: number,
+  rng: Rng
+): Partial<Record<AssetClass, number>> =>
+  Object.fromEntries(futuresUnderlyings(params).map(c => {
+    const curve = params.curves[c]!;
+    const mean = curve.meanBasis[regime];
+    const decay = Math.exp(-curve.reversion * dt);
+    const sd = curve.volatility * Math.sqrt((1 - decay * decay) / (2 * curve.reversion));
+    return [c, mean + ((basis[c] ?? mean) - mean) * decay + sd * rng.normal()];
+  }));
+
+// Expiries fall every `expiryInterval` trading days, counted in ticks of `dt` years
+export const listedExpiries = (tick: number, dt: number, params: FuturesParams): number[] => {
+  const interval = Math.max(1, ticksIn(params.expiryInterval, tickDays(dt)));
+  const first = (Math.floor(tick / interval) + 1) * interval;
+  return Array.from({ length: params.listed }, (_, i) => first + i * interval);
+};
+
+const rollTicks = (dt: number, params: FuturesParams) => ticksIn(params.rollWindow, tickDays(dt));
+
+export const futuresPrice = (spot: number, basis: number, expiryTick: number, tick: number, dt: number) =>
+  spot * Math.exp(basis * Math.max(0, expiryTick - tick) * dt);
+
+export const futuresCurve = (spot: number, basis: number, tick: number, dt: number, params: FuturesParams): CurvePoint[] =>
+  listedExpiries(tick, dt, params).map(expiryTick => ({ expiryTick, price: futuresPrice(spot, basis, expiryTick, tick, dt) }));
+
+// The nearest contract not yet inside the roll window
+export const frontContract = (tick: number, dt: number, params: FuturesParams) =>
+  listedExpiries(tick, dt, params).find(expiry => expiry - tick > rollTicks(dt, params))!;
+
+export interface FuturesMarket {
+  prices: Record<AssetClass, number>;
+  basis: Partial<Record<AssetClass, number>>;
+  tick: number;
+  dt: number;
+}
+
+const priceOf = (market: FuturesMarket, underlying: AssetClass, expiryTick: number) =>
+  futuresPrice(market.prices[underlying], market.basis[underlying] ?? 0, expiryTick, market.tick, market.dt);
+
+// Every trade crosses the dealer's spread. Positions in the same contract net,
+// after the held one settles any variation margin it has not yet paid.
+const trade = (holdings: Holdings, market: FuturesMarket, underlying: AssetClass, expiryTick: number, quantity: number, params: FuturesParams) => {
+  const price = priceOf(market, underlying, expiryTick);
+  const futures = [...(holdings.futures ?? [])];
+  const index = futures.findIndex(position => position.underlying === underlying && position.expiryTick === expiryTick);
+  const held = index === -1 ? 0 : futures[index].quantity;
+  const variation = index === -1 ? 0 : held * (price - futures[index].lastPrice);
+  const position = { underlying, expiryTick, quantity: held + quantity, lastPrice: price, lastSpot: market.prices[underlying] };
+  if (index === -1) futures.push(position);
+  else futures[index] = position;
+  const spread = Math.abs(quantity) * price * params.halfSpread;
+  return {
+    holdings: { ...holdings, cash: holdings.cash + variation - spread, futures: futures.filter(position => position.quantity !== 0) },
+    costs: { ...ZERO_COSTS, spread, turnover: Math.abs(quantity) * price }
+  };
+};
+
+// Settles variation margin at today's prices, cash-settles expired contracts at
+// spot and, in auto mode, rolls contracts that entered the roll window
+export const settleFutures = (holdings: Holdings, market: FuturesMarket, roll: RollMode, params: FuturesParams = DEFAULT_FUTURES): FuturesActivity => {
+  let pnl = ZERO_FUTURES_PNL;
+  let cash = holdings.cash;
+  const futures = (holdings.futures ?? []).flatMap(position => {
+    const expired = market.tick >= position.expiryTick;
+    const spotPrice = market.prices[position.underlying];
+    const price = expired ? spotPrice : priceOf(market, position.underlying, position.expiryTick);
+    const total = position.quantity * (price - position.lastPrice);
+    const spot = position.quantity * position.lastPrice * (spotPrice / position.lastSpot - 1);
+    pnl = addFuturesPnl(pnl, { spot, roll: total - spot });
+    cash += total;
+    return expired ? [] : [{ ...position, lastPrice: price, lastSpot: spotPrice }];
+  });
+
+  let current: Holdings = { ...holdings, cash, futures };
+  let costs = ZERO_COSTS;
+  if (roll === "auto") {
+    const rolled = rollFutures(current, market, params, position => position.expiryTick - market.tick <= rollTicks(market.dt, params));
+    current = rolled.holdings;
+    costs = rolled.costs;
+  }
+  return { holdings: current, pnl, costs };
+};
+
+// Moves matching positions into the front contract
+export const rollFutures = (
+  holdings: Holdings,
+  market: FuturesMarket,
+  params: FuturesParams = DEFAULT_FUTURES,
+  due: (position: FuturesPosition) => boolean = () => true
+) => {
+  const front = frontContract(market.tick, market.dt, params);
+  let current = holdings;
+  let costs = ZERO_COSTS;
+  for (const position of holdings.futures ?? []) {
+    if (position.expiryTick === front || !due(position)) continue;
+    for (const [expiryTick, quantity] of [[position.expiryTick, -position.quantity], [front, position.quantity]]) {
+      const result = trade(current, market, position.underlying, expiryTick, quantity, params);
+      current = result.holdings;
+      costs = addCosts(costs, result.costs);
+    }
+  }
+  return { holdings: current, costs };
+};
+
+// Trades until each underlying's futures notional is its target weight of NAV.
+// Adjustments go into the latest contract already held, so a manual-roll fund
+// stays in one expiry, and into the front contract otherwise. Halted
+// underlyings are left as they are.
+export const rebalanceFutures = (
+  holdings: Holdings,
+  targets: Partial<Record<AssetClass, number>>,
+  nav: number,
+  market: FuturesMarket,
+  params: FuturesParams = DEFAULT_FUTURES,
+  halted: AssetClass[] = [],
+  minTradeValue = 1000
+) => {
+  const front = frontContract(market.tick, market.dt, params);
+  let current = holdings;
+  let costs = ZERO_COSTS;
+  for (const underlying of futuresUnderlyings(params).filter(c => !halted.includes(c))) {
+    const positions = (current.futures ?? []).filter(position => position.underlying === underlying);
+    const expiryTick = positions.reduce((latest, position) => Math.max(latest, position.expiryTick), 0) || front;
+    const price = priceOf(market, underlying, expiryTick);
+    const held = positions.reduce((sum, position) => sum + position.quantity, 0);
+    const delta = (targets[underlying] ?? 0) * nav / price - held;
+    if (Math.abs(delta * price) < minTradeValue) continue;
+    const result = trade(current, market, underlying, expiryTick, delta, params);
+    current = result.holdings;
+    costs = addCosts(costs, result.costs);
+  }
+  return { holdings: current, costs };
+};
+
+// Open P&L since the last settlement; zero right after settling
+export const unsettledFutures = (holdings: Holdings, market: FuturesMarket) =>
+  (holdings.futures ?? []).reduce((sum, position) =>
+    sum + position.quantity * (priceOf(market, position.underlying, position.expiryTick) - position.lastPrice), 0);
+
+// Underlying units held through futures, per asset
+export const futuresExposure = (holdings: Holdings): Record<AssetClass, number> =>
+  assetRecord(c => (holdings.futures ?? []).filter(position => position.underlying === c).reduce((sum, position) => sum + position.quantity, 0));
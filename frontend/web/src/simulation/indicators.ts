@@ -0,0 +1,64 @@
+// indicators.ts
+// Technical indicators over a price history, oldest first and ending at the
+// current price. Early in a season the history can be shorter than the window;
+// every indicator then uses what there is, so none of them fail on a short
+// series.
+
+const tail = (values: number[], length: number) => values.slice(-Math.max(1, Math.floor(length)));
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const logReturns = (prices: number[]) => prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+
+export const last = (prices: number[]) => prices[prices.length - 1] ?? 0;
+
+export const sma = (prices: number[], length: number) => mean(tail(prices, length));
+
+// Seeded with the first price in the window
+export const ema = (prices: number[], length: number) => {
+  const alpha = 2 / (Math.max(1, length) + 1);
+  const recent = tail(prices, length * 4);
+  return recent.slice(1).reduce((average, price) => average + alpha * (price - average), recent[0] ?? 0);
+};
+
+// Log return over the last `length` bars
+export const momentum = (prices: number[], length: number) => {
+  const recent = tail(prices, length + 1);
+  return recent.length > 1 ? Math.log(last(recent) / recent[0]) : 0;
+};
+
+// Standard deviation of one-bar log returns over the last `length` bars
+export const volatility = (prices: number[], length: number) => {
+  const returns = logReturns(tail(prices, length + 1));
+  if (returns.length < 2) return 0;
+  const average = mean(returns);
+  return Math.sqrt(returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / (returns.length - 1));
+};
+
+// Relative strength index on simple averages of gains and losses, 0 to 100
+export const rsi = (prices: number[], length: number) => {
+  const recent = tail(prices, length + 1);
+  const changes = recent.slice(1).map((price, i) => price - recent[i]);
+  const gains = changes.reduce((sum, change) => sum + Math.max(0, change), 0);
+  const losses = changes.reduce((sum, change) => sum + Math.max(0, -change), 0);
+  if (gains + losses === 0) return 50;
+  return 100 * gains / (gains + losses);
+};
+
+export const highest = (prices: number[], length: number) => prices.length > 0 ? Math.max(...tail(prices, length)) : 0;
+
+export const lowest = (prices: number[], length: number) => prices.length > 0 ? Math.min(...tail(prices, length)) : 0;
+
+// Distance of the current price from its moving average, in standard deviations of price
+export const zScore = (prices: number[], length: number) => {
+  const recent = tail(prices, length);
+  const average = mean(recent);
+  const deviation = Math.sqrt(mean(recent.map(price => (price - average) ** 2)));
+  return deviation > 0 ? (last(recent) - average) / deviation : 0;
+};
+
+// Fall of the current price from its highest over the window, as a share of it
+export const drawdown = (prices: number[], length: number) => {
+  const peak = highest(prices, length);
+  return peak > 0 ? 1 - last(prices) / peak : 0;
+};
@@ -0,0 +1,152 @@
+// macroCalendar.ts
+// Scheduled macro releases. Each release type comes out on a fixed cycle of
+// trading days with a consensus set by the market regime; the print lands at
+// consensus plus a normal surprise in the tick holding its day. Surprises nudge
+// the trend and volatility meters when they land and move the short rate and
+// individual assets over the release's window.
+import { AssetClass, ASSET_CLASSES, assetRecord } from "./assets";
+import { ticksIn } from "./clock";
+import { DecayCurve, decayWeight } from "./events";
+import { RegimeName } from "./regimes";
+import { Rng } from "./rng";
+
+export type MacroReleaseKind = "cpi" | "payrolls" | "rateDecision" | "earnings";
+
+// Impacts are per standard deviation of surprise, signed with it
+export interface MacroReleaseDefinition {
+  kind: MacroReleaseKind;
+  label: string;
+  unit: string;
+  every: number; // trading days between releases
+  offset: number; // trading day of the first release
+  duration: number; // trading days the asset and rate impact is spread over
+  decay: DecayCurve;
+  consensus: Record<RegimeName, number>;
+  surpriseStdDev: number; // in the release's unit
+  trendImpact: number; // on the trend meter
+  volatilityImpact: number; // on the volatility meter, for a surprise either way
+  rateImpact: number; // on the short rate
+  impact: Partial<Record<AssetClass, number>>; // log return
+}
+
+export interface MacroRelease {
+  id: string;
+  kind: MacroReleaseKind;
+  tick: number;
+  consensus: number;
+  actual: number;
+  surprise: number; // standard deviations
+}
+
+export interface ScheduledRelease {
+  kind: MacroReleaseKind;
+  tick: number;
+  consensus: number; // as the current regime sees it
+}
+
+export interface MacroShocks {
+  assets: Record<AssetClass, number>;
+  rate: number;
+}
+
+export const DEFAULT_MACRO_CALENDAR: MacroReleaseDefinition[] = [
+  {
+    kind: "payrolls", label: "Nonfarm Payrolls", unit: "k jobs", every: 21, offset: 2, duration: 1, decay: "instant",
+    consensus: { bull: 200, bear: 80, crisis: -150 }, surpriseStdDev: 60,
+    trendImpact: 0.04, volatilityImpact: 0.02, rateImpact: 0.001,
+    impact: { equities: 0.008, credit: 0.003, commodities: 0.004, fx: 0.002, crypto: 0.01 }
+  },
+  {
+    kind: "cpi", label: "CPI", unit: "% y/y", every: 21, offset: 8, duration: 1, decay: "instant",
+    consensus: { bull: 2.5, bear: 3, crisis: 1.5 }, surpriseStdDev: 0.2,
+    trendImpact: -0.03, volatilityImpact: 0.03, rateImpact: 0.002,
+    impact: { equities: -0.01, credit: -0.003, commodities: 0.005, fx: 0.003, crypto: -0.015 }
+  },
+  {
+    kind: "rateDecision", label: "Rate Decision", unit: "bp", every: 42, offset: 30, duration: 1, decay: "instant",
+    consensus: { bull: 0, bear: -25, crisis: -50 }, surpriseStdDev: 10,
+    trendImpact: -0.02, volatilityImpact: 0.02, rateImpact: 0.001,
+    impact: { equities: -0.006, credit: -0.002, commodities: -0.002, fx: 0.004, crypto: -0.01 }
+  },
+  {
+    kind: "earnings", label: "Earnings Season", unit: "% EPS growth", every: 63, offset: 40, duration: 20, decay: "linear",
+    consensus: { bull: 8, bear: 2, crisis: -10 }, surpriseStdDev: 3,
+    trendImpact: 0.05, volatilityImpact: 0.01, rateImpact: 0,
+    impact: { equities: 0.015, credit: 0.005, crypto: 0.01 }
+  }
+];
+
+// Releases kept in the market state; comfortably longer than any release window
+export const RELEASE_HISTORY = 100;
+
+export const validateMacroCalendar = (calendar: MacroReleaseDefinition[]) => {
+  for (const def of calendar) {
+    if (!(def.every > 0 && def.offset >= 0 && def.duration >= 1)) throw new Error(`Invalid schedule for release "${def.kind}"`);
+    if (!(def.surpriseStdDev >= 0)) throw new Error(`Surprise deviation for release "${def.kind}" must be non-negative`);
+  }
+};
+
+const definitionFor = (calendar: MacroReleaseDefinition[], kind: MacroReleaseKind) => calendar.find(def => def.kind === kind);
+
+// Ticks are `days` trading days long, so trading day d falls in tick d / days
+const releaseTick = (def: MacroReleaseDefinition, n: number, days: number) => Math.floor((def.offset + n * def.every) / days + 1e-9);
+
+// Number of the first release landing after `tick`
+const nextRelease = (def: MacroReleaseDefinition, tick: number, days: number) => {
+  let n = Math.max(0, Math.floor(((tick + 1) * days - def.offset) / def.every) - 1);
+  while (releaseTick(def, n, days) <= tick) n++;
+  return n;
+};
+
+export const isScheduled = (def: MacroReleaseDefinition, tick: number, days = 1) =>
+  releaseTick(def, nextRelease(def, tick - 1, days), days) === tick;
+
+// One draw per release due this tick, in calendar order
+export const drawReleases = (calendar: MacroReleaseDefinition[], regime: RegimeName, tick: number, rng: Rng, days = 1): MacroRelease[] =>
+  calendar.filter(def => isScheduled(def, tick, days)).map(def => {
+    const surprise = rng.normal();
+    const consensus = def.consensus[regime];
+    return { id: `${def.kind}-${tick}`, kind: def.kind, tick, consensus, actual: consensus + surprise * def.surpriseStdDev, surprise };
+  });
+
+// Releases due after `tick` and no later than `tick + horizon` ticks, soonest first
+export const upcomingReleases = (calendar: MacroReleaseDefinition[], regime: RegimeName, tick: number, horizon: number, days = 1): ScheduledRelease[] =>
+  calendar.flatMap(def => {
+    const scheduled: ScheduledRelease[] = [];
+    for (let n = nextRelease(def, tick, days); releaseTick(def, n, days) <= tick + horizon; n++) {
+      const next = releaseTick(def, n, days);
+      if (next !== scheduled[scheduled.length - 1]?.tick) scheduled.push({ kind: def.kind, tick: next, consensus: def.consensus[regime] });
+    }
+    return scheduled;
+  }).sort((a, b) => a.tick - b.tick);
+
+// Meter moves from releases landing this tick
+export const releaseMeters = (calendar: MacroReleaseDefinition[], released: MacroRelease[]) =>
+  released.reduce((sum, release) => {
+    const def = definitionFor(calendar, release.kind);
+    if (!def) return sum;
+    return {
+      trend: sum.trend + def.trendImpact * release.surprise,
+      volatility: sum.volatility + def.volatilityImpact * Math.abs(release.surprise)
+    };
+  }, { trend: 0, volatility: 0 });
+
+export const releaseShocks = (calendar: MacroReleaseDefinition[], releases: MacroRelease[], tick: number, days = 1): MacroShocks => {
+  const assets = assetRecord(() => 0);
+  let rate = 0;
+  for (const release of releases) {
+    const def = definitionFor(calendar, release.kind);
+    if (!def) continue;
+    const weight = decayWeight(def.decay, Math.max(1, ticksIn(def.duration, days)), tick - release.tick) * release.surprise;
+    if (weight === 0) continue;
+    for (const assetClass of ASSET_CLASSES) {
+      assets[assetClass] += (def.impact[assetClass] ?? 0) * weight;
+    }
+    rate += def.rateImpact * weight;
+  }
+  return { assets, rate };
+};
+
+export const releaseLabel = (calendar: MacroReleaseDefinition[], kind: MacroReleaseKind) => definitionFor(calendar, kind)?.label ?? kind;
+
+export const releaseUnit = (calendar: MacroReleaseDefinition[], kind: MacroReleaseKind) => definitionFor(calendar, kind)?.unit ?? "";
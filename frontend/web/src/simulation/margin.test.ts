@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { assetRecord } from "./assets";
+import { checkMargin, DEFAULT_MARGIN, EMPTY_MARGIN_ACCOUNT, marginStatus, targetLeverage } from "./margin";
+import { Holdings } from "./portfolio";
+
+const prices = (equities: number) => assetRecord(c => c === "equities" ? equities : 100);
+
+// 200 shares bought at 1000 with half the money borrowed
+const levered: Holdings = { cash: -1e5, positions: assetRecord(c => c === "equities" ? 200 : 0) };
+
+describe("margin", () => {
+  it("measures equity, exposure and headroom", () => {
+    expect(marginStatus(levered, prices(1000))).toEqual({
+      equity: 1e5, grossExposure: 2e5, leverage: 2, borrowed: 1e5, initialMargin: 1e5, maintenanceMargin: 5e4, headroom: 5e4
+    });
+  });
+
+  it("levers the risk factor up to what initial margin allows", () => {
+    const equities = assetRecord(c => c === "equities" ? 1 : 0);
+    const bonds = assetRecord(c => c === "govBonds" ? 1 : 0);
+    expect(targetLeverage(0, equities)).toBe(1);
+    expect(targetLeverage(1, equities)).toBe(2);
+    expect(targetLeverage(1, bonds)).toBe(3.5);
+    expect(targetLeverage(1, assetRecord(() => 0))).toBe(1);
+  });
+
+  it("calls a fund under maintenance and clears the call once it recovers", () => {
+    const called = checkMargin(levered, EMPTY_MARGIN_ACCOUNT, prices(600), 10);
+    expect(called.account.call).toEqual({ issuedTick: 10, dueTick: 13, deficit: 1e4 });
+    expect(called.holdings).toBe(levered);
+
+    const recovered = checkMargin(levered, called.account, prices(900), 11);
+    expect(recovered.account.call).toBeUndefined();
+    expect(recovered.liquidations).toEqual([]);
+  });
+
+  it("gives the grace period in trading days, whatever the tick length", () => {
+    expect(checkMargin(levered, EMPTY_MARGIN_ACCOUNT, prices(600), 10, { ...DEFAULT_MARGIN, callGraceDays: 10 }, 5).account.call?.dueTick).toBe(12);
+  });
+
+  it("liquidates an overdue call at a penalty until the fund is back at initial margin", () => {
+    const called = checkMargin(levered, EMPTY_MARGIN_ACCOUNT, prices(600), 10);
+    expect(checkMargin(levered, called.account, prices(600), 12).liquidations).toEqual([]);
+
+    const enforced = checkMargin(levered, called.account, prices(600), 13);
+    const [sale] = enforced.liquidations;
+    expect(sale).toMatchObject({ tick: 13, asset: "equities", price: 600 * (1 - DEFAULT_MARGIN.liquidationPenalty) });
+    expect(sale.quantity).toBeLessThan(0);
+    expect(sale.penalty).toBeCloseTo(-sale.quantity * 600 * DEFAULT_MARGIN.liquidationPenalty);
+    expect(enforced.holdings.positions.equities).toBeCloseTo(200 + sale.quantity);
+    expect(enforced.status.equity).toBeCloseTo(enforced.status.initialMargin);
+    expect(enforced.account).toEqual({ call: undefined, liquidations: enforced.liquidations });
+  });
+
+  it("buys shorts back above the mark", () => {
+    const short: Holdings = { cash: 3e5, positions: assetRecord(c => c === "equities" ? -200 : 0) };
+    const called = checkMargin(short, EMPTY_MARGIN_ACCOUNT, prices(1400), 0);
+    const [cover] = checkMargin(short, called.account, prices(1400), called.account.call!.dueTick).liquidations;
+    expect(cover.quantity).toBeGreaterThan(0);
+    expect(cover.price).toBeCloseTo(1400 * (1 + DEFAULT_MARGIN.liquidationPenalty));
+  });
+});
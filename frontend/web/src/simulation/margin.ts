@@ -0,0 +1,185 @@
+// margin.ts
+// Borrowing against fund assets. Each asset class carries an initial margin,
+// which caps how much a fund may put on, and a lower maintenance margin. A fund
+// whose equity falls below maintenance gets a margin call; if the call is still
+// open when it falls due, positions are sold at a penalty to the mark until the
+// fund is back at initial margin.
+import { Allocation, ASSET_CLASSES, AssetClass } from "./assets";
+import { ticksIn } from "./clock";
+import { futuresExposure } from "./futures";
+import { Holdings, markToMarket } from "./portfolio";
+
+export interface MarginRequirement {
+  initial: number; // fraction of position value that must be posted to open
+  maintenance: number; // fraction below which a call is issued
+}
+
+export interface MarginParams {
+  requirements: Record<AssetClass, MarginRequirement>;
+  callGraceDays: number; // trading days a fund has to meet a call
+  liquidationPenalty: number; // fraction of the mark lost on forced sales
+  leveragePerRisk: number; // extra gross leverage per unit of risk factor
+}
+
+export interface MarginStatus {
+  equity: number;
+  grossExposure: number;
+  leverage: number; // gross exposure over equity
+  borrowed: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  headroom: number; // equity above maintenance; negative means a call
+}
+
+export interface MarginCall {
+  issuedTick: number;
+  dueTick: number;
+  deficit: number; // equity short of maintenance when the call was issued
+}
+
+export interface Liquidation {
+  tick: number;
+  asset: AssetClass;
+  quantity: number; // signed: negative for a forced sale
+  price: number;
+  penalty: number; // currency lost to the penalty price
+  futures?: boolean; // a futures position rather than the asset itself
+}
+
+export interface MarginAccount {
+  call?: MarginCall;
+  liquidations: Liquidation[];
+}
+
+export interface MarginCheck {
+  holdings: Holdings;
+  account: MarginAccount;
+  status: MarginStatus;
+  liquidations: Liquidation[]; // from this check only
+}
+
+export const DEFAULT_MARGIN: MarginParams = {
+  requirements: {
+    equities: { initial: 0.5, maintenance: 0.25 },
+    govBonds: { initial: 0.1, maintenance: 0.05 },
+    credit: { initial: 0.2, maintenance: 0.1 },
+    commodities: { initial: 0.25, maintenance: 0.15 },
+    fx: { initial: 0.05, maintenance: 0.03 },
+    crypto: { initial: 0.75, maintenance: 0.5 }
+  },
+  callGraceDays: 3,
+  liquidationPenalty: 0.03,
+  leveragePerRisk: 2.5
+};
+
+export const EMPTY_MARGIN_ACCOUNT: MarginAccount = { liquidations: [] };
+
+const LIQUIDATION_HISTORY = 100;
+
+export const validateMarginParams = (params: MarginParams) => {
+  for (const c of ASSET_CLASSES) {
+    const { initial, maintenance } = params.requirements[c];
+    if (!(maintenance > 0 && maintenance <= initial && initial <= 1)) {
+      throw new Error(`Margin for ${c} needs 0 < maintenance <= initial <= 1`);
+    }
+  }
+  if (!(params.liquidationPenalty >= 0 && params.liquidationPenalty < 1)) throw new Error("Liquidation penalty must be in [0, 1)");
+};
+
+export const marginStatus = (holdings: Holdings, prices: Record<AssetClass, number>, params: MarginParams = DEFAULT_MARGIN): MarginStatus => {
+  const equity = markToMarket(holdings, prices);
+  const futures = futuresExposure(holdings);
+  let grossExposure = 0;
+  let initialMargin = 0;
+  let maintenanceMargin = 0;
+  for (const c of ASSET_CLASSES) {
+    const exposure = (Math.abs(holdings.positions[c]) + Math.abs(futures[c])) * prices[c];
+    grossExposure += exposure;
+    initialMargin += exposure * params.requirements[c].initial;
+    maintenanceMargin += exposure * params.requirements[c].maintenance;
+  }
+  return {
+    equity,
+    grossExposure,
+    leverage: equity > 0 ? grossExposure / equity : Infinity,
+    borrowed: Math.max(0, -holdings.cash),
+    initialMargin,
+    maintenanceMargin,
+    headroom: equity - maintenanceMargin
+  };
+};
+
+// Gross leverage a fund asks for through its risk factor, capped at what initial
+// margin allows for its mix. Shorts count at their absolute weight. A risk
+// factor of zero means no borrowing.
+export const targetLeverage = (riskFactor: number, allocation: Allocation, params: MarginParams = DEFAULT_MARGIN): number => {
+  const invested = ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(allocation[c]), 0);
+  const posted = ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(allocation[c]) * params.requirements[c].initial, 0);
+  const requested = 1 + Math.max(0, riskFactor) * params.leveragePerRisk;
+  return posted > 0 && invested > 0 ? Math.min(requested, invested / posted) : 1;
+};
+
+export const leveragedAllocation = (allocation: Allocation, leverage: number): Allocation =>
+  Object.fromEntries(ASSET_CLASSES.map(c => [c, allocation[c] * leverage])) as Allocation;
+
+// Sells the same share of every position, the smallest that puts equity back at
+// initial margin after the penalty; everything goes if no share is enough
+const liquidate = (holdings: Holdings, prices: Record<AssetClass, number>, status: MarginStatus, tick: number, params: MarginParams) => {
+  const penaltyCost = status.grossExposure * params.liquidationPenalty;
+  const share = status.initialMargin - penaltyCost > 0
+    ? Math.min(1, Math.max(0, (status.initialMargin - status.equity) / (status.initialMargin - penaltyCost)))
+    : 1;
+
+  const liquidations: Liquidation[] = [];
+  let cash = holdings.cash;
+  const positions = { ...holdings.positions };
+  for (const c of ASSET_CLASSES) {
+    const quantity = -holdings.positions[c] * share;
+    if (quantity === 0) continue;
+    // Longs are sold below the mark and shorts bought back above it
+    const price = prices[c] * (1 + Math.sign(quantity) * params.liquidationPenalty);
+    cash -= quantity * price;
+    positions[c] += quantity;
+    liquidations.push({ tick, asset: c, quantity, price, penalty: Math.abs(quantity) * prices[c] * params.liquidationPenalty });
+  }
+
+  // Futures carry no value of their own once settled; closing them only costs the penalty
+  const futures = (holdings.futures ?? []).map(position => {
+    const quantity = -position.quantity * share;
+    const penalty = Math.abs(quantity) * prices[position.underlying] * params.liquidationPenalty;
+    cash -= penalty;
+    const price = prices[position.underlying] * (1 + Math.sign(quantity) * params.liquidationPenalty);
+    liquidations.push({ tick, asset: position.underlying, quantity, price, penalty, futures: true });
+    return { ...position, quantity: position.quantity + quantity };
+  }).filter(position => position.quantity !== 0);
+  return { holdings: { ...holdings, cash, positions, futures }, liquidations };
+};
+
+// Runs once per fund per tick before it trades. Calls are issued when equity is
+// under maintenance, cleared once it is back above, and enforced when overdue.
+// Ticks are `days` trading days long.
+export const checkMargin = (
+  holdings: Holdings,
+  account: MarginAccount,
+  prices: Record<AssetClass, number>,
+  tick: number,
+  params: MarginParams = DEFAULT_MARGIN,
+  days = 1
+): MarginCheck => {
+  const status = marginStatus(holdings, prices, params);
+  if (status.headroom >= 0) return { holdings, account: { ...account, call: undefined }, status, liquidations: [] };
+
+  if (!account.call) {
+    const call = { issuedTick: tick, dueTick: tick + ticksIn(params.callGraceDays, days), deficit: -status.headroom };
+    return { holdings, account: { ...account, call }, status, liquidations: [] };
+  }
+  if (tick < account.call.dueTick) return { holdings, account, status, liquidations: [] };
+
+  const liquidated = liquidate(holdings, prices, status, tick, params);
+  return {
+    holdings: liquidated.holdings,
+    account: { call: undefined, liquidations: [...account.liquidations, ...liquidated.liquidations].slice(-LIQUIDATION_HISTORY) },
+    status: marginStatus(liquidated.holdings, prices, params),
+    liquidations: liquidated.liquidations
+  };
+};
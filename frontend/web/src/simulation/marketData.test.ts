@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { buildReplayFeed, defaultSymbolMapping, parseOhlcvCsv, parseOhlcvFile, parseOhlcvJson } from "./marketData";
+
+const CSV = [
+  "Symbol,Date,Open,High,Low,Close,Volume",
+  "# comment lines and blank lines are skipped",
+  "SPY,2024-01-03,101,103,100,102,2000",
+  "",
+  "SPY,20240102,100,102,99,101,1000",
+  "\"GLD\",2024-01-02T00:00:00Z,50,51,49,50.5,",
+  "SPY,2024-01-03,101,104,100,103,3000"
+].join("\n");
+
+describe("OHLCV files", () => {
+  it("parse CSV with any column order, several symbols, sorted and deduplicated by date", () => {
+    const series = parseOhlcvCsv(CSV, "default");
+    expect(Object.keys(series)).toEqual(["SPY", "GLD"]);
+    expect(series.SPY.map(({ date, close, volume }) => [date, close, volume])).toEqual([["2024-01-02", 101, 1000], ["2024-01-03", 103, 3000]]);
+    expect(series.GLD).toEqual([{ date: "2024-01-02", open: 50, high: 51, low: 49, close: 50.5, volume: 0 }]);
+  });
+
+  it("parse JSON as an array of bars or an object keyed by symbol", () => {
+    const bar = { date: "2024-01-02", open: 1, high: 2, low: 1, close: 2, volume: 5 };
+    expect(parseOhlcvJson(JSON.stringify([bar]), "BTC")).toEqual({ BTC: [bar] });
+    expect(parseOhlcvJson(JSON.stringify({ ETH: [bar] }), "BTC")).toEqual({ ETH: [bar] });
+    expect(parseOhlcvFile("crypto.json", JSON.stringify([bar]))).toEqual({ crypto: [bar] });
+    expect(parseOhlcvFile("equities.csv", "date,open,high,low,close\n2024-01-02,1,2,1,2")).toEqual({ equities: [{ ...bar, volume: 0 }] });
+  });
+
+  it.each([
+    ["missing columns", () => parseOhlcvCsv("date,open,close\n2024-01-02,1,1", "SPY"), "CSV for SPY is missing columns: high, low"],
+    ["ambiguous dates", () => parseOhlcvCsv("date,open,high,low,close\n01/02/2024,1,2,1,2", "SPY"), "Invalid date \"01/02/2024\" on line 2 of SPY, expected YYYY-MM-DD"],
+    ["prices that are not numbers", () => parseOhlcvCsv("date,open,high,low,close\n2024-01-02,x,2,1,2", "SPY"), "Invalid open \"x\" on line 2 of SPY"],
+    ["a high below the close", () => parseOhlcvJson('[{"date":"2024-01-02","open":1,"high":1.5,"low":1,"close":2}]', "SPY"), "Inconsistent OHLC values at index 0 of SPY"],
+    ["unterminated quotes", () => parseOhlcvCsv("date,open,high,low,close\n\"2024-01-02,1,2,1,2", "SPY"), "Unterminated quoted field starting on line 2"]
+  ])("reject %s", (_, parse, message) => {
+    expect(parse).toThrow(message);
+  });
+});
+
+describe("replay feeds", () => {
+  const bar = (date: string, close: number) => ({ date, open: close, high: close, low: close, close, volume: 1 });
+  const series = {
+    equities: [bar("2024-01-02", 10), bar("2024-01-03", 11), bar("2024-01-05", 12)],
+    GLD: [bar("2024-01-03", 50), bar("2024-01-04", 51), bar("2024-01-05", 52)]
+  };
+
+  it("map symbols named after asset classes", () => {
+    expect(defaultSymbolMapping(series)).toEqual({ equities: "equities" });
+  });
+
+  it("trade every date on a union calendar, filling gaps flat at the last close", () => {
+    const feed = buildReplayFeed(series, { equities: "equities", commodities: "GLD" });
+    expect(feed.calendar).toEqual(["2024-01-02", "2024-01-03", "2024-01-04", "2024-01-05"]);
+    expect(feed.bars.equities!.map(({ close, volume }) => [close, volume])).toEqual([[10, 1], [11, 1], [11, 0], [12, 1]]);
+    expect(feed.bars.commodities![0]).toEqual({ date: "2024-01-02", open: 50, high: 50, low: 50, close: 50, volume: 0 });
+  });
+
+  it("keep only shared dates on an intersection calendar, within the date range", () => {
+    const symbols = { equities: "equities", commodities: "GLD" };
+    expect(buildReplayFeed(series, symbols, { alignment: "intersection" }).calendar).toEqual(["2024-01-03", "2024-01-05"]);
+    const late = buildReplayFeed(series, symbols, { from: "2024-01-04" });
+    expect(late.calendar).toEqual(["2024-01-04", "2024-01-05"]);
+    expect(late.bars.equities![0].close).toBe(11);
+    expect(() => buildReplayFeed(series, symbols, { alignment: "intersection", to: "2024-01-04" })).toThrow("Replay feed needs at least two aligned dates");
+    expect(() => buildReplayFeed(series, { fx: "EURUSD" })).toThrow("No bars for symbol EURUSD");
+  });
+});
@@ -0,0 +1,204 @@
+// marketData.ts
+// Historical OHLCV data for backtesting. Files are parsed into per-symbol bars,
+// aligned on a shared calendar and replayed by the engine one bar per tick.
+import { AssetClass, ASSET_CLASSES } from "./assets";
+
+export interface OhlcvBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type OhlcvSeries = Record<string, OhlcvBar[]>;
+
+// "union" trades every date any symbol traded and fills the gaps; "intersection"
+// keeps only the dates on which all mapped symbols traded
+export type CalendarAlignment = "union" | "intersection";
+
+export interface ReplayFeed {
+  calendar: string[];
+  symbols: Partial<Record<AssetClass, string>>;
+  bars: Partial<Record<AssetClass, OhlcvBar[]>>; // aligned with calendar
+}
+
+export interface ReplayFeedOptions {
+  alignment?: CalendarAlignment;
+  from?: string;
+  to?: string;
+}
+
+const COLUMNS = ["date", "open", "high", "low", "close", "volume"] as const;
+
+// Only ISO dates are accepted, read as UTC calendar days: other formats are
+// ambiguous (01/02/2024) or parsed in local time, which would shift bars
+// between clients in different time zones
+const normalizeDate = (raw: string, where: string): string => {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})(?:$|[T ])/.exec(raw.trim());
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (!match || parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    throw new Error(`Invalid date "${raw}" ${where}, expected YYYY-MM-DD`);
+  }
+  return parsed.toISOString().substring(0, 10);
+};
+
+const toBar = (row: Record<string, unknown>, where: string): OhlcvBar => {
+  const number = (key: string) => {
+    // Quoted CSV fields may carry thousands separators, as in "1,050.25"
+    const value = typeof row[key] === "number" ? row[key] as number : Number(String(row[key] ?? "").replace(/,/g, "") || NaN);
+    if (!isFinite(value)) throw new Error(`Invalid ${key} "${row[key]}" ${where}`);
+    return value;
+  };
+  const bar = {
+    date: normalizeDate(String(row.date ?? ""), where),
+    open: number("open"),
+    high: number("high"),
+    low: number("low"),
+    close: number("close"),
+    volume: row.volume === undefined || row.volume === "" ? 0 : number("volume")
+  };
+  if (bar.low > Math.min(bar.open, bar.close) || bar.high < Math.max(bar.open, bar.close) || bar.low <= 0) {
+    throw new Error(`Inconsistent OHLC values ${where}`);
+  }
+  return bar;
+};
+
+const sortAndDedupe = (bars: OhlcvBar[]): OhlcvBar[] => {
+  const byDate = new Map<string, OhlcvBar>();
+  for (const bar of bars) byDate.set(bar.date, bar);
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+interface CsvRow {
+  line: number; // where the row starts, counting from 1
+  cells: string[];
+}
+
+// RFC 4180 rows: quoted fields may hold commas, line breaks and doubled quotes
+const csvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRow = () => {
+    cells.push(cell);
+    rows.push({ line: start, cells });
+    cells = [];
+    cell = "";
+    start = line;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line++;
+    if (quoted) {
+      if (char !== "\"") cell += char;
+      else if (text[i + 1] === "\"") cell += text[++i];
+      else quoted = false;
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error(`Unterminated quoted field starting on line ${start}`);
+  if (cell !== "" || cells.length > 0) endRow();
+  return rows;
+};
+
+// Header row required; columns may come in any order. A "symbol" column allows
+// several symbols in one file, otherwise every row belongs to `defaultSymbol`.
+export const parseOhlcvCsv = (text: string, defaultSymbol: string): OhlcvSeries => {
+  const rows = csvRows(text)
+    .map(row => ({ ...row, cells: row.cells.map(cell => cell.trim()) }))
+    .filter(row => row.cells.some(cell => cell !== "") && !row.cells[0].startsWith("#"));
+  if (rows.length === 0) return {};
+
+  const header = rows[0].cells.map(cell => cell.toLowerCase());
+  const missing = COLUMNS.filter(column => column !== "volume" && !header.includes(column));
+  if (missing.length > 0) throw new Error(`CSV for ${defaultSymbol} is missing columns: ${missing.join(", ")}`);
+
+  const series: OhlcvSeries = {};
+  for (const { line, cells } of rows.slice(1)) {
+    const row = Object.fromEntries(header.map((column, i) => [column, cells[i]]));
+    const symbol = row.symbol || defaultSymbol;
+    (series[symbol] ||= []).push(toBar(row, `on line ${line} of ${defaultSymbol}`));
+  }
+
+  return Object.fromEntries(Object.entries(series).map(([symbol, bars]) => [symbol, sortAndDedupe(bars)]));
+};
+
+// Accepts either an array of bars for `defaultSymbol` or an object keyed by symbol
+export const parseOhlcvJson = (text: string, defaultSymbol: string): OhlcvSeries => {
+  const data: unknown = JSON.parse(text);
+  const entries: [string, unknown][] = Array.isArray(data) ? [[defaultSymbol, data]] : Object.entries(data as Record<string, unknown>);
+
+  const series: OhlcvSeries = {};
+  for (const [symbol, rows] of entries) {
+    if (!Array.isArray(rows)) throw new Error(`Expected an array of bars for ${symbol}`);
+    series[symbol] = sortAndDedupe(rows.map((row, index) => toBar(row as Record<string, unknown>, `at index ${index} of ${symbol}`)));
+  }
+  return series;
+};
+
+// Picks the parser from the file extension; the file name (sans extension) is the default symbol
+export const parseOhlcvFile = (fileName: string, text: string): OhlcvSeries => {
+  const symbol = fileName.replace(/\.[^.]+$/, "");
+  return /\.json$/i.test(fileName) ? parseOhlcvJson(text, symbol) : parseOhlcvCsv(text, symbol);
+};
+
+// Symbols named after an asset class ("equities", "crypto", ...) map to it
+// directly; anything else, such as SPY, is mapped by the player
+export const defaultSymbolMapping = (series: OhlcvSeries): Partial<Record<AssetClass, string>> =>
+  Object.fromEntries(ASSET_CLASSES.flatMap(c => {
+    const symbol = Object.keys(series).find(name => name.toLowerCase() === c.toLowerCase());
+    return symbol ? [[c, symbol]] : [];
+  }));
+
+export const buildReplayFeed = (
+  series: OhlcvSeries,
+  symbols: Partial<Record<AssetClass, string>>,
+  options: ReplayFeedOptions = {}
+): ReplayFeed => {
+  const mapped = ASSET_CLASSES.filter(c => symbols[c] !== undefined);
+  if (mapped.length === 0) throw new Error("Replay feed needs at least one mapped symbol");
+  for (const c of mapped) {
+    if (!series[symbols[c]!]?.length) throw new Error(`No bars for symbol ${symbols[c]}`);
+  }
+
+  const dateSets = mapped.map(c => new Set(series[symbols[c]!].map(bar => bar.date)));
+  const allDates = [...new Set(dateSets.flatMap(dates => [...dates]))].sort();
+  const calendar = allDates
+    .filter(date => options.alignment !== "intersection" || dateSets.every(dates => dates.has(date)))
+    .filter(date => (!options.from || date >= options.from) && (!options.to || date <= options.to));
+  if (calendar.length < 2) throw new Error("Replay feed needs at least two aligned dates");
+
+  const bars: Partial<Record<AssetClass, OhlcvBar[]>> = {};
+  for (const c of mapped) {
+    const source = series[symbols[c]!];
+    const byDate = new Map(source.map(bar => [bar.date, bar]));
+    let last: OhlcvBar | undefined = source.filter(bar => bar.date < calendar[0]).pop();
+    // Missing bars become flat, zero-volume bars at the last close; dates before a
+    // symbol's first bar borrow that first bar's open
+    bars[c] = calendar.map(date => {
+      const bar = byDate.get(date);
+      if (bar) {
+        last = bar;
+        return bar;
+      }
+      const price = last ? last.close : source[0].open;
+      return { date, open: price, high: price, low: price, close: price, volume: 0 };
+    });
+  }
+
+  return { calendar, symbols: { ...symbols }, bars };
+};
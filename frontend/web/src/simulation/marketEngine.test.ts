@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CLOCK } from "./clock";
+import { createMarketEngine, MarketEngineConfig, MarketState, stepMarket } from "./marketEngine";
+
+const run = (config: MarketEngineConfig, ticks: number) => {
+  const states: MarketState[] = [createMarketEngine(config).initialState()];
+  for (let i = 1; i < ticks; i++) states.push(stepMarket(config, states[i - 1]));
+  return JSON.stringify(states);
+};
+
+describe("market steps", () => {
+  it("repeat exactly for the same seed", () => {
+    expect(run({ seed: 9 }, 120)).toBe(run({ seed: 9 }, 120));
+    const intraday = { seed: 9, clock: { ...DEFAULT_CLOCK, granularity: "intraday" as const } };
+    expect(run(intraday, 120)).toBe(run(intraday, 120));
+  });
+
+  it("differ between seeds", () => {
+    expect(run({ seed: 9 }, 20)).not.toBe(run({ seed: 10 }, 20));
+  });
+});
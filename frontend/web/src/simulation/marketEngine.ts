@@ -0,0 +1,597 @@
+// marketEngine.ts
+// UI-free market simulation. Everything random is drawn from a seeded stream,
+// so the same seed, tick and fund inputs give the same results everywhere.
+import { createRng, hashSeed } from "./rng";
+import { Allocation, ASSET_CLASSES, AssetClass, AssetParams, DEFAULT_ASSETS, DEFAULT_CORRELATION, REFERENCE_VOLATILITY, assetRecord, regimeCorrelation } from "./assets";
+import { BlackSwanDefinition, BlackSwanKind, DEFAULT_EVENT_CATALOG, MarketEvent, eventLabel, eventRateShock, eventShocks, eventVolatility, isActive, triggerEvents } from "./events";
+import { DEFAULT_PRICE_MODEL, PriceModelParams, drawJumps, jumpDiffusionReturn } from "./priceModel";
+import { ClockParams, DEFAULT_CLOCK, TRADING_DAYS_PER_YEAR, chanceIn, dateTime, initialTime, nextTime, tickDays, tickYears, ticksIn, validateClock } from "./clock";
+import { CircuitBreakerParams, DEFAULT_CIRCUIT_BREAKERS, Halt, haltedAssets, limitMoves, tripBreakers, validateCircuitBreakers } from "./circuitBreakers";
+import { CrowdingParams, DEFAULT_CROWDING, FlowBook, PositionBook, Unwind, crowdingLevels, drawUnwinds, fundPositioning, isUnwinding, marketImpact, recordFlows, unwindShocks } from "./crowding";
+import { CommissionParams, DEFAULT_COMMISSION, TradingCosts, fillCosts } from "./costs";
+import { DEFAULT_LIQUIDITY, ExchangeState, MARKET_MAKER, LiquidityParams, Quote, Rejection, createExchange, placeOrders, refreshLiquidity, takeFills } from "./exchange";
+import { DEFAULT_MARGIN, MarginAccount, MarginCheck, MarginParams, MarginStatus, checkMargin, marginStatus, validateMarginParams } from "./margin";
+import { CurvePoint, DEFAULT_FUTURES, FuturesActivity, FuturesMarket, FuturesParams, RollMode, futuresCurve, initialBasis, rebalanceFutures, rollFutures, settleFutures, stepBasis, unsettledFutures } from "./futures";
+import { DEFAULT_MACRO_CALENDAR, MacroRelease, MacroReleaseDefinition, MacroReleaseKind, RELEASE_HISTORY, ScheduledRelease, drawReleases, releaseLabel, releaseMeters, releaseShocks, releaseUnit, upcomingReleases, validateMacroCalendar } from "./macroCalendar";
+import { ReplayFeed } from "./marketData";
+import { Greeks } from "./optionPricing";
+import { DEFAULT_OPTION_PARAMS, OptionActivity, OptionContract, OptionOverlay, OptionParams, OptionQuote, VolatilityInputs, applyOverlay, optionsValue, portfolioGreeks, quoteOption, settleOptions } from "./options";
+import { BorrowParams, BorrowState, DEFAULT_BORROW, ShortBook, borrowFee, borrowStates, drawRecalls, fundShorts, squeezeReturn } from "./shorting";
+import { cholesky, multiplyVector, validateCorrelation } from "./matrix";
+import { OrderRequest, Trade } from "./orderBook";
+import { Holdings, applyFills, markToMarket, portfolioReturn } from "./portfolio";
+import { defaultAllocation } from "./strategies";
+import { DEFAULT_RATES, InterestAccrual, RateParams, YieldPoint, accrueInterest, bondReturn, shockRate, stepShortRate, validateRateParams, yieldCurve } from "./rates";
+import { DEFAULT_REGIME_MODEL, RegimeModel, RegimeName, RegimeView, nextRegime, regimeView, validateRegimeModel } from "./regimes";
+
+export interface MarketConditions {
+  volatility: number;
+  trend: number;
+  blackSwan: boolean;
+}
+
+export interface MarketState {
+  seed: number;
+  tick: number;
+  time: number; // simulated Unix seconds at the close of the current bar
+  rngState: number;
+  conditions: MarketConditions;
+  regime: RegimeName;
+  regimeAge: number;
+  events: MarketEvent[]; // every event so far, including the ones still running
+  releases: MacroRelease[]; // most recent macro releases, oldest first
+  prices: Record<AssetClass, number>;
+  returns: Record<AssetClass, number>; // log returns of the last tick
+  halts: Halt[]; // every halt so far, including the ones still running
+  fairPrices: Partial<Record<AssetClass, number>>; // model prices of halted assets; they reopen here
+  priceHistory: Record<AssetClass, number[]>;
+  timeHistory: number[]; // bar times, aligned with the price history
+  volumes: Record<AssetClass, number>; // notional traded over the last tick
+  shorts: ShortBook;
+  borrow: Record<AssetClass, BorrowState>;
+  recalls: AssetClass[]; // borrows lenders called back this tick
+  positioning: PositionBook;
+  flows: FlowBook; // fund trading since the last step
+  unwinds: Unwind[]; // every crowded unwind so far, including the ones still running
+  futuresBasis: Partial<Record<AssetClass, number>>; // annualised; positive is contango
+  shortRate: number; // annualised, continuously compounded
+  date?: string; // calendar date of the current bar when replaying history
+  exchange: ExchangeState;
+}
+
+// Where asset prices come from. Replayed assets follow their historical closes;
+// asset classes the feed does not map keep the generated model.
+export type PriceSource =
+  | { kind: "generated" }
+  | { kind: "replay"; feed: ReplayFeed };
+
+export interface MarketEngineConfig {
+  seed: number;
+  clock?: ClockParams;
+  initialConditions?: Partial<MarketConditions>;
+  priceModel?: Partial<PriceModelParams>;
+  regimeModel?: RegimeModel;
+  initialRegime?: RegimeName;
+  eventCatalog?: BlackSwanDefinition[];
+  macroCalendar?: MacroReleaseDefinition[];
+  assets?: Record<AssetClass, AssetParams>;
+  correlation?: number[][]; // rows and columns follow ASSET_CLASSES
+  priceSource?: PriceSource;
+  liquidity?: LiquidityParams;
+  circuitBreakers?: CircuitBreakerParams;
+  commission?: CommissionParams;
+  margin?: MarginParams;
+  borrow?: BorrowParams;
+  crowding?: CrowdingParams;
+  options?: OptionParams;
+  futures?: FuturesParams;
+  rates?: RateParams;
+  initialRate?: number; // defaults to the initial regime's mean rate
+  initialPrice?: number;
+  idiosyncraticVolatility?: number;
+  historyLength?: number;
+}
+
+export interface FundInput {
+  id: string;
+  strategy: string;
+  performance: number;
+  risk: number;
+  assets: number;
+  allocation?: Allocation; // defaults to the strategy's starting mix
+  holdings?: Holdings; // when present, NAV is marked from actual positions
+}
+
+export interface FundResult {
+  performanceChange: number;
+  performance: number;
+  assets: number;
+  events: BlackSwanKind[];
+}
+
+export interface OrderResult {
+  state: MarketState;
+  trades: Trade[];
+  rejections: Rejection[];
+}
+
+export interface Settlement {
+  state: MarketState;
+  holdings: Holdings; // after commission, which comes out of cash
+  fills: Trade[];
+  costs: TradingCosts;
+}
+
+export interface BorrowCharge {
+  holdings: Holdings;
+  fee: number;
+}
+
+export interface FuturesTrades {
+  holdings: Holdings;
+  costs: TradingCosts;
+}
+
+export interface MarketEngine {
+  config: MarketEngineConfig;
+  initialState: () => MarketState;
+  step: (state: MarketState) => MarketState;
+  evaluateFund: (state: MarketState, fund: FundInput) => FundResult;
+  regime: (state: MarketState) => RegimeView;
+  activeEvents: (state: MarketState) => MarketEvent[];
+  eventLabel: (kind: BlackSwanKind) => string;
+  upcomingReleases: (state: MarketState, horizon?: number) => ScheduledRelease[];
+  releases: (state: MarketState, kind?: MacroReleaseKind) => MacroRelease[];
+  releaseLabel: (kind: MacroReleaseKind) => string;
+  releaseUnit: (kind: MacroReleaseKind) => string;
+  replayComplete: (state: MarketState) => boolean;
+  haltedAssets: (state: MarketState) => AssetClass[];
+  submitOrders: (state: MarketState, orders: OrderRequest[]) => OrderResult;
+  settleFund: (state: MarketState, fundId: string, holdings: Holdings) => Settlement;
+  marginStatus: (state: MarketState, holdings: Holdings) => MarginStatus;
+  checkMargin: (state: MarketState, holdings: Holdings, account: MarginAccount) => MarginCheck;
+  chargeBorrow: (state: MarketState, holdings: Holdings) => BorrowCharge;
+  recordShorts: (state: MarketState, fundId: string, holdings: Holdings) => MarketState;
+  recordPositioning: (state: MarketState, fundId: string, holdings: Holdings) => MarketState;
+  crowding: (state: MarketState) => Record<AssetClass, number>;
+  activeUnwinds: (state: MarketState) => Unwind[];
+  marketImpact: (state: MarketState, fundId: string) => number;
+  quoteOption: (state: MarketState, contract: OptionContract) => OptionQuote;
+  settleOptions: (state: MarketState, holdings: Holdings) => OptionActivity;
+  applyOverlay: (state: MarketState, holdings: Holdings, overlay: OptionOverlay) => OptionActivity;
+  fundGreeks: (state: MarketState, holdings: Holdings) => Greeks;
+  futuresCurve: (state: MarketState, underlying: AssetClass) => CurvePoint[];
+  settleFutures: (state: MarketState, holdings: Holdings, roll: RollMode) => FuturesActivity;
+  rollFutures: (state: MarketState, holdings: Holdings) => FuturesTrades;
+  rebalanceFutures: (state: MarketState, holdings: Holdings, targets: Partial<Record<AssetClass, number>>, nav: number) => FuturesTrades;
+  yieldCurve: (state: MarketState) => YieldPoint[];
+  accrueInterest: (state: MarketState, holdings: Holdings) => InterestAccrual;
+}
+
+const DEFAULT_CONDITIONS: MarketConditions = { volatility: 0.5, trend: 0.2, blackSwan: false };
+const DEFAULT_HISTORY_LENGTH = 250;
+const DEFAULT_IDIOSYNCRATIC_VOLATILITY = 0.1;
+// A full meter reads as this much annual drift / volatility
+const MAX_DRIFT = 0.5;
+const MAX_VOLATILITY = 0.8;
+// Share of the gap to the regime's target the meters close each trading day
+const REGIME_REVERSION = 0.05;
+// How far ahead the calendar is shown by default, in trading days
+const RELEASE_HORIZON = 21;
+// Log-scale noise on generated volume
+const VOLUME_NOISE = 0.3;
+// The short rate moves against this asset's diffusion shock, so bonds keep
+// their correlation with everything else
+const RATE_DRIVER: AssetClass = "govBonds";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clockParams = (config: MarketEngineConfig): ClockParams => config.clock ?? DEFAULT_CLOCK;
+
+// A tick lasts one bar of the clock unless the price model says otherwise
+export const priceModelParams = (config: MarketEngineConfig): PriceModelParams =>
+  ({ ...DEFAULT_PRICE_MODEL, dt: tickYears(clockParams(config)), ...config.priceModel });
+
+// Trading days in one tick; durations and daily chances in the config are
+// restated per tick with it
+const tickLength = (config: MarketEngineConfig) => tickDays(priceModelParams(config).dt);
+
+const regimeModel = (config: MarketEngineConfig): RegimeModel => config.regimeModel ?? DEFAULT_REGIME_MODEL;
+
+const eventCatalog = (config: MarketEngineConfig): BlackSwanDefinition[] => config.eventCatalog ?? DEFAULT_EVENT_CATALOG;
+
+export const macroCalendar = (config: MarketEngineConfig): MacroReleaseDefinition[] => config.macroCalendar ?? DEFAULT_MACRO_CALENDAR;
+
+const assetParams = (config: MarketEngineConfig): Record<AssetClass, AssetParams> => config.assets ?? DEFAULT_ASSETS;
+
+const liquidityParams = (config: MarketEngineConfig): LiquidityParams => config.liquidity ?? DEFAULT_LIQUIDITY;
+
+const circuitBreakers = (config: MarketEngineConfig): CircuitBreakerParams => config.circuitBreakers ?? DEFAULT_CIRCUIT_BREAKERS;
+
+export const marginParams = (config: MarketEngineConfig): MarginParams => config.margin ?? DEFAULT_MARGIN;
+
+const borrowParams = (config: MarketEngineConfig): BorrowParams => config.borrow ?? DEFAULT_BORROW;
+
+const crowdingParams = (config: MarketEngineConfig): CrowdingParams => config.crowding ?? DEFAULT_CROWDING;
+
+// Options discount at the current short rate
+const optionParams = (config: MarketEngineConfig, state: MarketState): OptionParams =>
+  ({ ...(config.options ?? DEFAULT_OPTION_PARAMS), riskFreeRate: state.shortRate });
+
+export const futuresParams = (config: MarketEngineConfig): FuturesParams => config.futures ?? DEFAULT_FUTURES;
+
+const rateParams = (config: MarketEngineConfig): RateParams => config.rates ?? DEFAULT_RATES;
+
+const futuresMarket = (config: MarketEngineConfig, state: MarketState): FuturesMarket =>
+  ({ prices: state.prices, basis: state.futuresBasis, tick: state.tick, dt: priceModelParams(config).dt });
+
+export const activeEvents = (state: Pick<MarketState, "events" | "tick">): MarketEvent[] =>
+  state.events.filter(event => isActive(event, state.tick));
+
+// Market-level GBM. Under regime switching the trend and volatility meters are its
+// drift and sigma on a normalised scale; the price model config supplies jumps and dt
+export const effectivePriceModel = (config: MarketEngineConfig, state: Pick<MarketState, "conditions" | "regime">): PriceModelParams => {
+  const base = priceModelParams(config);
+  return {
+    ...base,
+    drift: state.conditions.trend * MAX_DRIFT,
+    volatility: Math.max(0.01, state.conditions.volatility * MAX_VOLATILITY),
+    jumpIntensity: base.jumpIntensity * regimeModel(config).params[state.regime].jumpMultiplier
+  };
+};
+
+// Each asset rides the market: drift adds beta times the market drift, and sigma
+// scales with how far market volatility sits from the reference level
+export const assetPriceModel = (market: PriceModelParams, asset: AssetParams): PriceModelParams => ({
+  ...market,
+  drift: asset.drift + asset.beta * market.drift,
+  volatility: asset.volatility * market.volatility / REFERENCE_VOLATILITY
+});
+
+// Turnover scales with the length of the tick and rises with market volatility;
+// noise is mean one
+const generatedVolume = (asset: AssetParams, market: PriceModelParams, noise = 0) =>
+  asset.averageVolume * market.dt * TRADING_DAYS_PER_YEAR * (market.volatility / REFERENCE_VOLATILITY)
+    * Math.exp(VOLUME_NOISE * noise - VOLUME_NOISE * VOLUME_NOISE / 2);
+
+const marketQuotes = (
+  config: MarketEngineConfig,
+  market: PriceModelParams,
+  prices: Record<AssetClass, number>,
+  volumes: Record<AssetClass, number>
+): Record<AssetClass, Quote> => {
+  const params = assetParams(config);
+  return assetRecord(c => ({
+    price: prices[c],
+    volume: volumes[c],
+    volatility: assetPriceModel(market, params[c]).volatility * Math.sqrt(market.dt)
+  }));
+};
+
+// Replayed volume is shares times close; bars without volume fall back to the model
+const barVolume = (bar: { volume: number; close: number } | undefined, fallback: number) =>
+  bar && bar.volume > 0 ? bar.volume * bar.close : fallback;
+
+// Option surfaces start from each asset's current model vol, events included,
+// and revert towards its long-run vol
+export const volatilityInputs = (config: MarketEngineConfig, state: MarketState): Record<AssetClass, VolatilityInputs> => {
+  const market = effectivePriceModel(config, state);
+  market.volatility += eventVolatility(eventCatalog(config), activeEvents(state), state.tick) * MAX_VOLATILITY;
+  const params = assetParams(config);
+  return assetRecord(c => ({
+    spot: state.prices[c],
+    realised: assetPriceModel(market, params[c]).volatility,
+    longRun: params[c].volatility
+  }));
+};
+
+const replayFeed = (config: MarketEngineConfig): ReplayFeed | undefined =>
+  config.priceSource?.kind === "replay" ? config.priceSource.feed : undefined;
+
+export const replayComplete = (config: MarketEngineConfig, state: MarketState): boolean => {
+  const feed = replayFeed(config);
+  return !!feed && state.tick >= feed.calendar.length - 1;
+};
+
+export const initialMarketState = (config: MarketEngineConfig): MarketState => {
+  const price = config.initialPrice ?? 100;
+  const feed = replayFeed(config);
+  const prices = assetRecord(c => feed?.bars[c]?.[0].close ?? price);
+  const conditions = { ...DEFAULT_CONDITIONS, ...config.initialConditions };
+  const regime = config.initialRegime ?? "bull";
+  const market = effectivePriceModel(config, { conditions, regime });
+  const params = assetParams(config);
+  const volumes = assetRecord(c => barVolume(feed?.bars[c]?.[0], generatedVolume(params[c], market)));
+  const time = feed ? dateTime(feed.calendar[0], clockParams(config)) : initialTime(clockParams(config));
+  return {
+    seed: config.seed >>> 0,
+    tick: 0,
+    time,
+    rngState: hashSeed("market", config.seed),
+    conditions,
+    regime,
+    regimeAge: 0,
+    events: [],
+    releases: [],
+    prices,
+    returns: assetRecord(() => 0),
+    halts: [],
+    fairPrices: {},
+    priceHistory: assetRecord(c => [prices[c]]),
+    timeHistory: [time],
+    volumes,
+    shorts: {},
+    borrow: borrowStates(borrowParams(config), {}, prices, volumes, tickLength(config)),
+    recalls: [],
+    positioning: {},
+    flows: {},
+    unwinds: [],
+    futuresBasis: initialBasis(futuresParams(config), regime),
+    shortRate: config.initialRate ?? rateParams(config).meanRate[regime],
+    date: feed?.calendar[0],
+    exchange: refreshLiquidity(createExchange(prices), marketQuotes(config, market, prices, volumes), 0, liquidityParams(config))
+  };
+};
+
+// Pure transition: returns the next state and never touches its input
+export const stepMarket = (config: MarketEngineConfig, state: MarketState): MarketState => {
+  const rng = createRng(state.rngState);
+  const tick = state.tick + 1;
+  const days = tickLength(config);
+  const model = regimeModel(config);
+  const regime = nextRegime(state.regime, model, rng, days);
+  const target = model.params[regime];
+
+  const catalog = eventCatalog(config);
+  const events = [...state.events, ...triggerEvents(catalog, activeEvents({ events: state.events, tick }), tick, rng, days)];
+  const active = activeEvents({ events, tick });
+
+  // Surprises come from their own stream so the calendar never shifts market draws
+  const calendar = macroCalendar(config);
+  const released = drawReleases(calendar, regime, tick, createRng(hashSeed("macro", state.seed, tick)), days);
+  const releases = [...state.releases, ...released].slice(-RELEASE_HISTORY);
+  const news = releaseMeters(calendar, released);
+
+  // Meters drift towards the active regime's targets, with the old random walk as
+  // noise scaled to the tick's length, and jump on macro surprises
+  const prev = state.conditions;
+  const reversion = chanceIn(REGIME_REVERSION, days);
+  const noise = Math.sqrt(days);
+  const conditions: MarketConditions = {
+    volatility: clamp(prev.volatility + reversion * (target.volatility / MAX_VOLATILITY - prev.volatility) + (rng.next() - 0.5) * 0.1 * noise + news.volatility, 0, 1),
+    trend: clamp(prev.trend + reversion * (target.drift / MAX_DRIFT - prev.trend) + (rng.next() - 0.5) * 0.05 * noise + news.trend, -1, 1),
+    blackSwan: active.length > 0
+  };
+
+  // Events widen the diffusion and add their scheduled shock on top of it, as do
+  // macro surprises
+  const market = effectivePriceModel(config, { conditions, regime });
+  market.volatility += eventVolatility(catalog, active, tick) * MAX_VOLATILITY;
+  const shocks = eventShocks(catalog, active, tick);
+  const macro = releaseShocks(calendar, releases, tick, days);
+
+  // Diffusion shocks are drawn jointly; jumps are market-wide and hit every asset
+  const chol = cholesky(regimeCorrelation(config.correlation ?? DEFAULT_CORRELATION, target.correlation));
+  const z = multiplyVector(chol, ASSET_CLASSES.map(() => rng.normal()));
+  const jumpDraws = drawJumps(market, rng);
+  const volumeNoise = ASSET_CLASSES.map(() => rng.normal());
+  const params = assetParams(config);
+
+  // Rate shocks and surprises move the short rate, and with it the whole curve
+  const rates = rateParams(config);
+  const driven = stepShortRate(state.shortRate, rates, regime, market.dt, -z[ASSET_CLASSES.indexOf(RATE_DRIVER)]);
+  const shortRate = shockRate(driven, eventRateShock(catalog, active, tick) + macro.rate, rates);
+
+  // Crowded positioning from the last tick can start an unwind, drawn from its
+  // own stream so fund holdings never shift market draws
+  const crowd = crowdingParams(config);
+  const unwinding = state.unwinds.filter(unwind => isUnwinding(unwind, tick));
+  const crowded = crowdingLevels(crowd, state.positioning, state.prices, state.volumes, days);
+  const started = drawUnwinds(crowd, crowded, unwinding, tick, createRng(hashSeed("unwind", state.seed, tick)), days);
+  const unwound = unwindShocks([...unwinding, ...started], tick);
+
+  // Bonds earn the curve's return at their duration and model only their spread;
+  // crowded shorts drift up and crowded trades unwind on top of everything else
+  const generated = assetRecord((c, i) => {
+    const duration = params[c].duration;
+    const curve = duration ? bondReturn(state.shortRate, shortRate, duration, market.dt, rates) : 0;
+    return curve + jumpDiffusionReturn(assetPriceModel(market, params[c]), { z: z[i], jumpDraws }, params[c].jumpSensitivity)
+      + shocks[c] + macro.assets[c] + unwound[c] + squeezeReturn(borrowParams(config), state.borrow[c], days);
+  });
+
+  // Replayed bars already contain whatever happened historically, so they take
+  // no event shocks; once the feed runs out those assets stay flat. Halted assets
+  // move from their fair price, which nobody can trade at.
+  const feed = replayFeed(config);
+  const barIndex = Math.min(tick, (feed?.calendar.length ?? 1) - 1);
+  const reference = assetRecord(c => state.fairPrices[c] ?? state.prices[c]);
+  const fair = assetRecord(c => feed?.bars[c]?.[barIndex].close ?? reference[c] * Math.exp(generated[c]));
+  const moves = assetRecord(c => Math.log(fair[c] / reference[c]));
+
+  // A newly halted asset stops at its limit and then stays put until it reopens
+  // at its fair price
+  const breakers = circuitBreakers(config);
+  const tripped = tripBreakers(breakers, moves, state.halts, tick, days);
+  const halts = [...state.halts, ...tripped];
+  const halted = haltedAssets(halts, tick);
+  const wasHalted = haltedAssets(state.halts, tick);
+  const limits = limitMoves(breakers, moves, tripped);
+  const prices = assetRecord(c => {
+    if (!halted.includes(c)) return fair[c];
+    return wasHalted.includes(c) ? state.prices[c] : state.prices[c] * Math.exp(limits[c]);
+  });
+  const returns = assetRecord(c => Math.log(prices[c] / state.prices[c]));
+  const volumes = assetRecord((c, i) => barVolume(feed?.bars[c]?.[barIndex], generatedVolume(params[c], market, volumeNoise[i])));
+  const historyLength = config.historyLength ?? DEFAULT_HISTORY_LENGTH;
+  const time = feed ? dateTime(feed.calendar[barIndex], clockParams(config)) : nextTime(state.time, clockParams(config));
+
+  // Recalls come from their own stream so short interest never shifts market draws
+  const borrow = borrowStates(borrowParams(config), state.shorts, prices, volumes, days);
+  const recalls = drawRecalls(borrowParams(config), borrow, createRng(hashSeed("recall", state.seed, tick)), days);
+  const futuresBasis = stepBasis(state.futuresBasis, futuresParams(config), regime, market.dt, createRng(hashSeed("basis", state.seed, tick)));
+
+  return {
+    ...state,
+    tick,
+    time,
+    rngState: rng.getState(),
+    conditions,
+    regime,
+    regimeAge: regime === state.regime ? state.regimeAge + 1 : 0,
+    events,
+    releases,
+    prices,
+    returns,
+    halts,
+    fairPrices: Object.fromEntries(halted.map(c => [c, fair[c]])),
+    priceHistory: assetRecord(c => [...state.priceHistory[c], prices[c]].slice(-historyLength)),
+    timeHistory: [...state.timeHistory, time].slice(-historyLength),
+    volumes,
+    borrow,
+    recalls,
+    flows: {},
+    unwinds: [...state.unwinds, ...started],
+    futuresBasis,
+    shortRate,
+    date: feed?.calendar[barIndex],
+    exchange: refreshLiquidity(state.exchange, marketQuotes(config, market, prices, volumes), tick, liquidityParams(config), halted)
+  };
+};
+
+// Fund orders trade against the market maker and each other at the current tick.
+// Where funds traded, the asset's price moves to the last print, so the next
+// step evolves from a price the funds themselves pushed. Orders in halted
+// assets are turned away.
+export const submitOrders = (state: MarketState, orders: OrderRequest[]): OrderResult => {
+  const halted = haltedAssets(state.halts, state.tick);
+  const open = orders.filter(order => !halted.includes(order.asset));
+  const { exchange, trades, rejections } = placeOrders(state.exchange, open, state.tick);
+  const traded = new Set(trades.map(trade => trade.asset));
+  const prices = assetRecord(c => traded.has(c) ? exchange.books[c].lastPrice : state.prices[c]);
+  const refused = orders.filter(order => halted.includes(order.asset)).map(request => ({ request, reason: "Trading halted" }));
+  const flows = recordFlows(state.flows, trades, MARKET_MAKER);
+  return { state: { ...state, exchange, prices, flows }, trades, rejections: [...refused, ...rejections] };
+};
+
+// Applies every fill the fund has received since it was last settled and charges
+// commission. Spread and impact are already in the fill prices; they are only
+// measured here, against the mid each order saw on arrival.
+export const settleFund = (config: MarketEngineConfig, state: MarketState, fundId: string, holdings: Holdings): Settlement => {
+  const { exchange, fills } = takeFills(state.exchange, fundId);
+  const costs = fillCosts(fills, fundId, liquidityParams(config).halfSpread, config.commission ?? DEFAULT_COMMISSION);
+  const filled = applyFills(holdings, fills, fundId);
+  return { state: { ...state, exchange }, holdings: { ...filled, cash: filled.cash - costs.commission }, fills, costs };
+};
+
+// Borrow fees accrue on the value of every short, at the asset's current rate
+export const chargeBorrow = (config: MarketEngineConfig, state: MarketState, holdings: Holdings): BorrowCharge => {
+  const fee = borrowFee(holdings, state.prices, state.borrow, priceModelParams(config).dt);
+  return { holdings: { ...holdings, cash: holdings.cash - fee }, fee };
+};
+
+// Interest for one tick on the fund's cash balance
+export const chargeInterest = (config: MarketEngineConfig, state: MarketState, holdings: Holdings): InterestAccrual =>
+  accrueInterest(holdings, state.shortRate, priceModelParams(config).dt, rateParams(config));
+
+// Short interest feeds next tick's borrow rates, recalls and squeezes
+export const recordShorts = (state: MarketState, fundId: string, holdings: Holdings): MarketState => {
+  const { [fundId]: _, ...others } = state.shorts;
+  const shorts = fundShorts(holdings);
+  return { ...state, shorts: Object.keys(shorts).length > 0 ? { ...others, [fundId]: shorts } : others };
+};
+
+// Net positioning feeds next tick's crowding
+export const recordPositioning = (state: MarketState, fundId: string, holdings: Holdings): MarketState => {
+  const { [fundId]: _, ...others } = state.positioning;
+  const positions = fundPositioning(holdings);
+  return { ...state, positioning: Object.keys(positions).length > 0 ? { ...others, [fundId]: positions } : others };
+};
+
+// Flows move prices away from where the step left them, the last entry in the
+// price history
+const tickOpens = (state: MarketState) => assetRecord(c => state.priceHistory[c][state.priceHistory[c].length - 1]);
+
+// Funds with positions are marked to market against their last recorded NAV
+// (`assets`). Funds without them earn what their target weights earned over
+// the last tick, plus a small fund-specific term. Each fund gets its own stream
+// keyed on seed, tick and id, so results do not depend on the order in which
+// funds are evaluated. performanceChange is in percent.
+export const evaluateFund = (config: MarketEngineConfig, state: MarketState, fund: FundInput): FundResult => {
+  if (fund.holdings) {
+    const { dt } = priceModelParams(config);
+    const options = optionsValue(fund.holdings.options ?? [], volatilityInputs(config, state), state.regime, state.tick, dt, optionParams(config, state));
+    const nav = markToMarket(fund.holdings, state.prices) + options + unsettledFutures(fund.holdings, futuresMarket(config, state));
+    const performanceChange = fund.assets > 0 ? (nav / fund.assets - 1) * 100 : 0;
+    return {
+      performanceChange,
+      performance: fund.performance + performanceChange,
+      assets: nav,
+      events: activeEvents(state).map(event => event.kind)
+    };
+  }
+
+  const rng = createRng(hashSeed("fund", state.seed, state.tick, fund.id));
+  const { dt } = priceModelParams(config);
+  const idiosyncratic = (config.idiosyncraticVolatility ?? DEFAULT_IDIOSYNCRATIC_VOLATILITY) * Math.sqrt(dt) * rng.normal();
+
+  const holdings = fund.allocation ?? defaultAllocation(fund.strategy);
+  const performanceChange = (portfolioReturn(holdings, state.returns) + Math.exp(idiosyncratic) - 1) * 100;
+
+  return {
+    performanceChange,
+    performance: fund.performance + performanceChange,
+    assets: fund.assets * (1 + performanceChange * 0.01),
+    events: activeEvents(state).map(event => event.kind)
+  };
+};
+
+export const createMarketEngine = (config: MarketEngineConfig): MarketEngine => {
+  if (config.clock) validateClock(config.clock);
+  if (config.regimeModel) validateRegimeModel(config.regimeModel);
+  if (config.correlation) validateCorrelation(config.correlation, ASSET_CLASSES.length);
+  if (config.margin) validateMarginParams(config.margin);
+  if (config.rates) validateRateParams(config.rates);
+  if (config.macroCalendar) validateMacroCalendar(config.macroCalendar);
+  if (config.circuitBreakers) validateCircuitBreakers(config.circuitBreakers);
+  return {
+    config,
+    initialState: () => initialMarketState(config),
+    step: state => stepMarket(config, state),
+    evaluateFund: (state, fund) => evaluateFund(config, state, fund),
+    regime: state => regimeView(regimeModel(config), state.regime, state.regimeAge, tickLength(config)),
+    activeEvents,
+    eventLabel: kind => eventLabel(eventCatalog(config), kind),
+    upcomingReleases: (state, horizon = ticksIn(RELEASE_HORIZON, tickLength(config))) =>
+      upcomingReleases(macroCalendar(config), state.regime, state.tick, horizon, tickLength(config)),
+    releases: (state, kind) => kind ? state.releases.filter(release => release.kind === kind) : state.releases,
+    releaseLabel: kind => releaseLabel(macroCalendar(config), kind),
+    releaseUnit: kind => releaseUnit(macroCalendar(config), kind),
+    replayComplete: state => replayComplete(config, state),
+    haltedAssets: state => haltedAssets(state.halts, state.tick),
+    submitOrders,
+    settleFund: (state, fundId, holdings) => settleFund(config, state, fundId, holdings),
+    marginStatus: (state, holdings) => marginStatus(holdings, state.prices, marginParams(config)),
+    checkMargin: (state, holdings, account) => checkMargin(holdings, account, state.prices, state.tick, marginParams(config), tickLength(config)),
+    chargeBorrow: (state, holdings) => chargeBorrow(config, state, holdings),
+    recordShorts,
+    recordPositioning,
+    crowding: state => crowdingLevels(crowdingParams(config), state.positioning, state.prices, state.volumes, tickLength(config)),
+    activeUnwinds: state => state.unwinds.filter(unwind => isUnwinding(unwind, state.tick)),
+    marketImpact: (state, fundId) => marketImpact(state.flows, fundId, tickOpens(state), state.prices),
+    quoteOption: (state, contract) =>
+      quoteOption(contract, volatilityInputs(config, state)[contract.asset], state.regime, state.tick, priceModelParams(config).dt, optionParams(config, state)),
+    settleOptions: (state, holdings) =>
+      settleOptions(holdings, volatilityInputs(config, state), state.regime, state.tick, priceModelParams(config).dt, optionParams(config, state)),
+    applyOverlay: (state, holdings, overlay) =>
+      applyOverlay(holdings, overlay, volatilityInputs(config, state), state.regime, state.tick, priceModelParams(config).dt, optionParams(config, state)),
+    fundGreeks: (state, holdings) =>
+      portfolioGreeks(holdings, volatilityInputs(config, state), state.regime, state.tick, priceModelParams(config).dt, optionParams(config, state)),
+    futuresCurve: (state, underlying) =>
+      futuresCurve(state.prices[underlying], state.futuresBasis[underlying] ?? 0, state.tick, priceModelParams(config).dt, futuresParams(config)),
+    settleFutures: (state, holdings, roll) => settleFutures(holdings, futuresMarket(config, state), roll, futuresParams(config)),
+    rollFutures: (state, holdings) => rollFutures(holdings, futuresMarket(config, state), futuresParams(config)),
+    rebalanceFutures: (state, holdings, targets, nav) => rebalanceFutures(holdings, targets, nav, futuresMarket(config, state), futuresParams(config), haltedAssets(state.halts, state.tick)),
+    yieldCurve: state => yieldCurve(state.shortRate, rateParams(config)),
+    accrueInterest: (state, holdings) => chargeInterest(config, state, holdings)
+  };
+};
@@ -0,0 +1,42 @@
+// matrix.ts
+// Small dense-matrix helpers for correlated draws.
+
+export type Matrix = number[][];
+
+export const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+// Lower-triangular L with L * L^T = m; throws if m is not positive definite
+export const cholesky = (m: Matrix): Matrix => {
+  const n = m.length;
+  const l: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error("Matrix is not positive definite");
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return l;
+};
+
+export const multiplyVector = (m: Matrix, v: number[]): number[] =>
+  m.map(row => row.reduce((sum, value, j) => sum + value * v[j], 0));
+
+export const validateCorrelation = (m: Matrix, size: number): void => {
+  if (m.length !== size || m.some(row => row.length !== size)) {
+    throw new Error(`Correlation matrix must be ${size}x${size}`);
+  }
+  for (let i = 0; i < size; i++) {
+    if (m[i][i] !== 1) throw new Error("Correlation matrix must have a unit diagonal");
+    for (let j = 0; j < i; j++) {
+      if (m[i][j] !== m[j][i]) throw new Error("Correlation matrix must be symmetric");
+    }
+  }
+  cholesky(m);
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { bandTicks, distribution, MonteCarloJob, percentile, runMonteCarlo, simulatePath } from "./monteCarlo";
+import { testFund } from "./testFixtures";
+
+const job: MonteCarloJob = { config: { seed: 0 }, fund: testFund("mc", "Quant", { risk: 0.6 }), paths: 3, firstSeed: 11, ticks: 20, bandPoints: 4 };
+
+describe("monte carlo", () => {
+  it("interpolates percentiles and summarises a sample", () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4], 95)).toBeCloseTo(3.85);
+    expect(percentile([], 50)).toBe(0);
+    expect(distribution([4, 1, 3, 2])).toMatchObject({ mean: 2.5, min: 1, max: 4, percentiles: { 5: 1.15, 50: 2.5 } });
+    expect(distribution([4, 1, 3, 2]).stdDev).toBeCloseTo(Math.sqrt(5 / 3));
+  });
+
+  it("takes bands evenly through the run and always at its end", () => {
+    expect(bandTicks(20, 4)).toEqual([5, 10, 15, 20]);
+    expect(bandTicks(10, 4)).toEqual([3, 6, 9, 10]);
+    expect(bandTicks(2, 50)).toEqual([1, 2]);
+  });
+
+  it("reports the same statistics for the same seeds", () => {
+    const report = runMonteCarlo(job);
+    expect(runMonteCarlo(job)).toEqual(report);
+    expect(report.outcomes.map(outcome => outcome.seed)).toEqual([11, 12, 13]);
+    expect(report.bands.map(band => band.tick)).toEqual([5, 10, 15, 20]);
+    expect(report.finalNav.min).toBeLessThan(report.finalNav.max);
+    expect(report.bands[3].percentiles[50]).toBe(report.finalNav.percentiles[50]);
+
+    // A path depends on its own seed, not on the batch it ran in
+    expect(simulatePath({ ...job, firstSeed: 12 }, 0).outcome).toEqual(report.outcomes[1]);
+    expect(runMonteCarlo({ ...job, firstSeed: 14 }).finalNav).not.toEqual(report.finalNav);
+  });
+
+  it("stops a path at ruin and holds its NAV for the remaining bands", () => {
+    const { outcome, navs } = simulatePath({ ...job, ruinLevel: 0.9999999 }, 0);
+    expect(outcome.ruined).toBe(true);
+    expect(outcome.ruinTick).toBeLessThan(job.ticks);
+    expect(navs.slice(-1)[0]).toBe(outcome.finalNav);
+  });
+});
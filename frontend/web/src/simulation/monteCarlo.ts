@@ -0,0 +1,169 @@
+// monteCarlo.ts
+// Skill or luck. Runs one fund through the same market model under many seeds,
+// trading alone, and reports how final NAV, maximum drawdown and ruin are
+// distributed, with percentile bands of NAV over the run. Plain functions over
+// plain data, so it runs headless in Node or in the simulation worker.
+import { FundAccount, stepFunds } from "./fundStep";
+import { createMarketEngine, MarketEngineConfig } from "./marketEngine";
+
+export interface MonteCarloJob {
+  config: MarketEngineConfig; // the seed is replaced for each path
+  fund: FundAccount; // starting account
+  paths: number;
+  firstSeed: number; // paths use consecutive seeds from here
+  ticks: number; // trading rounds per path
+  ruinLevel?: number; // share of starting NAV below which a fund is ruined
+  bandPoints?: number; // points along the run the NAV bands are taken at
+}
+
+export interface PathOutcome {
+  seed: number;
+  finalNav: number;
+  maxDrawdown: number; // largest fall from a running peak, as a share of it
+  ruined: boolean;
+  ruinTick?: number; // round the fund was ruined in; the path stops there
+}
+
+export interface PathResult {
+  outcome: PathOutcome;
+  navs: number[]; // at each band tick
+}
+
+export type Percentile = 5 | 25 | 50 | 75 | 95;
+
+export interface Distribution {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: Record<Percentile, number>;
+}
+
+export interface NavBand {
+  tick: number; // rounds since the start
+  percentiles: Record<Percentile, number>;
+}
+
+export interface MonteCarloReport {
+  paths: number;
+  firstSeed: number;
+  ticks: number;
+  strategy: string;
+  startingNav: number;
+  ruinLevel: number;
+  finalNav: Distribution;
+  maxDrawdown: Distribution;
+  ruinProbability: number;
+  ruinStdError: number; // binomial standard error of the ruin probability
+  bands: NavBand[];
+  outcomes: PathOutcome[];
+}
+
+export const PERCENTILES: Percentile[] = [5, 25, 50, 75, 95];
+
+// A path of a year's bars takes the worker a good tenth of a second, so this
+// keeps a test to a minute or two
+export const MAX_PATHS = 500;
+
+const DEFAULT_RUIN_LEVEL = 0.5;
+const DEFAULT_BAND_POINTS = 50;
+
+export const validateMonteCarloJob = (job: MonteCarloJob) => {
+  if (!(Number.isInteger(job.paths) && job.paths >= 1)) throw new Error("Monte Carlo needs at least one path");
+  if (job.paths > MAX_PATHS) throw new Error(`Monte Carlo runs at most ${MAX_PATHS} paths`);
+  if (!Number.isInteger(job.firstSeed)) throw new Error("Monte Carlo seeds must be integers");
+  if (!(Number.isInteger(job.ticks) && job.ticks >= 1)) throw new Error("Each path needs at least one trading round");
+  if (job.ruinLevel !== undefined && !(job.ruinLevel > 0 && job.ruinLevel < 1)) throw new Error("Ruin level must be between 0 and 1");
+  if (!(job.fund.assets > 0)) throw new Error("The fund needs a positive starting NAV");
+};
+
+// Rounds the NAV bands are taken at, always including the last
+export const bandTicks = (ticks: number, points = DEFAULT_BAND_POINTS) => {
+  const every = Math.max(1, Math.ceil(ticks / points));
+  const marks: number[] = [];
+  for (let tick = every; tick < ticks; tick += every) marks.push(tick);
+  return [...marks, ticks];
+};
+
+// Linear interpolation between order statistics
+export const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(rank);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    percentiles: Object.fromEntries(PERCENTILES.map(p => [p, percentile(sorted, p)])) as Record<Percentile, number>
+  };
+};
+
+// One seed. A ruined fund is wound up, so its NAV holds where it fell for the
+// rest of the bands.
+export const simulatePath = (job: MonteCarloJob, index: number): PathResult => {
+  const seed = job.firstSeed + index;
+  const engine = createMarketEngine({ ...job.config, seed });
+  const marks = bandTicks(job.ticks, job.bandPoints);
+  const ruinNav = job.fund.assets * (job.ruinLevel ?? DEFAULT_RUIN_LEVEL);
+  const navs: number[] = [];
+  let round = stepFunds(engine, engine.initialState(), [job.fund]);
+  let peak = job.fund.assets;
+  let maxDrawdown = 0;
+  let ruinTick: number | undefined;
+  for (let tick = 1; ; tick++) {
+    const nav = round.funds[0].assets;
+    peak = Math.max(peak, nav);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? 1 - nav / peak : 0);
+    if (ruinTick === undefined && nav < ruinNav) ruinTick = tick;
+    if (marks.includes(tick)) navs.push(nav);
+    if (tick === job.ticks || ruinTick !== undefined || engine.replayComplete(round.state)) break;
+    round = stepFunds(engine, engine.step(round.state), round.funds);
+  }
+  const finalNav = round.funds[0].assets;
+  while (navs.length < marks.length) navs.push(finalNav);
+  return { outcome: { seed, finalNav, maxDrawdown, ruined: ruinTick !== undefined, ruinTick }, navs };
+};
+
+export const summarizeMonteCarlo = (job: MonteCarloJob, results: PathResult[]): MonteCarloReport => {
+  const outcomes = results.map(result => result.outcome);
+  const ruinProbability = outcomes.filter(outcome => outcome.ruined).length / Math.max(1, outcomes.length);
+  return {
+    paths: outcomes.length,
+    firstSeed: job.firstSeed,
+    ticks: job.ticks,
+    strategy: job.fund.strategy,
+    startingNav: job.fund.assets,
+    ruinLevel: job.ruinLevel ?? DEFAULT_RUIN_LEVEL,
+    finalNav: distribution(outcomes.map(outcome => outcome.finalNav)),
+    maxDrawdown: distribution(outcomes.map(outcome => outcome.maxDrawdown)),
+    ruinProbability,
+    ruinStdError: Math.sqrt(ruinProbability * (1 - ruinProbability) / Math.max(1, outcomes.length)),
+    bands: bandTicks(job.ticks, job.bandPoints).map((tick, i) => {
+      const sorted = results.map(result => result.navs[i]).sort((a, b) => a - b);
+      return { tick, percentiles: Object.fromEntries(PERCENTILES.map(p => [p, percentile(sorted, p)])) as Record<Percentile, number> };
+    }),
+    outcomes
+  };
+};
+
+// Headless run on the calling thread
+export const runMonteCarlo = (job: MonteCarloJob, onPath?: (completed: number, outcome: PathOutcome) => void): MonteCarloReport => {
+  validateMonteCarloJob(job);
+  const results: PathResult[] = [];
+  for (let i = 0; i < job.paths; i++) {
+    results.push(simulatePath(job, i));
+    onPath?.(i + 1, results[i].outcome);
+  }
+  return summarizeMonteCarlo(job, results);
+};
+
+export const exportMonteCarloReport = (report: MonteCarloReport) => JSON.stringify(report, null, 2);
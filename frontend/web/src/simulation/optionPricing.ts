@@ -0,0 +1,121 @@
+// optionPricing.ts
+// Option pricing: Black-Scholes for European exercise and a Cox-Ross-Rubinstein
+// binomial tree for American. Greeks are per unit of underlying; vega is per
+// vol point (0.01) and theta per year.
+export type OptionRight = "call" | "put";
+
+export type ExerciseStyle = "european" | "american";
+
+export interface PricingInputs {
+  right: OptionRight;
+  spot: number;
+  strike: number;
+  years: number; // time to expiry
+  rate: number; // continuously compounded
+  volatility: number;
+}
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+}
+
+export const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, vega: 0, theta: 0 };
+
+export const DEFAULT_BINOMIAL_STEPS = 100;
+
+export const normPdf = (x: number) => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz-Stegun 26.2.17, accurate to about 7.5e-8
+export const normCdf = (x: number): number => {
+  if (x < 0) return 1 - normCdf(-x);
+  const t = 1 / (1 + 0.2316419 * x);
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return 1 - normPdf(x) * poly;
+};
+
+export const intrinsicValue = (right: OptionRight, spot: number, strike: number) =>
+  Math.max(0, right === "call" ? spot - strike : strike - spot);
+
+export const blackScholes = (inputs: PricingInputs): number => {
+  const { right, spot, strike, years, rate, volatility } = inputs;
+  if (years <= 0 || volatility <= 0) return intrinsicValue(right, spot, strike * Math.exp(-rate * Math.max(0, years)));
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + volatility * volatility / 2) * years) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discount = Math.exp(-rate * years);
+  return right === "call"
+    ? spot * normCdf(d1) - strike * discount * normCdf(d2)
+    : strike * discount * normCdf(-d2) - spot * normCdf(-d1);
+};
+
+export const blackScholesGreeks = (inputs: PricingInputs): Greeks => {
+  const { right, spot, strike, years, rate, volatility } = inputs;
+  if (years <= 0 || volatility <= 0) {
+    const itm = right === "call" ? spot > strike : spot < strike;
+    return { ...ZERO_GREEKS, delta: itm ? (right === "call" ? 1 : -1) : 0 };
+  }
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + volatility * volatility / 2) * years) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discount = Math.exp(-rate * years);
+  const decay = -spot * normPdf(d1) * volatility / (2 * sqrtT);
+  return {
+    delta: right === "call" ? normCdf(d1) : normCdf(d1) - 1,
+    gamma: normPdf(d1) / (spot * volatility * sqrtT),
+    vega: spot * normPdf(d1) * sqrtT * 0.01,
+    theta: right === "call"
+      ? decay - rate * strike * discount * normCdf(d2)
+      : decay + rate * strike * discount * normCdf(-d2)
+  };
+};
+
+// Rolls the tree back to the root, keeping the first two layers for the Greeks
+const binomialTree = (inputs: PricingInputs, style: ExerciseStyle, steps: number) => {
+  const { right, spot, strike, years, rate, volatility } = inputs;
+  const dt = years / steps;
+  const up = Math.exp(volatility * Math.sqrt(dt));
+  const down = 1 / up;
+  const growth = Math.exp(rate * dt);
+  const p = Math.min(1, Math.max(0, (growth - down) / (up - down)));
+  const discount = 1 / growth;
+  const node = (step: number, i: number) => spot * up ** (step - i) * down ** i;
+
+  const values = Array.from({ length: steps + 1 }, (_, i) => intrinsicValue(right, node(steps, i), strike));
+  const layers: number[][] = [];
+  for (let step = steps - 1; step >= 0; step--) {
+    for (let i = 0; i <= step; i++) {
+      const held = discount * (p * values[i] + (1 - p) * values[i + 1]);
+      values[i] = style === "american" ? Math.max(held, intrinsicValue(right, node(step, i), strike)) : held;
+    }
+    if (step <= 2) layers[step] = values.slice(0, step + 1);
+  }
+  return { layers, node, dt };
+};
+
+export const binomialPrice = (inputs: PricingInputs, style: ExerciseStyle, steps = DEFAULT_BINOMIAL_STEPS): number => {
+  if (inputs.years <= 0 || inputs.volatility <= 0) return intrinsicValue(inputs.right, inputs.spot, inputs.strike);
+  return binomialTree(inputs, style, Math.max(2, steps)).layers[0][0];
+};
+
+// European exercise has a closed form; American needs the tree
+export const optionPrice = (inputs: PricingInputs, style: ExerciseStyle, steps = DEFAULT_BINOMIAL_STEPS): number =>
+  style === "european" ? blackScholes(inputs) : binomialPrice(inputs, style, steps);
+
+// American delta, gamma and theta come off the first layers of the tree and
+// vega from a vol bump; European Greeks are closed form
+export const optionGreeks = (inputs: PricingInputs, style: ExerciseStyle, steps = DEFAULT_BINOMIAL_STEPS): Greeks => {
+  if (style === "european" || inputs.years <= 0 || inputs.volatility <= 0) return blackScholesGreeks(inputs);
+  const { layers, node, dt } = binomialTree(inputs, style, Math.max(2, steps));
+  const [[root], one, two] = layers;
+  const deltaUp = (two[0] - two[1]) / (node(2, 0) - node(2, 1));
+  const deltaDown = (two[1] - two[2]) / (node(2, 1) - node(2, 2));
+  return {
+    delta: (one[0] - one[1]) / (node(1, 0) - node(1, 1)),
+    gamma: (deltaUp - deltaDown) / ((node(2, 0) - node(2, 2)) / 2),
+    vega: binomialPrice({ ...inputs, volatility: inputs.volatility + 0.01 }, style, steps) - root,
+    theta: (two[1] - root) / (2 * dt)
+  };
+};
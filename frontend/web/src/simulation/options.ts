@@ -0,0 +1,285 @@
+// options.ts
+// Listed options on the simulated assets. Contracts are cash-settled on one unit
+// of the underlying and trade against the dealer at model value plus a spread,
+// so there is no book. Implied vol comes from a surface whose level follows
+// realised asset vol and whose skew follows the market regime.
+import { ASSET_CLASSES, AssetClass } from "./assets";
+import { tickDays, ticksIn } from "./clock";
+import { TradingCosts, ZERO_COSTS, addCosts } from "./costs";
+import { futuresExposure } from "./futures";
+import { ExerciseStyle, Greeks, OptionRight, PricingInputs, ZERO_GREEKS, intrinsicValue, optionGreeks, optionPrice } from "./optionPricing";
+import { Holdings } from "./portfolio";
+import { RegimeName } from "./regimes";
+
+export interface OptionContract {
+  asset: AssetClass;
+  right: OptionRight;
+  style: ExerciseStyle;
+  strike: number;
+  expiryTick: number;
+}
+
+export interface OptionPosition {
+  contract: OptionContract;
+  quantity: number; // contracts, negative when written
+}
+
+export interface SurfaceParams {
+  premium: number; // short-dated ATM vol over realised vol
+  skew: number; // vol change per unit of log-moneyness; negative makes puts richer
+  smile: number; // curvature in log-moneyness
+}
+
+export interface OptionParams {
+  surfaces: Record<RegimeName, SurfaceParams>;
+  termDecay: number; // years over which ATM vol reverts from realised to long-run
+  riskFreeRate: number; // the engine replaces it with the current short rate
+  halfSpread: number; // fraction of premium paid to the dealer on each trade
+  binomialSteps: number;
+}
+
+// Which option overlays a fund keeps on its long positions
+export interface OptionOverlay {
+  protectivePuts: boolean;
+  coveredCalls: boolean;
+  style: ExerciseStyle;
+  putMoneyness: number; // strike over spot
+  callMoneyness: number;
+  callCoverage: number; // share of the long position calls are written against
+  tenorDays: number; // trading days to expiry of each contract opened
+}
+
+// Volatility inputs for one asset at the current tick
+export interface VolatilityInputs {
+  spot: number;
+  realised: number; // annualised
+  longRun: number; // annualised
+}
+
+export interface OptionTrade {
+  tick: number;
+  contract: OptionContract;
+  quantity: number;
+  price: number;
+  reason: "open" | "close" | "exercise" | "expiry";
+}
+
+export interface OptionActivity {
+  holdings: Holdings;
+  trades: OptionTrade[];
+  costs: TradingCosts;
+}
+
+export const DEFAULT_OPTION_PARAMS: OptionParams = {
+  surfaces: {
+    bull: { premium: 1.05, skew: -0.8, smile: 1.5 },
+    bear: { premium: 1.15, skew: -1.2, smile: 2 },
+    crisis: { premium: 1.3, skew: -1.8, smile: 3 }
+  },
+  termDecay: 0.25,
+  riskFreeRate: 0.02,
+  halfSpread: 0.02,
+  binomialSteps: 100
+};
+
+export const DEFAULT_OVERLAY: OptionOverlay = {
+  protectivePuts: false,
+  coveredCalls: false,
+  style: "european",
+  putMoneyness: 0.9,
+  callMoneyness: 1.1,
+  callCoverage: 0.5,
+  tenorDays: 63
+};
+
+const MIN_VOLATILITY = 0.01;
+
+export const contractLabel = (contract: OptionContract) =>
+  `${contract.asset} ${contract.strike.toFixed(2)} ${contract.right} @${contract.expiryTick}${contract.style === "american" ? " (Am)" : ""}`;
+
+export const sameContract = (a: OptionContract, b: OptionContract) =>
+  a.asset === b.asset && a.right === b.right && a.style === b.style && a.strike === b.strike && a.expiryTick === b.expiryTick;
+
+export const impliedVolatility = (surface: SurfaceParams, vol: VolatilityInputs, strike: number, years: number, termDecay: number) => {
+  const shortDated = vol.realised * surface.premium;
+  const atm = vol.longRun + (shortDated - vol.longRun) * Math.exp(-Math.max(0, years) / termDecay);
+  const moneyness = Math.log(strike / vol.spot);
+  return Math.max(MIN_VOLATILITY, atm * (1 + surface.skew * moneyness + surface.smile * moneyness * moneyness));
+};
+
+const pricingInputs = (
+  contract: OptionContract,
+  vol: VolatilityInputs,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams
+): PricingInputs => {
+  const years = Math.max(0, contract.expiryTick - tick) * dt;
+  return {
+    right: contract.right,
+    spot: vol.spot,
+    strike: contract.strike,
+    years,
+    rate: params.riskFreeRate,
+    volatility: impliedVolatility(params.surfaces[regime], vol, contract.strike, years, params.termDecay)
+  };
+};
+
+export interface OptionQuote {
+  value: number;
+  volatility: number;
+  greeks: Greeks;
+}
+
+export const quoteOption = (
+  contract: OptionContract,
+  vol: VolatilityInputs,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams = DEFAULT_OPTION_PARAMS
+): OptionQuote => {
+  const inputs = pricingInputs(contract, vol, regime, tick, dt, params);
+  return {
+    value: optionPrice(inputs, contract.style, params.binomialSteps),
+    volatility: inputs.volatility,
+    greeks: optionGreeks(inputs, contract.style, params.binomialSteps)
+  };
+};
+
+// Dollar Greeks: delta and gamma per 1% move in the underlying, vega per vol
+// point and theta per tick. Assets and futures held add their own delta.
+export const portfolioGreeks = (
+  holdings: Holdings,
+  vols: Record<AssetClass, VolatilityInputs>,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams = DEFAULT_OPTION_PARAMS
+): Greeks => {
+  const futures = futuresExposure(holdings);
+  const linear = ASSET_CLASSES.reduce((sum, c) => sum + (holdings.positions[c] + futures[c]) * vols[c].spot * 0.01, 0);
+  return (holdings.options ?? []).reduce((total, position) => {
+    const spot = vols[position.contract.asset].spot;
+    const { greeks } = quoteOption(position.contract, vols[position.contract.asset], regime, tick, dt, params);
+    return {
+      delta: total.delta + position.quantity * greeks.delta * spot * 0.01,
+      gamma: total.gamma + position.quantity * greeks.gamma * spot * spot * 0.0001,
+      vega: total.vega + position.quantity * greeks.vega,
+      theta: total.theta + position.quantity * greeks.theta * dt
+    };
+  }, { ...ZERO_GREEKS, delta: linear });
+};
+
+export const optionsValue = (
+  options: OptionPosition[],
+  vols: Record<AssetClass, VolatilityInputs>,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams = DEFAULT_OPTION_PARAMS
+) => options.reduce((sum, position) =>
+  sum + position.quantity * quoteOption(position.contract, vols[position.contract.asset], regime, tick, dt, params).value, 0);
+
+// Buys pay value plus the spread and sells receive value less it
+const trade = (
+  holdings: Holdings,
+  contract: OptionContract,
+  quantity: number,
+  quote: OptionQuote,
+  tick: number,
+  params: OptionParams
+) => {
+  const price = quote.value * (1 + Math.sign(quantity) * params.halfSpread);
+  const options = [...(holdings.options ?? [])];
+  const index = options.findIndex(position => sameContract(position.contract, contract));
+  const closing = index !== -1 && Math.sign(options[index].quantity) !== Math.sign(quantity);
+  if (index === -1) options.push({ contract, quantity });
+  else options[index] = { contract, quantity: options[index].quantity + quantity };
+  const spread = Math.abs(quantity) * quote.value * params.halfSpread;
+  return {
+    holdings: { ...holdings, cash: holdings.cash - quantity * price, options: options.filter(position => position.quantity !== 0) },
+    trade: { tick, contract, quantity, price, reason: closing ? "close" : "open" } as OptionTrade,
+    costs: { ...ZERO_COSTS, spread, turnover: Math.abs(quantity) * price }
+  };
+};
+
+// Expired contracts pay intrinsic value. American contracts are exercised, or
+// assigned when written, as soon as holding them is worth no more than exercising.
+export const settleOptions = (
+  holdings: Holdings,
+  vols: Record<AssetClass, VolatilityInputs>,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams = DEFAULT_OPTION_PARAMS
+): OptionActivity => {
+  const trades: OptionTrade[] = [];
+  let cash = holdings.cash;
+  const remaining = (holdings.options ?? []).filter(position => {
+    const { contract, quantity } = position;
+    const spot = vols[contract.asset].spot;
+    const intrinsic = intrinsicValue(contract.right, spot, contract.strike);
+    const expired = tick >= contract.expiryTick;
+    const exercised = !expired && contract.style === "american" && intrinsic > 0
+      && quoteOption(contract, vols[contract.asset], regime, tick, dt, params).value <= intrinsic * (1 + 1e-9);
+    if (!expired && !exercised) return true;
+    cash += quantity * intrinsic;
+    trades.push({ tick, contract, quantity: -quantity, price: intrinsic, reason: expired ? "expiry" : "exercise" });
+    return false;
+  });
+  return { holdings: { ...holdings, cash, options: remaining }, trades, costs: ZERO_COSTS };
+};
+
+// Keeps the overlay on: a put on every long position, and calls written against
+// part of it. Written calls above the long position are bought back so they
+// stay covered. Rolls happen when the previous contract has gone.
+export const applyOverlay = (
+  holdings: Holdings,
+  overlay: OptionOverlay,
+  vols: Record<AssetClass, VolatilityInputs>,
+  regime: RegimeName,
+  tick: number,
+  dt: number,
+  params: OptionParams = DEFAULT_OPTION_PARAMS
+): OptionActivity => {
+  let current = holdings;
+  const trades: OptionTrade[] = [];
+  let costs = ZERO_COSTS;
+  const execute = (contract: OptionContract, quantity: number) => {
+    const result = trade(current, contract, quantity, quoteOption(contract, vols[contract.asset], regime, tick, dt, params), tick, params);
+    current = result.holdings;
+    trades.push(result.trade);
+    costs = addCosts(costs, result.costs);
+  };
+  const held = (asset: AssetClass, right: OptionRight, sign: number) =>
+    (current.options ?? []).filter(position => position.contract.asset === asset && position.contract.right === right && Math.sign(position.quantity) === sign);
+  const strikeAt = (spot: number, moneyness: number) => Math.round(spot * moneyness * 100) / 100;
+  const expiryTick = tick + Math.max(1, ticksIn(overlay.tenorDays, tickDays(dt)));
+
+  for (const c of ASSET_CLASSES) {
+    const long = Math.max(0, current.positions[c]);
+    const spot = vols[c].spot;
+
+    if (overlay.protectivePuts && long > 0 && held(c, "put", 1).length === 0) {
+      execute({ asset: c, right: "put", style: overlay.style, strike: strikeAt(spot, overlay.putMoneyness), expiryTick }, long);
+    }
+
+    const written = held(c, "call", -1);
+    if (overlay.coveredCalls && long > 0 && written.length === 0) {
+      const quantity = long * overlay.callCoverage;
+      if (quantity > 0) execute({ asset: c, right: "call", style: overlay.style, strike: strikeAt(spot, overlay.callMoneyness), expiryTick }, -quantity);
+    }
+
+    // Buy back the newest written calls first until what is left is covered
+    let uncovered = held(c, "call", -1).reduce((sum, position) => sum - position.quantity, 0) - long;
+    for (const position of held(c, "call", -1).sort((a, b) => b.contract.expiryTick - a.contract.expiryTick)) {
+      if (uncovered <= 0) break;
+      const quantity = Math.min(uncovered, -position.quantity);
+      execute(position.contract, quantity);
+      uncovered -= quantity;
+    }
+  }
+  return { holdings: current, trades, costs };
+};
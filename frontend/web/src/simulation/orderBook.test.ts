@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { emptyBook, Order, OrderBook, OrderRequest, submitOrder } from "./orderBook";
+
+let seq = 0;
+
+const order = (fundId: string, side: Order["side"], quantity: number, price?: number, type: Order["type"] = "limit", extra: Partial<OrderRequest> = {}): Order =>
+  ({ fundId, asset: "equities", side, type, quantity, limitPrice: price, ...extra, id: `o${seq}`, seq: seq++, tick: 0, remaining: quantity });
+
+const submitAll = (book: OrderBook, orders: Order[]) => orders.reduce((current, next) => submitOrder(current, next).book, book);
+
+const resting = (side: Order[]) => side.map(({ fundId, limitPrice, remaining }) => [fundId, limitPrice, remaining]);
+
+describe("order books", () => {
+  it("rest limit orders by price, then by time", () => {
+    const book = submitAll(emptyBook("equities", 100), [
+      order("a", "buy", 1, 99), order("b", "buy", 1, 100), order("c", "buy", 1, 99),
+      order("d", "sell", 1, 102), order("e", "sell", 1, 101), order("f", "sell", 1, 102)
+    ]);
+    expect(resting(book.bids)).toEqual([["b", 100, 1], ["a", 99, 1], ["c", 99, 1]]);
+    expect(resting(book.asks)).toEqual([["e", 101, 1], ["d", 102, 1], ["f", 102, 1]]);
+  });
+
+  it("fill at the resting prices in priority order, leaving partial fills at the front", () => {
+    const book = submitAll(emptyBook("equities", 100), [order("a", "sell", 2, 101), order("b", "sell", 3, 101), order("c", "sell", 5, 102)]);
+    const { book: after, trades } = submitOrder(book, order("x", "buy", 6, 102));
+    expect(trades.map(({ seller, price, quantity }) => [seller, price, quantity])).toEqual([["a", 101, 2], ["b", 101, 3], ["c", 102, 1]]);
+    expect(resting(after.asks)).toEqual([["c", 102, 4]]);
+    expect(after.bids).toEqual([]);
+    expect(after.lastPrice).toBe(102);
+  });
+
+  it("rest what a limit order cannot fill", () => {
+    const book = submitAll(emptyBook("equities", 100), [order("a", "sell", 2, 101)]);
+    const { book: after, trades } = submitOrder(book, order("x", "buy", 5, 101.5));
+    expect(trades.map(({ quantity }) => quantity)).toEqual([2]);
+    expect(resting(after.bids)).toEqual([["x", 101.5, 3]]);
+  });
+
+  it("cancel what IOC and market orders cannot fill", () => {
+    const book = submitAll(emptyBook("equities", 100), [order("a", "sell", 2, 101), order("b", "sell", 2, 103)]);
+    const ioc = submitOrder(book, order("x", "buy", 5, 102, "ioc"));
+    expect(ioc.trades.map(({ quantity }) => quantity)).toEqual([2]);
+    expect(ioc.book.bids).toEqual([]);
+    expect(resting(ioc.book.asks)).toEqual([["b", 103, 2]]);
+
+    const market = submitOrder(book, order("x", "buy", 10, undefined, "market"));
+    expect(market.trades.map(({ price, quantity }) => [price, quantity])).toEqual([[101, 2], [103, 2]]);
+    expect(market.book.bids).toEqual([]);
+    expect(market.book.asks).toEqual([]);
+  });
+
+  it("reject market orders with nothing to trade against and orders that are malformed", () => {
+    const book = emptyBook("equities", 100);
+    expect(submitOrder(book, order("x", "buy", 1, undefined, "market")).rejected).toBe("No liquidity on the other side of the book");
+    expect(submitOrder(book, order("x", "buy", 0, 100)).rejected).toBe("Quantity must be positive");
+    expect(submitOrder(book, order("x", "buy", 1)).rejected).toBe("Limit price required");
+    expect(submitOrder(book, order("x", "sell", 1, undefined, "stop")).rejected).toBe("Stop price required");
+  });
+
+  it("trigger stops when trades reach them, cascading while there is liquidity", () => {
+    const book = submitAll(emptyBook("equities", 100), [
+      order("a", "buy", 1, 99), order("b", "buy", 1, 97), order("c", "buy", 1, 95),
+      order("s1", "sell", 1, undefined, "stop", { stopPrice: 98 }),
+      order("s2", "sell", 1, undefined, "stop", { stopPrice: 96 })
+    ]);
+    expect(book.stops.map(({ fundId }) => fundId)).toEqual(["s1", "s2"]);
+
+    const { book: after, trades } = submitOrder(book, order("x", "sell", 2, 97));
+    expect(trades.map(({ seller, price }) => [seller, price])).toEqual([["x", 99], ["x", 97], ["s1", 95]]);
+    expect(after.bids).toEqual([]);
+    expect(after.stops.map(({ fundId }) => fundId)).toEqual(["s2"]);
+    expect(after.lastPrice).toBe(95);
+  });
+
+  it("cancel resting orders of the same fund instead of trading with them", () => {
+    const book = submitAll(emptyBook("equities", 100), [order("x", "sell", 2, 101), order("a", "sell", 2, 101)]);
+    const { book: after, trades } = submitOrder(book, order("x", "buy", 2, 101));
+    expect(trades.map(({ buyer, seller, quantity }) => [buyer, seller, quantity])).toEqual([["x", "a", 2]]);
+    expect(after.asks).toEqual([]);
+    expect(after.bids).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+// orderBook.ts
+// Price-time priority limit order book with a matching engine. Books are plain
+// data and every operation returns a new book, so they live inside the market state.
+// An order never trades with its own fund: resting orders it would meet are
+// cancelled instead (cancel-oldest self-trade prevention).
+import { AssetClass } from "./assets";
+
+export type OrderSide = "buy" | "sell";
+
+// ioc: limit order whose unfilled remainder is cancelled instead of resting
+export type OrderType = "market" | "limit" | "stop" | "ioc";
+
+export interface OrderRequest {
+  fundId: string;
+  asset: AssetClass;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+}
+
+export interface Order extends OrderRequest {
+  id: string;
+  seq: number;
+  tick: number;
+  remaining: number;
+}
+
+export interface Trade {
+  id: string;
+  tick: number;
+  asset: AssetClass;
+  price: number;
+  quantity: number;
+  mid: number; // book mid when the incoming order arrived, for slippage accounting
+  buyOrderId: string;
+  sellOrderId: string;
+  buyer: string;
+  seller: string;
+}
+
+export interface OrderBook {
+  asset: AssetClass;
+  bids: Order[]; // best (highest) price first, then oldest first
+  asks: Order[]; // best (lowest) price first, then oldest first
+  stops: Order[];
+  lastPrice: number;
+}
+
+export interface MatchResult {
+  book: OrderBook;
+  trades: Trade[];
+  rejected?: string;
+}
+
+export const emptyBook = (asset: AssetClass, lastPrice: number): OrderBook => ({ asset, bids: [], asks: [], stops: [], lastPrice });
+
+export const bestBid = (book: OrderBook): number | undefined => book.bids[0]?.limitPrice;
+
+export const bestAsk = (book: OrderBook): number | undefined => book.asks[0]?.limitPrice;
+
+export const midPrice = (book: OrderBook): number => {
+  const bid = bestBid(book);
+  const ask = bestAsk(book);
+  return bid !== undefined && ask !== undefined ? (bid + ask) / 2 : book.lastPrice;
+};
+
+export const validateOrder = (order: OrderRequest): string | undefined => {
+  if (!(order.quantity > 0) || !isFinite(order.quantity)) return "Quantity must be positive";
+  if ((order.type === "limit" || order.type === "ioc") && !(order.limitPrice! > 0)) return "Limit price required";
+  if (order.type === "stop" && !(order.stopPrice! > 0)) return "Stop price required";
+  return undefined;
+};
+
+const ahead = (a: Order, b: Order, isBid: boolean) =>
+  a.limitPrice !== b.limitPrice ? (isBid ? a.limitPrice! > b.limitPrice! : a.limitPrice! < b.limitPrice!) : a.seq < b.seq;
+
+const insertResting = (side: Order[], order: Order, isBid: boolean): Order[] => {
+  let low = 0;
+  let high = side.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (ahead(side[middle], order, isBid)) low = middle + 1;
+    else high = middle;
+  }
+  return [...side.slice(0, low), order, ...side.slice(low)];
+};
+
+// Merges orders already in priority order into a side in one pass
+const mergeResting = (side: Order[], orders: Order[], isBid: boolean): Order[] => {
+  const merged: Order[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < side.length || j < orders.length) {
+    merged.push(j >= orders.length || (i < side.length && ahead(side[i], orders[j], isBid)) ? side[i++] : orders[j++]);
+  }
+  return merged;
+};
+
+const crosses = (order: Order, resting: Order) => {
+  if (order.type === "market") return true;
+  return order.side === "buy" ? resting.limitPrice! <= order.limitPrice! : resting.limitPrice! >= order.limitPrice!;
+};
+
+const oppositeOf = (book: OrderBook, order: Order) => order.side === "buy" ? book.asks : book.bids;
+
+// Matches an incoming order against the opposite side at the resting orders'
+// prices. Only the orders it reaches are touched: the rest of the side is shared
+// with the old book and a partly filled order is copied.
+const match = (book: OrderBook, incoming: Order): MatchResult => {
+  const isBuy = incoming.side === "buy";
+  const side = oppositeOf(book, incoming);
+  const kept: Order[] = []; // reached but not filled away: a partial fill
+  const trades: Trade[] = [];
+  const mid = midPrice(book);
+  let remaining = incoming.remaining;
+  let next = 0;
+
+  while (remaining > 0 && next < side.length && crosses(incoming, side[next])) {
+    const resting = side[next++];
+    if (resting.fundId === incoming.fundId) continue;
+    const quantity = Math.min(remaining, resting.remaining);
+    trades.push({
+      id: `${incoming.id}-${trades.length}`,
+      tick: incoming.tick,
+      asset: book.asset,
+      price: resting.limitPrice!,
+      quantity,
+      mid,
+      buyOrderId: isBuy ? incoming.id : resting.id,
+      sellOrderId: isBuy ? resting.id : incoming.id,
+      buyer: isBuy ? incoming.fundId : resting.fundId,
+      seller: isBuy ? resting.fundId : incoming.fundId
+    });
+    remaining -= quantity;
+    if (resting.remaining > quantity) kept.push({ ...resting, remaining: resting.remaining - quantity });
+  }
+
+  const opposite = next === 0 ? side : [...kept, ...side.slice(next)];
+  let result: OrderBook = {
+    ...book,
+    bids: isBuy ? book.bids : opposite,
+    asks: isBuy ? opposite : book.asks,
+    lastPrice: trades.length > 0 ? trades[trades.length - 1].price : book.lastPrice
+  };
+  if (remaining > 0 && incoming.type === "limit") {
+    const rest = { ...incoming, remaining };
+    result = isBuy ? { ...result, bids: insertResting(result.bids, rest, true) } : { ...result, asks: insertResting(result.asks, rest, false) };
+  }
+  return { book: result, trades };
+};
+
+// Rests limit orders without matching them; the caller makes sure they do not
+// cross the book, as the market maker's ladder does not
+export const restOrders = (book: OrderBook, orders: Order[]): OrderBook => {
+  const bids = orders.filter(order => order.side === "buy").sort((a, b) => ahead(a, b, true) ? -1 : 1);
+  const asks = orders.filter(order => order.side === "sell").sort((a, b) => ahead(a, b, false) ? -1 : 1);
+  return { ...book, bids: mergeResting(book.bids, bids, true), asks: mergeResting(book.asks, asks, false) };
+};
+
+const stopTriggered = (stop: Order, price: number) => stop.side === "buy" ? price >= stop.stopPrice! : price <= stop.stopPrice!;
+
+// Triggered stops become market orders, oldest first; their fills can trigger
+// further stops. A stop with nothing to trade against waits for liquidity.
+export const triggerStops = (book: OrderBook, price = book.lastPrice): MatchResult => {
+  let current = book;
+  const trades: Trade[] = [];
+  let reference = price;
+  for (;;) {
+    const triggered = current.stops.find(stop => stopTriggered(stop, reference) && oppositeOf(current, stop).length > 0);
+    if (!triggered) break;
+    current = { ...current, stops: current.stops.filter(stop => stop.id !== triggered.id) };
+    const result = match(current, { ...triggered, type: "market" });
+    current = result.book;
+    trades.push(...result.trades);
+    reference = current.lastPrice;
+  }
+  return { book: current, trades };
+};
+
+export const submitOrder = (book: OrderBook, order: Order): MatchResult => {
+  const rejected = validateOrder(order);
+  if (rejected) return { book, trades: [], rejected };
+
+  if (order.type === "stop") {
+    if (!stopTriggered(order, book.lastPrice) || oppositeOf(book, order).length === 0) return { book: { ...book, stops: [...book.stops, order] }, trades: [] };
+    order = { ...order, type: "market" };
+  }
+  if (order.type === "market" && oppositeOf(book, order).length === 0) return { book, trades: [], rejected: "No liquidity on the other side of the book" };
+
+  const result = match(book, order);
+  const cascade = triggerStops(result.book);
+  return { book: cascade.book, trades: [...result.trades, ...cascade.trades] };
+};
+
+export const cancelOrders = (book: OrderBook, keep: (order: Order) => boolean): OrderBook => ({
+  ...book,
+  bids: book.bids.filter(keep),
+  asks: book.asks.filter(keep),
+  stops: book.stops.filter(keep)
+});
@@ -0,0 +1,59 @@
+// portfolio.ts
+// Fund holdings: target weights across the asset universe, and the cash and
+// position quantities a fund actually holds after trading.
+import { Allocation, ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { FuturesPosition } from "./futures";
+import { OptionPosition } from "./options";
+import { OrderRequest, Trade } from "./orderBook";
+
+export interface Holdings {
+  cash: number;
+  positions: Record<AssetClass, number>; // quantities, not weights
+  options?: OptionPosition[];
+  futures?: FuturesPosition[];
+}
+
+// Negative weights are shorts. Scales weights so their absolute values sum to at
+// most one; leverage comes on top through the risk factor. Unused weight is cash.
+export const normalizeAllocation = (allocation: Partial<Allocation>): Allocation => {
+  const weights = assetRecord(c => isFinite(allocation[c] ?? 0) ? allocation[c] ?? 0 : 0);
+  const gross = ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(weights[c]), 0);
+  return gross > 1 ? assetRecord(c => weights[c] / gross) : weights;
+};
+
+// Simple (not log) return of the holdings over one tick
+export const portfolioReturn = (allocation: Allocation, logReturns: Record<AssetClass, number>): number =>
+  ASSET_CLASSES.reduce((sum, c) => sum + allocation[c] * (Math.exp(logReturns[c]) - 1), 0);
+
+export const cashHoldings = (cash: number): Holdings => ({ cash, positions: assetRecord(() => 0) });
+
+export const markToMarket = (holdings: Holdings, prices: Record<AssetClass, number>): number =>
+  ASSET_CLASSES.reduce((sum, c) => sum + holdings.positions[c] * prices[c], holdings.cash);
+
+export const applyFills = (holdings: Holdings, fills: Trade[], fundId: string): Holdings =>
+  fills.reduce((current, trade) => {
+    // A fund crossing its own resting order nets to nothing
+    const sign = (trade.buyer === fundId ? 1 : 0) - (trade.seller === fundId ? 1 : 0);
+    return {
+      ...current,
+      cash: current.cash - sign * trade.quantity * trade.price,
+      positions: { ...current.positions, [trade.asset]: current.positions[trade.asset] + sign * trade.quantity }
+    };
+  }, holdings);
+
+// Market orders that move the holdings towards `target` weights of current NAV.
+// Differences worth less than `minTradeValue` are left alone to avoid churn.
+export const rebalanceOrders = (
+  fundId: string,
+  holdings: Holdings,
+  target: Allocation,
+  prices: Record<AssetClass, number>,
+  minTradeValue = 1000
+): OrderRequest[] => {
+  const nav = markToMarket(holdings, prices);
+  return ASSET_CLASSES.flatMap<OrderRequest>(asset => {
+    const delta = target[asset] * nav / prices[asset] - holdings.positions[asset];
+    if (Math.abs(delta * prices[asset]) < minTradeValue) return [];
+    return [{ fundId, asset, side: delta > 0 ? "buy" : "sell", type: "market", quantity: Math.abs(delta) }];
+  });
+};
@@ -0,0 +1,71 @@
+// priceModel.ts
+// Geometric Brownian motion with Merton jump-diffusion. Parameters are annualised;
+// dt is the length of one engine tick in years.
+import { Rng } from "./rng";
+
+export interface PriceModelParams {
+  drift: number;
+  volatility: number;
+  jumpIntensity: number; // expected jumps per year
+  jumpMean: number; // mean log jump size
+  jumpStdDev: number;
+  dt: number;
+}
+
+export interface PriceStep {
+  price: number;
+  logReturn: number;
+  jumps: number;
+}
+
+export const DEFAULT_PRICE_MODEL: PriceModelParams = {
+  drift: 0.07,
+  volatility: 0.2,
+  jumpIntensity: 0.5,
+  jumpMean: -0.08,
+  jumpStdDev: 0.05,
+  dt: 1 / 252
+};
+
+// Knuth's method; fine for the small lambda * dt values used per tick
+export const samplePoisson = (lambda: number, rng: Rng): number => {
+  if (lambda <= 0) return 0;
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = rng.next();
+  while (p > limit) {
+    k++;
+    p *= rng.next();
+  }
+  return k;
+};
+
+// Standard normal draws behind one tick: z drives the diffusion, one draw per jump
+// that occurred. Splitting these out lets the engine correlate z across assets
+// while every asset shares the same jump events.
+export interface PriceShock {
+  z: number;
+  jumpDraws: number[];
+}
+
+export const drawJumps = (params: PriceModelParams, rng: Rng): number[] =>
+  Array.from({ length: samplePoisson(params.jumpIntensity * params.dt, rng) }, () => rng.normal());
+
+// Drift is compensated for the expected jump so that `drift` stays the expected return.
+// `jumpSensitivity` scales the jump size for assets that react more or less than the market.
+export const jumpDiffusionReturn = (params: PriceModelParams, shock: PriceShock, jumpSensitivity = 1): number => {
+  const { drift, volatility, jumpIntensity, dt } = params;
+  const jumpMean = params.jumpMean * jumpSensitivity;
+  const jumpStdDev = params.jumpStdDev * Math.abs(jumpSensitivity);
+  const kappa = Math.exp(jumpMean + 0.5 * jumpStdDev * jumpStdDev) - 1;
+  const diffusion = (drift - 0.5 * volatility * volatility - jumpIntensity * kappa) * dt
+    + volatility * Math.sqrt(dt) * shock.z;
+  const jumpSize = shock.jumpDraws.reduce((sum, draw) => sum + jumpMean + jumpStdDev * draw, 0);
+  return diffusion + jumpSize;
+};
+
+export const stepPrice = (price: number, params: PriceModelParams, rng: Rng): PriceStep => {
+  const shock: PriceShock = { z: rng.normal(), jumpDraws: drawJumps(params, rng) };
+  const logReturn = jumpDiffusionReturn(params, shock);
+  return { price: price * Math.exp(logReturn), logReturn, jumps: shock.jumpDraws.length };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { cashHoldings } from "./portfolio";
+import { accrueInterest, bondReturn, DEFAULT_RATES, RateParams, stepShortRate, yieldCurve, zeroYield } from "./rates";
+
+// Vasicek volatility is in rate units, not scaled by the square root of the rate
+const vasicek: RateParams = { ...DEFAULT_RATES, model: "vasicek", volatility: 0.01 };
+
+describe("rates", () => {
+  it.each([DEFAULT_RATES, vasicek])("starts the curve at the short rate and slopes it towards the long-run level", params => {
+    expect(zeroYield(0.01, 0, params)).toBe(0.01);
+    const low = yieldCurve(0.01, params).map(point => point.yield);
+    const high = yieldCurve(0.08, params).map(point => point.yield);
+    expect(low.every((y, i) => i === 0 || y > low[i - 1])).toBe(true);
+    expect(high.every((y, i) => i === 0 || y < high[i - 1])).toBe(true);
+    expect(high[5] - low[5]).toBeLessThan(high[0] - low[0]);
+  });
+
+  it.each([DEFAULT_RATES, vasicek])("prices a riskless curve the same under either model", params => {
+    const riskless = { ...params, volatility: 0 };
+    const B = (1 - Math.exp(-riskless.reversion * 5)) / riskless.reversion;
+    expect(zeroYield(0.06, 5, riskless)).toBeCloseTo(0.03 + 0.03 * B / 5, 10);
+  });
+
+  it("reverts the short rate towards the regime's mean and keeps CIR at or above zero", () => {
+    expect(stepShortRate(0.08, vasicek, "bull", 1, 0)).toBeCloseTo(0.04 + 0.04 * Math.exp(-0.15));
+    expect(stepShortRate(0.001, vasicek, "crisis", 1 / 252, -10)).toBeLessThan(0);
+    expect(stepShortRate(0.001, DEFAULT_RATES, "crisis", 1 / 252, -10)).toBe(0);
+  });
+
+  it("loses on bonds when rates rise and earns carry when they hold", () => {
+    const dt = 1 / 252;
+    expect(bondReturn(0.03, 0.04, 10, dt, DEFAULT_RATES)).toBeLessThan(0);
+    const carry = bondReturn(0.03, 0.03, 10, dt, DEFAULT_RATES);
+    expect(carry).toBeGreaterThan(0);
+    expect(carry).toBeLessThan(0.001);
+  });
+
+  it("pays the short rate on cash and charges the spread on top for borrowing", () => {
+    expect(accrueInterest(cashHoldings(1000), 0.04, 0.5, DEFAULT_RATES)).toEqual({ holdings: cashHoldings(1020), interest: 20 });
+    const borrowed = accrueInterest(cashHoldings(-1000), 0.04, 0.5, DEFAULT_RATES);
+    expect(borrowed.interest).toBeCloseTo(-27.5);
+    expect(borrowed.holdings.cash).toBeCloseTo(-1027.5);
+  });
+});
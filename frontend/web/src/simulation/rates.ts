@@ -0,0 +1,103 @@
+// rates.ts
+// Short-rate model behind cash, financing and bonds. The short rate follows
+// Vasicek or CIR dynamics and reverts towards a level set by the market regime.
+// The zero-coupon curve comes from the model's closed-form bond price around a
+// single long-run level, since nobody knows how long a regime will last, so the
+// whole curve moves with the short rate and regimes reach it only through that.
+import { Holdings } from "./portfolio";
+import { RegimeName } from "./regimes";
+
+// Vasicek lets rates go negative; CIR keeps them at or above zero
+export type ShortRateModel = "vasicek" | "cir";
+
+export interface RateParams {
+  model: ShortRateModel;
+  meanRate: Record<RegimeName, number>; // annualised level the short rate reverts to
+  longRunRate: number; // level the curve prices in
+  reversion: number; // per year
+  volatility: number; // annualised; CIR scales it by the square root of the rate
+  borrowSpread: number; // paid over the short rate on borrowed cash
+}
+
+export interface YieldPoint {
+  tenor: number; // years
+  yield: number; // continuously compounded
+}
+
+export interface InterestAccrual {
+  holdings: Holdings;
+  interest: number; // earned on cash less paid on borrowing
+}
+
+export const DEFAULT_RATES: RateParams = {
+  model: "cir",
+  meanRate: { bull: 0.04, bear: 0.025, crisis: 0.005 },
+  longRunRate: 0.03,
+  reversion: 0.15,
+  volatility: 0.06,
+  borrowSpread: 0.015
+};
+
+export const YIELD_TENORS = [0.25, 1, 2, 5, 10, 30];
+
+export const validateRateParams = (params: RateParams) => {
+  if (!(params.reversion > 0)) throw new Error("Rate mean reversion must be positive");
+  if (!(params.volatility >= 0)) throw new Error("Rate volatility must be non-negative");
+  if (params.model === "cir" && [...Object.values(params.meanRate), params.longRunRate].some(rate => rate < 0)) {
+    throw new Error("CIR mean rates must be non-negative");
+  }
+};
+
+// One tick of the short rate, driven by the standard normal `z`. Vasicek steps
+// exactly; CIR uses a full-truncation Euler step so the rate never goes negative.
+export const stepShortRate = (rate: number, params: RateParams, regime: RegimeName, dt: number, z: number): number => {
+  const mean = params.meanRate[regime];
+  const a = params.reversion;
+  if (params.model === "vasicek") {
+    const decay = Math.exp(-a * dt);
+    return mean + (rate - mean) * decay + params.volatility * Math.sqrt((1 - decay * decay) / (2 * a)) * z;
+  }
+  const level = Math.max(0, rate);
+  return Math.max(0, level + a * (mean - level) * dt + params.volatility * Math.sqrt(level * dt) * z);
+};
+
+// Adds an event's move; CIR rates stay at or above zero
+export const shockRate = (rate: number, shock: number, params: RateParams) =>
+  params.model === "cir" ? Math.max(0, rate + shock) : rate + shock;
+
+// Log price of a zero-coupon bond paying 1 in `tenor` years
+export const logBondPrice = (rate: number, tenor: number, params: RateParams): number => {
+  if (tenor <= 0) return 0;
+  const b = params.longRunRate;
+  const a = params.reversion;
+  const sigma = params.volatility;
+  if (params.model === "vasicek") {
+    const B = (1 - Math.exp(-a * tenor)) / a;
+    return (b - sigma * sigma / (2 * a * a)) * (B - tenor) - sigma * sigma * B * B / (4 * a) - B * rate;
+  }
+  const gamma = Math.sqrt(a * a + 2 * sigma * sigma);
+  const growth = Math.exp(gamma * tenor) - 1;
+  const denominator = (gamma + a) * growth + 2 * gamma;
+  const B = 2 * growth / denominator;
+  const logA = sigma > 0 ? 2 * a * b / (sigma * sigma) * Math.log(2 * gamma * Math.exp((a + gamma) * tenor / 2) / denominator) : -b * (tenor - B);
+  return logA - B * Math.max(0, rate);
+};
+
+export const zeroYield = (rate: number, tenor: number, params: RateParams) =>
+  tenor > 0 ? -logBondPrice(rate, tenor, params) / tenor : rate;
+
+export const yieldCurve = (rate: number, params: RateParams, tenors = YIELD_TENORS): YieldPoint[] =>
+  tenors.map(tenor => ({ tenor, yield: zeroYield(rate, tenor, params) }));
+
+// Log return over one tick of a constant-maturity position: it holds a zero of
+// `tenor` years, which ages by dt and is then rolled back out. Carry comes from
+// the yield, duration risk from the move in the short rate.
+export const bondReturn = (previous: number, next: number, tenor: number, dt: number, params: RateParams) =>
+  logBondPrice(next, tenor - dt, params) - logBondPrice(previous, tenor, params);
+
+// Idle cash earns the short rate; borrowed cash pays it plus the spread
+export const accrueInterest = (holdings: Holdings, rate: number, dt: number, params: RateParams): InterestAccrual => {
+  const annual = holdings.cash >= 0 ? rate : rate + params.borrowSpread;
+  const interest = holdings.cash * annual * dt;
+  return { holdings: { ...holdings, cash: holdings.cash + interest }, interest };
+};
@@ -0,0 +1,80 @@
+// regimes.ts
+// Markov regime-switching model. Each regime sets the drift, volatility and
+// average cross-asset correlation the market gravitates towards while it lasts.
+import { Rng } from "./rng";
+
+export type RegimeName = "bull" | "bear" | "crisis";
+
+export const REGIMES: RegimeName[] = ["bull", "bear", "crisis"];
+
+export interface RegimeParams {
+  drift: number; // annualised
+  volatility: number; // annualised
+  correlation: number;
+  jumpMultiplier: number; // scales the price model's jump intensity
+}
+
+export interface RegimeModel {
+  params: Record<RegimeName, RegimeParams>;
+  // transitions[from][to] is the probability per trading day; each row sums to 1
+  transitions: Record<RegimeName, Record<RegimeName, number>>;
+}
+
+export interface RegimeView {
+  regime: RegimeName;
+  age: number;
+  params: RegimeParams;
+  switchProbability: number;
+  odds: Record<RegimeName, number>;
+}
+
+export const DEFAULT_REGIME_MODEL: RegimeModel = {
+  params: {
+    bull: { drift: 0.18, volatility: 0.14, correlation: 0.3, jumpMultiplier: 0.5 },
+    bear: { drift: -0.1, volatility: 0.26, correlation: 0.5, jumpMultiplier: 1.5 },
+    crisis: { drift: -0.3, volatility: 0.55, correlation: 0.8, jumpMultiplier: 4 }
+  },
+  transitions: {
+    bull: { bull: 0.99, bear: 0.0085, crisis: 0.0015 },
+    bear: { bull: 0.03, bear: 0.96, crisis: 0.01 },
+    crisis: { bull: 0.02, bear: 0.06, crisis: 0.92 }
+  }
+};
+
+export const validateRegimeModel = (model: RegimeModel): void => {
+  for (const from of REGIMES) {
+    const row = model.transitions[from];
+    const total = REGIMES.reduce((sum, to) => sum + row[to], 0);
+    if (REGIMES.some(to => row[to] < 0) || Math.abs(total - 1) > 1e-9) {
+      throw new Error(`Invalid transition row for regime "${from}"`);
+    }
+  }
+};
+
+// A row of the per-day matrix restated for a tick of `days` trading days:
+// staying compounds and the chance of leaving is shared out as on one day
+export const transitionRow = (model: RegimeModel, from: RegimeName, days: number): Record<RegimeName, number> => {
+  const row = model.transitions[from];
+  if (days === 1) return { ...row };
+  const stay = row[from] ** days;
+  const leave = 1 - row[from];
+  return Object.fromEntries(REGIMES.map(to =>
+    [to, to === from ? stay : leave > 0 ? row[to] * (1 - stay) / leave : 0]
+  )) as Record<RegimeName, number>;
+};
+
+export const nextRegime = (current: RegimeName, model: RegimeModel, rng: Rng, days = 1): RegimeName => {
+  const row = transitionRow(model, current, days);
+  let draw = rng.next();
+  for (const to of REGIMES) {
+    draw -= row[to];
+    if (draw < 0) return to;
+  }
+  return current;
+};
+
+// Odds are per tick of `days` trading days
+export const regimeView = (model: RegimeModel, regime: RegimeName, age: number, days = 1): RegimeView => {
+  const odds = transitionRow(model, regime, days);
+  return { regime, age, params: model.params[regime], switchProbability: 1 - odds[regime], odds };
+};
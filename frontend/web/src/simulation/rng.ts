@@ -0,0 +1,41 @@
+// rng.ts
+// Seeded mulberry32 generator. The whole state is one uint32 so it can be
+// stored in the market state and replayed exactly on any client or in Node.
+
+export interface Rng {
+  next: () => number;
+  normal: () => number;
+  getState: () => number;
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller; the second variate is dropped so the state stays a single number
+  const normal = () => {
+    const u = Math.max(next(), Number.EPSILON);
+    const v = next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal, getState: () => s };
+};
+
+// FNV-1a over the parts, used to derive independent streams (e.g. per fund per tick)
+export const hashSeed = (...parts: (string | number)[]): number => {
+  let h = 0x811c9dc5;
+  const input = parts.join("|");
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MACRO_CALENDAR } from "./macroCalendar";
+import { checkRules, compileRules } from "./ruleCompiler";
+import { isRuleError, MAX_NESTING, MAX_RULES_LENGTH } from "./ruleParser";
+import { EXAMPLE_PROGRAMS, RULES_STRATEGY } from "./strategies";
+import { testMarket } from "./testFixtures";
+
+const { market, portfolio } = testMarket();
+
+describe("rule diagnostics", () => {
+  it("accept the example program", () => {
+    expect(checkRules(EXAMPLE_PROGRAMS[RULES_STRATEGY])).toEqual([]);
+  });
+
+  it("point syntax errors at their line and column", () => {
+    expect(checkRules("when sma(20) > allocate EQ 60%")).toEqual([
+      { line: 1, column: 16, message: 'expected a number, name or "(" but found "allocate"' }
+    ]);
+    expect(checkRules("otherwise allocate BOND 100%\nwhen rsi(14) $ 3 allocate EQ 10%")).toEqual([
+      { line: 2, column: 14, message: 'unexpected character "$"' }
+    ]);
+  });
+
+  it("report every problem in a program rather than the first", () => {
+    const diagnostics = checkRules("when foo > 1 allocate EQ 60%\nwhen regime == 3 allocate XX 10%");
+    expect(diagnostics.map(({ line, column }) => [line, column])).toEqual([[1, 6], [2, 13], [2, 27]]);
+    expect(diagnostics[0].message).toMatch(/^unknown name "foo"; available: regime, /);
+    expect(diagnostics[1].message).toBe("cannot compare a regime with a number");
+    expect(diagnostics[2].message).toMatch(/^unknown asset "XX"/);
+  });
+
+  it("check indicator periods, gross weights and unreachable rules", () => {
+    expect(checkRules("when sma(500) > 1 allocate EQ 160%")).toEqual([
+      { line: 1, column: 10, message: "period must be a whole number of bars from 1 to 250" },
+      { line: 1, column: 28, message: "weights add up to 160% gross; at most 100% is allowed, leverage comes from the fund's risk factor" }
+    ]);
+    expect(checkRules("otherwise allocate EQ 50%\nwhen tick > 3 allocate EQ 10%")).toEqual([
+      { line: 2, column: 1, message: "this rule can never match; an otherwise rule above it catches every round" }
+    ]);
+  });
+
+  it("limit the length of a program", () => {
+    expect(checkRules(`when tick > 0 allocate EQ 10% # ${"x".repeat(MAX_RULES_LENGTH)}`)).toEqual([
+      { line: 1, column: 1, message: `programs are limited to ${MAX_RULES_LENGTH} characters` }
+    ]);
+  });
+
+  it.each([
+    ["parentheses", "(".repeat(9000) + "1" + ")".repeat(9000)],
+    ["minus signs", "-".repeat(9000) + "1"],
+    ["nots", "not ".repeat(4000) + "1"],
+    ["sums", Array(4000).fill("1").join(" + ")]
+  ])("limit how deep %s nest", (_, condition) => {
+    expect(checkRules(`when ${condition} > 0 allocate EQ 10%`)).toEqual([
+      { line: 1, column: expect.any(Number), message: `nested more than ${MAX_NESTING} levels deep` }
+    ]);
+    expect(checkRules(`when ${Array(MAX_NESTING).fill("1").join(" + ")} > 0 allocate EQ 10%`)).toEqual([]);
+  });
+
+  it("name only the releases in the engine's macro calendar", () => {
+    const program = "when payrolls_surprise > 1 allocate EQ 60%\nwhen cpi_surprise > 1 allocate BOND 60%";
+    const cpiOnly = DEFAULT_MACRO_CALENDAR.filter(({ kind }) => kind === "cpi");
+    expect(checkRules(program)).toEqual([]);
+    expect(checkRules(program, cpiOnly)).toEqual([
+      { line: 1, column: 6, message: expect.stringMatching(/^unknown name "payrolls_surprise"; available: .*cpi_surprise/) }
+    ]);
+  });
+
+  it("are thrown together by the compiler", () => {
+    const error = (() => {
+      try { compileRules("when foo > 1 allocate EQ 60%\nwhen regime == 3 allocate XX 10%"); }
+      catch (e) { return e; }
+    })();
+    expect(isRuleError(error) && error.diagnostics.map(({ line }) => line)).toEqual([1, 2, 2]);
+  });
+});
+
+describe("compiled rules", () => {
+  it("trade the first rule that matches", () => {
+    const strategy = compileRules("when regime == crisis allocate BOND 100%\nwhen tick >= 0 allocate EQ 60% BOND 40%\notherwise allocate FX 100%");
+    const decision = strategy.onTick({ ...market, regime: "bull" }, portfolio, {});
+    expect(decision).toEqual({ kind: "weights", weights: expect.objectContaining({ equities: 0.6, govBonds: 0.4 }) });
+    expect(strategy.onTick({ ...market, regime: "crisis" }, portfolio, {})).toEqual({ kind: "weights", weights: expect.objectContaining({ govBonds: 1 }) });
+  });
+});
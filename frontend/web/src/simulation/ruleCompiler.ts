@@ -0,0 +1,263 @@
+// ruleCompiler.ts
+// Meaning of the trading rule language. The checker resolves names and
+// indicator calls, types every expression and checks the allocations; the
+// compiler turns a checked program into a Strategy of plain closures, so it
+// trades the same in the browser, the worker and Node.
+import { Allocation, ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { drawdown, ema, highest, last, lowest, momentum, rsi, sma, volatility, zScore } from "./indicators";
+import { DEFAULT_MACRO_CALENDAR, MacroReleaseDefinition, MacroReleaseKind } from "./macroCalendar";
+import { REGIMES } from "./regimes";
+import { AllocationEntry, parseRules, RuleDiagnostic, ruleError, RuleExpression, RuleProgram, SourcePosition, isRuleError } from "./ruleParser";
+import { MarketView, PortfolioView, Strategy } from "./strategy";
+
+type RuleType = "number" | "boolean" | "regime" | "asset";
+
+interface RuleContext {
+  market: MarketView;
+  portfolio: PortfolioView;
+}
+
+type Evaluate = (context: RuleContext) => number | boolean | string;
+
+type ParameterKind = "period" | "asset";
+
+interface Indicator {
+  params: ParameterKind[]; // trailing asset parameters are optional and default to equities
+  help: string;
+  evaluate: (context: RuleContext, period: number, asset: AssetClass) => number;
+}
+
+// Short codes for the asset classes; the full names work too
+export const ASSET_CODES: Record<string, AssetClass> = {
+  EQ: "equities",
+  BOND: "govBonds",
+  CREDIT: "credit",
+  COMM: "commodities",
+  FX: "fx",
+  CRYPTO: "crypto"
+};
+
+// Longest window an indicator may ask for; the engine keeps this much history
+export const MAX_PERIOD = 250;
+
+const history = (context: RuleContext, asset: AssetClass) => context.market.priceHistory[asset];
+
+export const INDICATORS: Record<string, Indicator> = {
+  price: { params: ["asset"], help: "current price", evaluate: (c, _, a) => last(history(c, a)) },
+  sma: { params: ["period", "asset"], help: "simple moving average of price", evaluate: (c, n, a) => sma(history(c, a), n) },
+  ema: { params: ["period", "asset"], help: "exponential moving average of price", evaluate: (c, n, a) => ema(history(c, a), n) },
+  return: { params: ["period", "asset"], help: "log return over the period", evaluate: (c, n, a) => momentum(history(c, a), n) },
+  vol: { params: ["period", "asset"], help: "standard deviation of one-bar returns", evaluate: (c, n, a) => volatility(history(c, a), n) },
+  rsi: { params: ["period", "asset"], help: "relative strength index, 0 to 100", evaluate: (c, n, a) => rsi(history(c, a), n) },
+  high: { params: ["period", "asset"], help: "highest price over the period", evaluate: (c, n, a) => highest(history(c, a), n) },
+  low: { params: ["period", "asset"], help: "lowest price over the period", evaluate: (c, n, a) => lowest(history(c, a), n) },
+  zscore: { params: ["period", "asset"], help: "distance from the moving average in standard deviations", evaluate: (c, n, a) => zScore(history(c, a), n) },
+  drawdown: { params: ["period", "asset"], help: "fall from the period's high", evaluate: (c, n, a) => drawdown(history(c, a), n) },
+  weight: { params: ["asset"], help: "the fund's current weight", evaluate: (c, _, a) => c.portfolio.weights[a] }
+};
+
+type Variable = { type: RuleType; help: string; evaluate: Evaluate };
+
+// Surprise of the latest release of a kind, or of any kind; zero before the first
+const latestSurprise = (context: RuleContext, kind?: MacroReleaseKind) => {
+  const matching = context.market.releases.filter(release => !kind || release.kind === kind);
+  return matching[matching.length - 1]?.surprise ?? 0;
+};
+
+// rateDecision reads as rate_decision
+const snakeCase = (name: string) => name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+// Names that stand for a value of the current round; there is a surprise
+// variable for each release in the engine's calendar
+export const ruleVariables = (calendar: MacroReleaseDefinition[] = DEFAULT_MACRO_CALENDAR): Record<string, Variable> => ({
+  regime: { type: "regime", help: "market regime: bull, bear or crisis", evaluate: c => c.market.regime },
+  switch_odds: { type: "number", help: "chance the regime changes by next round", evaluate: c => 1 - c.market.regimeOdds[c.market.regime] },
+  ...Object.fromEntries(REGIMES.map((regime): [string, Variable] =>
+    [`${regime}_odds`, { type: "number", help: `chance of a ${regime} market next round`, evaluate: c => c.market.regimeOdds[regime] }])),
+  volatility: { type: "number", help: "market volatility meter, 0 to 1", evaluate: c => c.market.conditions.volatility },
+  trend: { type: "number", help: "market trend meter, -1 to 1", evaluate: c => c.market.conditions.trend },
+  rate: { type: "number", help: "annualised short rate", evaluate: c => c.market.shortRate },
+  tick: { type: "number", help: "rounds since the season began", evaluate: c => c.market.tick },
+  surprise: { type: "number", help: "surprise of the latest macro release, in standard deviations", evaluate: c => latestSurprise(c) },
+  ...Object.fromEntries(calendar.map(({ kind, label }): [string, Variable] =>
+    [`${snakeCase(kind)}_surprise`, { type: "number", help: `surprise of the latest ${label} release`, evaluate: c => latestSurprise(c, kind) }])),
+  next_release: {
+    type: "number",
+    help: "rounds until the next macro release; infinite when none is due within a month",
+    evaluate: c => c.market.upcomingReleases.length > 0 ? c.market.upcomingReleases[0].tick - c.market.tick : Infinity
+  }
+});
+
+export const resolveAsset = (name: string): AssetClass | undefined =>
+  ASSET_CODES[name.toUpperCase()] ?? ASSET_CLASSES.find(c => c.toLowerCase() === name.toLowerCase());
+
+interface Checked {
+  type: RuleType;
+  evaluate: Evaluate;
+}
+
+// Types and compiles one program, collecting every problem rather than
+// stopping at the first
+const checkProgram = (program: RuleProgram, variables: Record<string, Variable>) => {
+  const diagnostics: RuleDiagnostic[] = [];
+  const report = (position: SourcePosition, message: string) => diagnostics.push({ ...position, message });
+  const invalid: Checked = { type: "number", evaluate: () => 0 };
+
+  const expect = (expression: RuleExpression, checked: Checked, type: RuleType, role: string) => {
+    if (checked.type !== type) report(expression.position, `${role} must be ${type === "boolean" ? "a condition" : `a ${type}`}, not a ${checked.type}`);
+  };
+
+  const call = (expression: Extract<RuleExpression, { kind: "call" }>): Checked => {
+    const indicator = INDICATORS[expression.name.toLowerCase()];
+    if (!indicator) {
+      report(expression.position, `unknown indicator "${expression.name}"; available: ${Object.keys(INDICATORS).join(", ")}`);
+      return invalid;
+    }
+    const required = indicator.params.filter(kind => kind === "period").length;
+    if (expression.args.length < required || expression.args.length > indicator.params.length) {
+      report(expression.position, `${expression.name} takes ${indicator.params.join(", ")}${required < indicator.params.length ? " (asset optional)" : ""}`);
+      return invalid;
+    }
+    let period = 1;
+    let asset: AssetClass = "equities";
+    expression.args.forEach((arg, i) => {
+      if (indicator.params[i] === "period") {
+        if (arg.kind !== "number" || !Number.isInteger(arg.value) || arg.value < 1 || arg.value > MAX_PERIOD) {
+          report(arg.position, `period must be a whole number of bars from 1 to ${MAX_PERIOD}`);
+        } else {
+          period = arg.value;
+        }
+      } else {
+        const resolved = arg.kind === "name" ? resolveAsset(arg.name) : undefined;
+        if (!resolved) report(arg.position, `expected an asset (${Object.keys(ASSET_CODES).join(", ")})`);
+        else asset = resolved;
+      }
+    });
+    return { type: "number", evaluate: context => indicator.evaluate(context, period, asset) };
+  };
+
+  const check = (expression: RuleExpression): Checked => {
+    switch (expression.kind) {
+      case "number":
+        return { type: "number", evaluate: () => expression.value };
+      case "name": {
+        const lower = expression.name.toLowerCase();
+        const variable = variables[lower];
+        if (variable) return { type: variable.type, evaluate: variable.evaluate };
+        if ((REGIMES as string[]).includes(lower)) return { type: "regime", evaluate: () => lower };
+        if (resolveAsset(expression.name)) {
+          report(expression.position, `asset ${expression.name} is not a value here; use it inside an indicator such as price(${expression.name})`);
+          return invalid;
+        }
+        report(expression.position, `unknown name "${expression.name}"; available: ${[...Object.keys(variables), ...REGIMES].join(", ")}`);
+        return invalid;
+      }
+      case "call":
+        return call(expression);
+      case "unary": {
+        const operand = check(expression.operand);
+        if (expression.operator === "not") {
+          expect(expression.operand, operand, "boolean", "the operand of not");
+          return { type: "boolean", evaluate: context => !operand.evaluate(context) };
+        }
+        expect(expression.operand, operand, "number", "the operand of -");
+        return { type: "number", evaluate: context => -(operand.evaluate(context) as number) };
+      }
+      case "binary": {
+        const left = check(expression.left);
+        const right = check(expression.right);
+        const { operator } = expression;
+        if (operator === "and" || operator === "or") {
+          expect(expression.left, left, "boolean", `each side of ${operator}`);
+          expect(expression.right, right, "boolean", `each side of ${operator}`);
+          return {
+            type: "boolean",
+            evaluate: operator === "and"
+              ? context => !!left.evaluate(context) && !!right.evaluate(context)
+              : context => !!left.evaluate(context) || !!right.evaluate(context)
+          };
+        }
+        if (operator === "==" || operator === "!=") {
+          if (left.type !== right.type) report(expression.position, `cannot compare a ${left.type} with a ${right.type}`);
+          return { type: "boolean", evaluate: operator === "==" ? context => left.evaluate(context) === right.evaluate(context) : context => left.evaluate(context) !== right.evaluate(context) };
+        }
+        expect(expression.left, left, "number", `each side of ${operator}`);
+        expect(expression.right, right, "number", `each side of ${operator}`);
+        const apply = (a: number, b: number): number | boolean => {
+          switch (operator) {
+            case "+": return a + b;
+            case "-": return a - b;
+            case "*": return a * b;
+            case "/": return b !== 0 ? a / b : 0;
+            case "<": return a < b;
+            case ">": return a > b;
+            case "<=": return a <= b;
+            case ">=": return a >= b;
+          }
+        };
+        const type = ["+", "-", "*", "/"].includes(operator) ? "number" : "boolean";
+        return { type, evaluate: context => apply(left.evaluate(context) as number, right.evaluate(context) as number) };
+      }
+    }
+  };
+
+  const allocation = (entries: AllocationEntry[]): Allocation => {
+    const weights = assetRecord(() => 0);
+    const seen: AssetClass[] = [];
+    for (const entry of entries) {
+      const asset = resolveAsset(entry.asset);
+      if (!asset) {
+        report(entry.position, `unknown asset "${entry.asset}"; use ${Object.keys(ASSET_CODES).join(", ")}`);
+        continue;
+      }
+      if (seen.includes(asset)) report(entry.position, `${entry.asset} is allocated twice`);
+      seen.push(asset);
+      weights[asset] = entry.weight;
+    }
+    const gross = ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(weights[c]), 0);
+    if (gross > 1 + 1e-9) report(entries[0].position, `weights add up to ${Math.round(gross * 100)}% gross; at most 100% is allowed, leverage comes from the fund's risk factor`);
+    return weights;
+  };
+
+  let fallback = false;
+  const rules = program.rules.map(rule => {
+    if (fallback) report(rule.position, "this rule can never match; an otherwise rule above it catches every round");
+    if (!rule.condition) fallback = true;
+    const condition = rule.condition && check(rule.condition);
+    if (rule.condition && condition) expect(rule.condition, condition, "boolean", "a when clause");
+    return { condition, weights: allocation(rule.allocation) };
+  });
+
+  return { diagnostics, rules };
+};
+
+// Every syntax and type problem in the source; empty when it compiles against
+// the calendar
+export const checkRules = (source: string, calendar?: MacroReleaseDefinition[]): RuleDiagnostic[] => {
+  try {
+    return checkProgram(parseRules(source), ruleVariables(calendar)).diagnostics;
+  } catch (e) {
+    if (isRuleError(e)) return e.diagnostics;
+    throw e;
+  }
+};
+
+// Rounds where no rule matches hold the fund's own mix
+export const compileRules = (source: string, id = "Rules", label = "Custom Rules", calendar?: MacroReleaseDefinition[]): Strategy => {
+  const { diagnostics, rules } = checkProgram(parseRules(source), ruleVariables(calendar));
+  if (diagnostics.length > 0) throw ruleError(diagnostics);
+  const fallback = rules.find(rule => !rule.condition);
+  return {
+    id,
+    label,
+    description: "Trading rules written in the rule language.",
+    defaultAllocation: fallback?.weights ?? assetRecord(() => 0),
+    defaultFuturesMode: "spot",
+    params: {},
+    onTick: (market, portfolio) => {
+      const context = { market, portfolio };
+      const match = rules.find(rule => !rule.condition || rule.condition.evaluate(context) === true);
+      return { kind: "weights", weights: match ? match.weights : portfolio.allocation };
+    }
+  };
+};
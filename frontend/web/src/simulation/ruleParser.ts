@@ -0,0 +1,250 @@
+// ruleParser.ts
+// Syntax of the trading rule language. A program is one rule per line, tried
+// top to bottom each round until one matches:
+//
+//   # trend following with a crash guard
+//   when regime == crisis allocate BOND 80%
+//   when sma(20) > sma(50) and vol(20) < 2% allocate EQ 60% BOND 40%
+//   otherwise allocate EQ 30% BOND 50%
+//
+// Conditions are arithmetic and comparisons over numbers, names and indicator
+// calls, joined by and, or and not; a number followed by % is a fraction.
+// This module only turns text into a tree; what names mean is the checker's job.
+
+export interface SourcePosition {
+  line: number; // from 1
+  column: number; // from 1
+}
+
+export interface RuleDiagnostic extends SourcePosition {
+  message: string;
+}
+
+// Thrown by the parser and the compiler, carrying every problem found
+export interface RuleError extends Error {
+  diagnostics: RuleDiagnostic[];
+}
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "<" | ">" | "<=" | ">=" | "==" | "!=" | "and" | "or";
+
+export type RuleExpression =
+  | { kind: "number"; value: number; position: SourcePosition }
+  | { kind: "name"; name: string; position: SourcePosition }
+  | { kind: "call"; name: string; args: RuleExpression[]; position: SourcePosition }
+  | { kind: "unary"; operator: "-" | "not"; operand: RuleExpression; position: SourcePosition }
+  | { kind: "binary"; operator: BinaryOperator; left: RuleExpression; right: RuleExpression; position: SourcePosition };
+
+export interface AllocationEntry {
+  asset: string; // as written; the checker resolves it
+  weight: number; // fraction of NAV, negative for shorts
+  position: SourcePosition;
+}
+
+export interface TradingRule {
+  condition?: RuleExpression; // absent for an otherwise rule
+  allocation: AllocationEntry[];
+  position: SourcePosition;
+}
+
+export interface RuleProgram {
+  rules: TradingRule[];
+}
+
+type TokenKind = "number" | "name" | "operator" | "newline" | "end";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: SourcePosition;
+}
+
+// Longest program accepted, and deepest nesting of expressions
+export const MAX_RULES_LENGTH = 20000;
+export const MAX_NESTING = 64;
+
+const KEYWORDS = ["when", "otherwise", "allocate", "and", "or", "not"];
+const OPERATORS = ["<=", ">=", "==", "!=", "<", ">", "+", "-", "*", "/", "(", ")", ",", "%"];
+const COMPARISONS = ["<", ">", "<=", ">=", "==", "!="];
+
+export const formatDiagnostic = (diagnostic: RuleDiagnostic) => `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+
+export const ruleError = (diagnostics: RuleDiagnostic[]): RuleError =>
+  Object.assign(new Error(diagnostics.map(formatDiagnostic).join("\n")), { diagnostics });
+
+const fail = (position: SourcePosition, message: string): never => {
+  throw ruleError([{ ...position, message }]);
+};
+
+export const isRuleError = (error: unknown): error is RuleError =>
+  error instanceof Error && Array.isArray((error as RuleError).diagnostics);
+
+const describe = (token: Token) => token.kind === "end" ? "end of input" : token.kind === "newline" ? "end of line" : `"${token.text}"`;
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  source.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    let i = 0;
+    while (i < text.length) {
+      const position = { line, column: i + 1 };
+      const rest = text.slice(i);
+      const space = rest.match(/^\s+/);
+      if (space) { i += space[0].length; continue; }
+      if (rest[0] === "#") break;
+      const number = rest.match(/^\d+(\.\d+)?/);
+      if (number) { tokens.push({ kind: "number", text: number[0], position }); i += number[0].length; continue; }
+      const name = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (name) { tokens.push({ kind: "name", text: name[0], position }); i += name[0].length; continue; }
+      const operator = OPERATORS.find(op => rest.startsWith(op));
+      if (!operator) fail(position, `unexpected character "${rest[0]}"`);
+      tokens.push({ kind: "operator", text: operator!, position });
+      i += operator!.length;
+    }
+    tokens.push({ kind: "newline", text: "", position: { line, column: text.length + 1 } });
+  });
+  const end = tokens[tokens.length - 1]?.position ?? { line: 1, column: 1 };
+  tokens.push({ kind: "end", text: "", position: end });
+  return tokens;
+};
+
+// Recursive descent, lowest precedence first: or, and, not, comparison, sum,
+// product, unary minus, then numbers, names, calls and parentheses
+export const parseRules = (source: string): RuleProgram => {
+  if (source.length > MAX_RULES_LENGTH) fail({ line: 1, column: 1 }, `programs are limited to ${MAX_RULES_LENGTH} characters`);
+  const tokens = tokenize(source);
+  let at = 0;
+  let depth = 0;
+
+  const peek = () => tokens[at];
+  const next = () => tokens[at++];
+  const isWord = (word: string) => peek().kind === "name" && peek().text.toLowerCase() === word;
+  const isOperator = (op: string) => peek().kind === "operator" && peek().text === op;
+  const expectOperator = (op: string) => {
+    if (!isOperator(op)) fail(peek().position, `expected "${op}" but found ${describe(peek())}`);
+    return next();
+  };
+  const deeper = (position: SourcePosition) => {
+    if (++depth > MAX_NESTING) fail(position, `nested more than ${MAX_NESTING} levels deep`);
+  };
+  const nested = <T>(parse: () => T): T => {
+    deeper(peek().position);
+    try { return parse(); } finally { depth--; }
+  };
+
+  // Each operator of a chain puts the operands before it a level deeper
+  const binary = (operators: string[], operand: () => RuleExpression, keyword = false) => (): RuleExpression => {
+    let left = operand();
+    const outer = depth;
+    try {
+      while (keyword ? operators.some(isWord) : operators.some(isOperator)) {
+        const token = next();
+        deeper(token.position);
+        left = { kind: "binary", operator: token.text.toLowerCase() as BinaryOperator, left, right: operand(), position: token.position };
+      }
+      return left;
+    } finally { depth = outer; }
+  };
+
+  const primary = (): RuleExpression => {
+    const token = peek();
+    if (token.kind === "number") {
+      next();
+      const value = parseFloat(token.text);
+      if (isOperator("%")) {
+        next();
+        return { kind: "number", value: value / 100, position: token.position };
+      }
+      return { kind: "number", value, position: token.position };
+    }
+    if (token.kind === "name" && !KEYWORDS.includes(token.text.toLowerCase())) {
+      next();
+      if (!isOperator("(")) return { kind: "name", name: token.text, position: token.position };
+      next();
+      const args: RuleExpression[] = [];
+      if (!isOperator(")")) {
+        args.push(nested(or));
+        while (isOperator(",")) { next(); args.push(nested(or)); }
+      }
+      expectOperator(")");
+      return { kind: "call", name: token.text, args, position: token.position };
+    }
+    if (isOperator("(")) {
+      next();
+      const inner = nested(or);
+      expectOperator(")");
+      return inner;
+    }
+    return fail(token.position, `expected a number, name or "(" but found ${describe(token)}`);
+  };
+
+  const unary = (): RuleExpression => {
+    if (!isOperator("-")) return primary();
+    const token = next();
+    return { kind: "unary", operator: "-", operand: nested(unary), position: token.position };
+  };
+
+  const product = binary(["*", "/"], unary);
+  const sum = binary(["+", "-"], product);
+
+  // Comparisons do not chain: a < b < c is an error rather than a surprise
+  const comparison = (): RuleExpression => {
+    const left = sum();
+    if (!COMPARISONS.some(isOperator)) return left;
+    const token = next();
+    const right = sum();
+    if (COMPARISONS.some(isOperator)) fail(peek().position, "comparisons cannot be chained; join them with and");
+    return { kind: "binary", operator: token.text as BinaryOperator, left, right, position: token.position };
+  };
+
+  const not = (): RuleExpression => {
+    if (!isWord("not")) return comparison();
+    const token = next();
+    return { kind: "unary", operator: "not", operand: nested(not), position: token.position };
+  };
+
+  const and = binary(["and"], not, true);
+  const or = binary(["or"], and, true);
+
+  const allocation = (): AllocationEntry[] => {
+    const entries: AllocationEntry[] = [];
+    while (peek().kind === "name") {
+      const asset = next();
+      const negative = isOperator("-");
+      if (negative) next();
+      const weight = peek();
+      if (weight.kind !== "number") fail(weight.position, `expected a weight after ${asset.text} but found ${describe(weight)}`);
+      next();
+      if (!isOperator("%")) fail(peek().position, `expected "%" after the weight of ${asset.text}`);
+      next();
+      entries.push({ asset: asset.text, weight: (negative ? -1 : 1) * parseFloat(weight.text) / 100, position: asset.position });
+    }
+    if (entries.length === 0) fail(peek().position, `expected an asset and weight after allocate but found ${describe(peek())}`);
+    return entries;
+  };
+
+  const rule = (): TradingRule => {
+    const start = peek();
+    let condition: RuleExpression | undefined;
+    if (isWord("when")) {
+      next();
+      condition = or();
+    } else if (isWord("otherwise")) {
+      next();
+    } else {
+      fail(start.position, `expected "when" or "otherwise" but found ${describe(start)}`);
+    }
+    if (!isWord("allocate")) fail(peek().position, `expected "allocate" but found ${describe(peek())}`);
+    next();
+    const entries = allocation();
+    if (peek().kind !== "newline" && peek().kind !== "end") fail(peek().position, `expected end of line but found ${describe(peek())}`);
+    return { condition, allocation: entries, position: start.position };
+  };
+
+  const rules: TradingRule[] = [];
+  while (peek().kind !== "end") {
+    if (peek().kind === "newline") { next(); continue; }
+    rules.push(rule());
+  }
+  if (rules.length === 0) fail({ line: 1, column: 1 }, "a program needs at least one rule");
+  return { rules };
+};
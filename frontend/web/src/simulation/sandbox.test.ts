@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { checkScript, scriptStrategy } from "./sandbox";
+import { MAX_NESTING } from "./scriptParser";
+import { isStrategyViolation } from "./strategy";
+import { testMarket } from "./testFixtures";
+
+const { market, portfolio } = testMarket();
+
+const violation = (body: string, limits = {}) => {
+  try { scriptStrategy(`function onTick(market) {\n${body}\n}`, "Script", "Script", limits).onTick(market, portfolio, {}); }
+  catch (e) { if (isStrategyViolation(e)) return e.violation; throw e; }
+  return undefined;
+};
+
+describe("script diagnostics", () => {
+  it("point syntax errors at their line and column", () => {
+    expect(checkScript("function onTick(market) { return 1 +; }")).toEqual([
+      { line: 1, column: 37, message: 'expected an expression but found ";"' }
+    ]);
+    expect(checkScript("function onTick(market) {\n  return { EQ: 1 \n}")).toEqual([
+      { line: 3, column: 2, message: 'expected "}" but found end of input' }
+    ]);
+  });
+
+  it("reject unsupported syntax and scripts without onTick", () => {
+    expect(checkScript("function onTick(market) {\n  return `x`;\n}")).toEqual([
+      { line: 2, column: 10, message: "template strings are not supported; join strings with +" }
+    ]);
+    expect(checkScript("function onTick(market) {\n  return null;\n}\nclass A {}")).toEqual([
+      { line: 4, column: 1, message: '"class" is not supported in strategy scripts' }
+    ]);
+    expect(checkScript("const x = 1;")).toEqual([
+      { line: 1, column: 1, message: "the script must define function onTick(market, portfolio)" }
+    ]);
+  });
+
+  it.each([
+    ["member chains", "market" + ".a".repeat(6000)],
+    ["call chains", "f" + "()".repeat(6000)],
+    ["index chains", "market" + "[0]".repeat(6000)],
+    ["operator chains", Array(6000).fill("1").join("+")]
+  ])("limit how deep %s nest", (_, expression) => {
+    expect(checkScript(`function onTick(market) {\n  return ${expression};\n}`)).toEqual([
+      { line: 2, column: expect.any(Number), message: `nested more than ${MAX_NESTING} levels deep` }
+    ]);
+  });
+});
+
+describe("script budgets", () => {
+  it("stop a round that runs too many steps", () => {
+    expect(violation("  while (true) {}", { steps: 1000 })).toEqual({ kind: "cpu", message: "used more than 1000 steps in one round", line: 2, column: 10 });
+  });
+
+  it("stop a round that allocates too much", () => {
+    expect(violation("  const xs = [];\n  for (let i = 0; i < 1000; i++) xs.push([1, 2, 3]);\n  return null;", { memory: 500 }))
+      .toEqual({ kind: "memory", message: "allocated more than 500 values in one round", line: 3, column: 49 });
+  });
+
+  it("stop calls nested too deep", () => {
+    expect(violation("  const f = n => f(n + 1);\n  return f(0);", { depth: 16 })).toMatchObject({ kind: "depth", message: "calls nested more than 16 deep" });
+  });
+
+  it("leave well-behaved scripts alone", () => {
+    expect(violation("  return { EQ: 0.6, BOND: 0.4 };", { steps: 1000, memory: 500, depth: 16 })).toBeUndefined();
+  });
+});
+
+describe("script host access", () => {
+  it.each(["window", "document", "fetch", "eval", "Function", "require", "process", "globalThis"])("rejects %s", name => {
+    expect(violation(`  return ${name};`)).toEqual({ kind: "api", message: `${name} is not available to strategies`, line: 2, column: 10 });
+  });
+});
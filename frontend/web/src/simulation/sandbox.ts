@@ -0,0 +1,538 @@
+// sandbox.ts
+// Runs user strategy scripts so they can reach nothing but the market and
+// their own fund. A script is interpreted, never handed to the JavaScript
+// engine, so window.ethereum, the network, timers and other funds' data do not
+// exist inside it: the only names it sees are its own and the API below, and
+// it works on copies of the market and portfolio. Each round the script runs
+// afresh under a budget of steps, allocations and call depth. The budgets are
+// counted rather than timed, so a round comes out the same on every machine.
+// Going over one, or failing in any other way, throws a violation and the fund
+// sits the round out.
+import { Allocation, ASSET_CLASSES, assetRecord } from "./assets";
+import { drawdown, ema, highest, last, lowest, momentum, rsi, sma, volatility, zScore } from "./indicators";
+import { MAX_PERIOD, resolveAsset } from "./ruleCompiler";
+import { isRuleError, RuleDiagnostic, SourcePosition } from "./ruleParser";
+import { parseScript, ScriptExpression, ScriptProgram, ScriptStatement } from "./scriptParser";
+import { isStrategyViolation, MarketView, PortfolioView, Strategy, StrategyDecision, strategyViolation, ViolationKind } from "./strategy";
+
+export interface SandboxLimits {
+  steps?: number; // statements and expressions evaluated per round; the CPU budget
+  memory?: number; // array elements, object fields and string characters created per round
+  depth?: number; // nested function calls
+}
+
+export const DEFAULT_SANDBOX_LIMITS: Required<SandboxLimits> = { steps: 200000, memory: 100000, depth: 64 };
+
+type ScriptObject = Map<string, Value>;
+
+interface ScriptFunction {
+  name: string;
+  invoke: (args: Value[]) => Value;
+}
+
+type Value = number | string | boolean | null | undefined | Value[] | ScriptObject | ScriptFunction;
+
+interface Binding {
+  value: Value;
+  constant: boolean;
+}
+
+interface Scope {
+  bindings: Map<string, Binding>;
+  parent?: Scope;
+}
+
+type Completion = { type: "return"; value: Value } | { type: "break" } | { type: "continue" } | undefined;
+
+// What scripts may call, for the editor's help
+export const SCRIPT_API: Record<string, string> = {
+  "onTick(market, portfolio)": "defined by the script; returns weights such as { EQ: 0.6, BOND: 0.4 }, or null to keep the fund's mix",
+  "market": "tick, time, dt (bar length in years), prices, returns, priceHistory, regime, regimeOdds, conditions, shortRate and halted",
+  "market.releases": "latest macro prints, oldest first: kind, tick, consensus, actual and surprise (standard deviations)",
+  "market.upcomingReleases": "macro releases due within the next month, soonest first: kind, tick and consensus",
+  "portfolio": "nav, cash, positions, weights, allocation, risk and leverage",
+  "ASSETS": "the asset class names",
+  "sma, ema, momentum, volatility, rsi, highest, lowest, zScore, drawdown (prices, period)": "indicators over a price history",
+  "last(prices)": "the latest price",
+  "Math": "abs, min, max, sqrt, log, exp, pow, floor, ceil, round, sign, PI, E",
+  "Object.keys, Object.values, Object.entries": "fields of an object",
+  "isFinite(x)": "whether x is a finite number",
+  "arrays": "length, map, filter, reduce, forEach, some, every, find, indexOf, includes, slice, concat, push, sort, reverse"
+};
+
+// Host names a script might reach for, reported as API violations. A fixed
+// list rather than the host's globals, so browser and Node say the same thing.
+const HOST_GLOBALS = [
+  "window", "self", "globalThis", "global", "document", "ethereum", "fetch", "XMLHttpRequest", "WebSocket",
+  "EventSource", "navigator", "location", "localStorage", "sessionStorage", "indexedDB", "caches", "postMessage",
+  "importScripts", "Worker", "setTimeout", "setInterval", "requestAnimationFrame", "eval", "Function", "require", "process"
+];
+
+const isFunction = (value: Value): value is ScriptFunction =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Map);
+
+const typeName = (value: Value) =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : value instanceof Map ? "an object" : isFunction(value) ? "a function" : typeof value === "undefined" ? "undefined" : `a ${typeof value}`;
+
+// Copies host data in, so nothing the script does can touch the real market
+const toValue = (value: unknown): Value => {
+  if (Array.isArray(value)) return value.map(toValue);
+  if (typeof value === "object" && value !== null) return new Map(Object.entries(value).map(([key, field]) => [key, toValue(field)]));
+  return value as Value;
+};
+
+const runScript = (program: ScriptProgram, market: MarketView, portfolio: PortfolioView, limits: Required<SandboxLimits>): Value => {
+  let steps = 0;
+  let memory = 0;
+  let depth = 0;
+  let position: SourcePosition = { line: 1, column: 1 };
+
+  const violate = (kind: ViolationKind, message: string): never => {
+    throw strategyViolation({ kind, message, ...position });
+  };
+  const step = (at: SourcePosition, cost = 1) => {
+    position = at;
+    steps += cost;
+    if (steps > limits.steps) violate("cpu", `used more than ${limits.steps} steps in one round`);
+  };
+  const allocate = (units: number) => {
+    memory += units;
+    if (memory > limits.memory) violate("memory", `allocated more than ${limits.memory} values in one round`);
+  };
+  const call = (fn: Value, args: Value[], role: string): Value => {
+    if (!isFunction(fn)) return violate("runtime", `${role} is ${typeName(fn)}, not a function`);
+    if (++depth > limits.depth) violate("depth", `calls nested more than ${limits.depth} deep`);
+    try { return fn.invoke(args); } finally { depth--; }
+  };
+
+  // Argument checks for the API; a wrong call is an API violation
+  const native = (name: string, invoke: (args: Value[]) => Value): ScriptFunction => ({ name, invoke });
+  const number = (args: Value[], i: number, name: string) => {
+    const value = args[i];
+    if (typeof value !== "number") return violate("api", `${name} expects a number as argument ${i + 1}, not ${typeName(value)}`);
+    return value;
+  };
+  const prices = (args: Value[], name: string) => {
+    const value = args[0];
+    if (!Array.isArray(value) || !value.every(price => typeof price === "number")) return violate("api", `${name} expects a list of prices as argument 1`);
+    step(position, value.length);
+    return value as number[];
+  };
+  const period = (args: Value[], name: string) => {
+    const value = number(args, 1, name);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PERIOD) violate("api", `${name} needs a whole period from 1 to ${MAX_PERIOD}`);
+    return value;
+  };
+  const indicator = (name: string, compute: (values: number[], length: number) => number) =>
+    native(name, args => compute(prices(args, name), period(args, name)));
+  const fields = (args: Value[], name: string) => {
+    const object = args[0];
+    if (!(object instanceof Map)) return violate("api", `${name} expects an object, not ${typeName(object)}`);
+    allocate(object.size);
+    return [...object];
+  };
+  const mathFunction = (name: string, compute: (...values: number[]) => number) =>
+    native(`Math.${name}`, args => compute(...args.map((_, i) => number(args, i, `Math.${name}`))));
+
+  const globals: Record<string, Value> = {
+    ASSETS: [...ASSET_CLASSES],
+    last: native("last", args => last(prices(args, "last"))),
+    sma: indicator("sma", sma),
+    ema: indicator("ema", ema),
+    momentum: indicator("momentum", momentum),
+    volatility: indicator("volatility", volatility),
+    rsi: indicator("rsi", rsi),
+    highest: indicator("highest", highest),
+    lowest: indicator("lowest", lowest),
+    zScore: indicator("zScore", zScore),
+    drawdown: indicator("drawdown", drawdown),
+    isFinite: native("isFinite", args => typeof args[0] === "number" && isFinite(args[0])),
+    Math: new Map<string, Value>([
+      ["abs", mathFunction("abs", Math.abs)],
+      ["min", mathFunction("min", Math.min)],
+      ["max", mathFunction("max", Math.max)],
+      ["sqrt", mathFunction("sqrt", Math.sqrt)],
+      ["log", mathFunction("log", Math.log)],
+      ["exp", mathFunction("exp", Math.exp)],
+      ["pow", mathFunction("pow", Math.pow)],
+      ["floor", mathFunction("floor", Math.floor)],
+      ["ceil", mathFunction("ceil", Math.ceil)],
+      ["round", mathFunction("round", Math.round)],
+      ["sign", mathFunction("sign", Math.sign)],
+      ["PI", Math.PI],
+      ["E", Math.E]
+    ]),
+    Object: new Map<string, Value>([
+      ["keys", native("Object.keys", args => fields(args, "Object.keys").map(([key]) => key))],
+      ["values", native("Object.values", args => fields(args, "Object.values").map(([, value]) => value))],
+      ["entries", native("Object.entries", args => { const entries = fields(args, "Object.entries"); allocate(entries.length * 2); return entries; })]
+    ])
+  };
+  const root: Scope = { bindings: new Map(Object.entries(globals).map(([name, value]) => [name, { value, constant: true }])) };
+
+  // Array methods are looked up by name here, never on the host array
+  const arrayMethod = (array: Value[], name: string): Value => {
+    const each = (args: Value[], visit: (item: Value, i: number) => boolean | void) => {
+      const fn = args[0];
+      for (let i = 0; i < array.length; i++) if (visit(call(fn, [array[i], i], `the callback of ${name}`), i)) return i;
+      return -1;
+    };
+    const copy = (values: Value[]) => { allocate(values.length); return values; };
+    switch (name) {
+      case "map": return native(name, args => { const out: Value[] = []; each(args, item => { out.push(item); }); return copy(out); });
+      case "filter": return native(name, args => { const out: Value[] = []; each(args, (keep, i) => { if (keep) out.push(array[i]); }); return copy(out); });
+      case "forEach": return native(name, args => { each(args, () => {}); return undefined; });
+      case "some": return native(name, args => each(args, found => !!found) >= 0);
+      case "every": return native(name, args => each(args, passed => !passed) < 0);
+      case "find": return native(name, args => { const i = each(args, found => !!found); return i >= 0 ? array[i] : undefined; });
+      case "reduce": return native(name, args => {
+        if (array.length === 0 && args.length < 2) violate("runtime", "reduce of an empty array needs a starting value");
+        let total = args.length >= 2 ? args[1] : array[0];
+        for (let i = args.length >= 2 ? 0 : 1; i < array.length; i++) total = call(args[0], [total, array[i], i], "the callback of reduce");
+        return total;
+      });
+      case "indexOf": return native(name, args => { step(position, array.length); return array.indexOf(args[0]); });
+      case "includes": return native(name, args => { step(position, array.length); return array.includes(args[0]); });
+      case "slice": return native(name, args => copy(array.slice(args[0] === undefined ? 0 : number(args, 0, "slice"), args[1] === undefined ? undefined : number(args, 1, "slice"))));
+      case "concat": return native(name, args => copy([...array, ...args.flatMap(other => Array.isArray(other) ? other : [other])]));
+      case "push": return native(name, args => { allocate(args.length); return array.push(...args); });
+      case "reverse": return native(name, () => { step(position, array.length); return array.reverse(); });
+      case "sort": return native(name, args => {
+        if (!isFunction(args[0])) violate("api", "sort needs a compare function such as (a, b) => a - b");
+        return array.sort((a, b) => {
+          const order = call(args[0], [a, b], "the compare function of sort");
+          if (typeof order !== "number") violate("runtime", "the compare function of sort must return a number");
+          return order as number;
+        });
+      });
+    }
+    return undefined;
+  };
+
+  const getProperty = (object: Value, key: Value): Value => {
+    if (object === null || object === undefined) return violate("runtime", `cannot read ${String(key)} of ${object}`);
+    if (typeof key !== "string" && typeof key !== "number") return violate("runtime", `a property name must be a string or number, not ${typeName(key)}`);
+    if (object instanceof Map) return object.get(String(key));
+    if (Array.isArray(object)) {
+      if (typeof key === "number") return Number.isInteger(key) && key >= 0 ? object[key] : undefined;
+      return key === "length" ? object.length : arrayMethod(object, key);
+    }
+    if (typeof object === "string") {
+      if (typeof key === "number") return Number.isInteger(key) && key >= 0 ? object[key] : undefined;
+      return key === "length" ? object.length : undefined;
+    }
+    return undefined;
+  };
+
+  const setProperty = (object: Value, key: Value, value: Value) => {
+    if (object instanceof Map && (typeof key === "string" || typeof key === "number")) {
+      if (!object.has(String(key))) allocate(1);
+      object.set(String(key), value);
+    } else if (Array.isArray(object) && typeof key === "number" && Number.isInteger(key) && key >= 0 && key <= object.length) {
+      if (key === object.length) allocate(1);
+      object[key] = value;
+    } else if (Array.isArray(object) && typeof key === "number") {
+      violate("runtime", `index ${key} is outside the array; push to grow it`);
+    } else {
+      violate("runtime", `cannot set ${String(key)} on ${typeName(object)}`);
+    }
+  };
+
+  const lookup = (scope: Scope, name: string): Binding => {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const binding = current.bindings.get(name);
+      if (binding) return binding;
+    }
+    if (HOST_GLOBALS.includes(name)) return violate("api", `${name} is not available to strategies`);
+    return violate("runtime", `${name} is not defined`);
+  };
+
+  const declare = (scope: Scope, name: string, value: Value, constant: boolean) => {
+    if (scope.bindings.has(name)) violate("runtime", `${name} is already declared`);
+    scope.bindings.set(name, { value, constant });
+  };
+
+  const child = (scope: Scope): Scope => ({ bindings: new Map(), parent: scope });
+
+  const closure = (fn: { name?: string; params: string[]; body: ScriptStatement[] | ScriptExpression }, scope: Scope): ScriptFunction => ({
+    name: fn.name ?? "anonymous",
+    invoke: args => {
+      const local = child(scope);
+      fn.params.forEach((param, i) => local.bindings.set(param, { value: args[i], constant: false }));
+      if (!Array.isArray(fn.body)) return evaluate(fn.body, local);
+      const completion = executeBlock(fn.body, local);
+      return completion?.type === "return" ? completion.value : undefined;
+    }
+  });
+
+  const arithmetic = (operator: string, left: Value, right: Value): Value => {
+    if (operator === "+" && (typeof left === "string" || typeof right === "string")) {
+      if (!["string", "number"].includes(typeof left) || !["string", "number"].includes(typeof right)) violate("runtime", `cannot add ${typeName(left)} and ${typeName(right)}`);
+      const joined = String(left) + String(right);
+      allocate(joined.length);
+      return joined;
+    }
+    if (["<", ">", "<=", ">="].includes(operator) && typeof left === "string" && typeof right === "string") {
+      switch (operator) {
+        case "<": return left < right;
+        case ">": return left > right;
+        case "<=": return left <= right;
+        default: return left >= right;
+      }
+    }
+    if (typeof left !== "number" || typeof right !== "number") return violate("runtime", `${operator} needs numbers, not ${typeName(left)} and ${typeName(right)}`);
+    switch (operator) {
+      case "+": return left + right;
+      case "-": return left - right;
+      case "*": return left * right;
+      case "/": return left / right;
+      case "%": return left % right;
+      case "**": return left ** right;
+      case "<": return left < right;
+      case ">": return left > right;
+      case "<=": return left <= right;
+      default: return left >= right;
+    }
+  };
+
+  // Reads and writes a variable, property or element, evaluating its parts once
+  const reference = (target: ScriptExpression, scope: Scope) => {
+    if (target.kind === "name") {
+      const binding = lookup(scope, target.name);
+      return {
+        get: () => binding.value,
+        set: (value: Value) => {
+          if (binding.constant) violate("runtime", `${target.name} is a constant`);
+          binding.value = value;
+        }
+      };
+    }
+    if (target.kind !== "member" && target.kind !== "index") return violate("runtime", "cannot assign to this expression");
+    const object = evaluate(target.object, scope);
+    const key = target.kind === "member" ? target.property : evaluate(target.index, scope);
+    return { get: () => getProperty(object, key), set: (value: Value) => setProperty(object, key, value) };
+  };
+
+  const evaluate = (expression: ScriptExpression, scope: Scope): Value => {
+    step(expression.position);
+    switch (expression.kind) {
+      case "number":
+      case "string":
+      case "literal":
+        return expression.value;
+      case "name":
+        return lookup(scope, expression.name).value;
+      case "array": {
+        const values = expression.elements.map(element => evaluate(element, scope));
+        allocate(values.length);
+        return values;
+      }
+      case "object": {
+        const object: ScriptObject = new Map();
+        for (const entry of expression.entries) object.set(entry.key, evaluate(entry.value, scope));
+        allocate(object.size);
+        return object;
+      }
+      case "member":
+        return getProperty(evaluate(expression.object, scope), expression.property);
+      case "index":
+        return getProperty(evaluate(expression.object, scope), evaluate(expression.index, scope));
+      case "call": {
+        const callee = evaluate(expression.callee, scope);
+        const args = expression.args.map(arg => evaluate(arg, scope));
+        const role = expression.callee.kind === "name" ? expression.callee.name : expression.callee.kind === "member" ? expression.callee.property : "the callee";
+        position = expression.position;
+        return call(callee, args, role);
+      }
+      case "unary": {
+        const operand = evaluate(expression.operand, scope);
+        if (expression.operator === "!") return !operand;
+        if (typeof operand !== "number") return violate("runtime", `${expression.operator} needs a number, not ${typeName(operand)}`);
+        return expression.operator === "-" ? -operand : operand;
+      }
+      case "binary": {
+        const { operator } = expression;
+        const left = evaluate(expression.left, scope);
+        switch (operator) {
+          case "&&": return left ? evaluate(expression.right, scope) : left;
+          case "||": return left ? left : evaluate(expression.right, scope);
+          case "??": return left ?? evaluate(expression.right, scope);
+        }
+        const right = evaluate(expression.right, scope);
+        switch (operator) {
+          case "==":
+          case "===":
+            return left === right;
+          case "!=":
+          case "!==":
+            return left !== right;
+        }
+        position = expression.position;
+        return arithmetic(operator, left, right);
+      }
+      case "conditional":
+        return evaluate(expression.test, scope) ? evaluate(expression.consequent, scope) : evaluate(expression.alternate, scope);
+      case "assign": {
+        const target = reference(expression.target, scope);
+        const value = expression.operator === "="
+          ? evaluate(expression.value, scope)
+          : arithmetic(expression.operator.slice(0, -1), target.get(), evaluate(expression.value, scope));
+        target.set(value);
+        return value;
+      }
+      case "update": {
+        const target = reference(expression.target, scope);
+        const before = target.get();
+        if (typeof before !== "number") return violate("runtime", `${expression.operator} needs a number, not ${typeName(before)}`);
+        const after = expression.operator === "++" ? before + 1 : before - 1;
+        target.set(after);
+        return expression.prefix ? after : before;
+      }
+      case "function":
+        return closure(expression, scope);
+    }
+  };
+
+  const loop = (body: ScriptStatement, scope: Scope): Completion | "stop" => {
+    const completion = execute(body, child(scope));
+    if (completion?.type === "break") return "stop";
+    if (completion?.type === "return") return completion;
+    return undefined;
+  };
+
+  const execute = (statement: ScriptStatement, scope: Scope): Completion => {
+    step(statement.position);
+    switch (statement.kind) {
+      case "expression":
+        evaluate(statement.expression, scope);
+        return;
+      case "declare":
+        for (const declaration of statement.declarations) {
+          declare(scope, declaration.name, declaration.init ? evaluate(declaration.init, scope) : undefined, statement.constant);
+        }
+        return;
+      case "function":
+        return; // declared when its block starts
+      case "if":
+        if (evaluate(statement.test, scope)) return execute(statement.consequent, child(scope));
+        return statement.alternate && execute(statement.alternate, child(scope));
+      case "block":
+        return executeBlock(statement.body, child(scope));
+      case "while":
+        while (evaluate(statement.test, scope)) {
+          const completion = loop(statement.body, scope);
+          if (completion === "stop") return;
+          if (completion) return completion;
+        }
+        return;
+      case "for": {
+        const outer = child(scope);
+        if (statement.init) execute(statement.init, outer);
+        while (!statement.test || evaluate(statement.test, outer)) {
+          const completion = loop(statement.body, outer);
+          if (completion === "stop") return;
+          if (completion) return completion;
+          if (statement.update) evaluate(statement.update, outer);
+        }
+        return;
+      }
+      case "forOf": {
+        const iterable = evaluate(statement.iterable, scope);
+        if (!Array.isArray(iterable)) return violate("runtime", `for...of needs an array, not ${typeName(iterable)}`);
+        for (let i = 0; i < iterable.length; i++) {
+          const item = child(scope);
+          item.bindings.set(statement.name, { value: iterable[i], constant: statement.constant });
+          step(statement.position);
+          const completion = loop(statement.body, item);
+          if (completion === "stop") return;
+          if (completion) return completion;
+        }
+        return;
+      }
+      case "return":
+        return { type: "return", value: statement.value && evaluate(statement.value, scope) };
+      case "break":
+        return { type: "break" };
+      case "continue":
+        return { type: "continue" };
+    }
+  };
+
+  // Function declarations are usable anywhere in their block, as in JavaScript
+  const executeBlock = (body: ScriptStatement[], scope: Scope): Completion => {
+    for (const statement of body) {
+      if (statement.kind === "function") declare(scope, statement.name, closure(statement, scope), false);
+    }
+    for (const statement of body) {
+      const completion = execute(statement, scope);
+      if (completion) return completion;
+    }
+    return undefined;
+  };
+
+  const global = child(root);
+  executeBlock(program.body, global);
+  const onTick = global.bindings.get("onTick");
+  if (!onTick || !isFunction(onTick.value)) return violate("syntax", "the script must define function onTick(market, portfolio)");
+  return call(onTick.value, [toValue(market), toValue(portfolio)], "onTick");
+};
+
+// The weights a script returned, or its fund's own mix for null
+const decision = (result: Value, portfolio: PortfolioView): StrategyDecision => {
+  if (result === null || result === undefined) return { kind: "weights", weights: portfolio.allocation };
+  if (!(result instanceof Map)) throw strategyViolation({ kind: "result", message: `onTick returned ${typeName(result)}; return weights such as { EQ: 0.6, BOND: 0.4 }, or null` });
+  const weights: Partial<Allocation> = {};
+  for (const [key, weight] of result) {
+    const asset = resolveAsset(key);
+    if (!asset) throw strategyViolation({ kind: "result", message: `onTick returned a weight for "${key}", which is not an asset` });
+    if (typeof weight !== "number" || !isFinite(weight)) throw strategyViolation({ kind: "result", message: `the weight of ${key} must be a finite number` });
+    weights[asset] = weight;
+  }
+  return { kind: "weights", weights };
+};
+
+const parsed = (source: string): ScriptProgram | RuleDiagnostic => {
+  try {
+    return parseScript(source);
+  } catch (e) {
+    if (isRuleError(e)) return e.diagnostics[0];
+    throw e;
+  }
+};
+
+const definesOnTick = (program: ScriptProgram) => program.body.some(statement => statement.kind === "function" && statement.name === "onTick");
+
+// Syntax problems in a script; empty when it parses and defines onTick
+export const checkScript = (source: string): RuleDiagnostic[] => {
+  const program = parsed(source);
+  if (!("body" in program)) return [program];
+  return definesOnTick(program) ? [] : [{ line: 1, column: 1, message: "the script must define function onTick(market, portfolio)" }];
+};
+
+// Never throws on a bad script: a script that does not parse is a syntax
+// violation in every round instead, so it only ever costs its own fund
+export const scriptStrategy = (source: string, id = "Script", label = "Custom Script", limits: SandboxLimits = {}): Strategy => {
+  const program = parsed(source);
+  const budget = { ...DEFAULT_SANDBOX_LIMITS, ...limits };
+  return {
+    id,
+    label,
+    description: "A strategy script run in the sandbox.",
+    defaultAllocation: assetRecord(() => 0),
+    defaultFuturesMode: "spot",
+    params: {},
+    onTick: (market, portfolio) => {
+      if (!("body" in program)) throw strategyViolation({ kind: "syntax", ...program });
+      let result: Value;
+      try {
+        result = runScript(program, market, portfolio, budget);
+      } catch (e) {
+        // Anything else going wrong in there, down to the host's stack running
+        // out, is still the script's fault
+        if (isStrategyViolation(e)) throw e;
+        throw strategyViolation({ kind: "runtime", message: e instanceof RangeError ? "ran out of stack" : String(e) });
+      }
+      return decision(result, portfolio);
+    }
+  };
+};
@@ -0,0 +1,495 @@
+// scriptParser.ts
+// Syntax of strategy scripts: the part of JavaScript a strategy needs and
+// nothing that reaches outside it. There is no this, new, class, import,
+// try, regular expression or template string; objects and arrays are written
+// as literals. A script defines onTick(market, portfolio) and returns weights:
+//
+//   function onTick(market, portfolio) {
+//     const prices = market.priceHistory.equities;
+//     if (sma(prices, 20) > sma(prices, 50)) return { EQ: 0.6, BOND: 0.4 };
+//     return { EQ: 0.3, BOND: 0.5 };
+//   }
+//
+// This module only turns text into a tree; the sandbox runs it.
+import { ruleError, SourcePosition } from "./ruleParser";
+
+export type ScriptOperator =
+  | "+" | "-" | "*" | "/" | "%" | "**"
+  | "<" | ">" | "<=" | ">=" | "==" | "!=" | "===" | "!=="
+  | "&&" | "||" | "??";
+
+export type AssignmentOperator = "=" | "+=" | "-=" | "*=" | "/=" | "%=";
+
+export type ScriptExpression =
+  | { kind: "number"; value: number; position: SourcePosition }
+  | { kind: "string"; value: string; position: SourcePosition }
+  | { kind: "literal"; value: boolean | null | undefined; position: SourcePosition }
+  | { kind: "name"; name: string; position: SourcePosition }
+  | { kind: "array"; elements: ScriptExpression[]; position: SourcePosition }
+  | { kind: "object"; entries: { key: string; value: ScriptExpression }[]; position: SourcePosition }
+  | { kind: "member"; object: ScriptExpression; property: string; position: SourcePosition }
+  | { kind: "index"; object: ScriptExpression; index: ScriptExpression; position: SourcePosition }
+  | { kind: "call"; callee: ScriptExpression; args: ScriptExpression[]; position: SourcePosition }
+  | { kind: "unary"; operator: "-" | "+" | "!"; operand: ScriptExpression; position: SourcePosition }
+  | { kind: "binary"; operator: ScriptOperator; left: ScriptExpression; right: ScriptExpression; position: SourcePosition }
+  | { kind: "conditional"; test: ScriptExpression; consequent: ScriptExpression; alternate: ScriptExpression; position: SourcePosition }
+  | { kind: "assign"; operator: AssignmentOperator; target: ScriptExpression; value: ScriptExpression; position: SourcePosition }
+  | { kind: "update"; operator: "++" | "--"; prefix: boolean; target: ScriptExpression; position: SourcePosition }
+  | { kind: "function"; name?: string; params: string[]; body: ScriptStatement[] | ScriptExpression; position: SourcePosition };
+
+export interface ScriptDeclaration {
+  name: string;
+  init?: ScriptExpression;
+  position: SourcePosition;
+}
+
+export type ScriptStatement =
+  | { kind: "expression"; expression: ScriptExpression; position: SourcePosition }
+  | { kind: "declare"; constant: boolean; declarations: ScriptDeclaration[]; position: SourcePosition }
+  | { kind: "function"; name: string; params: string[]; body: ScriptStatement[]; position: SourcePosition }
+  | { kind: "if"; test: ScriptExpression; consequent: ScriptStatement; alternate?: ScriptStatement; position: SourcePosition }
+  | { kind: "for"; init?: ScriptStatement; test?: ScriptExpression; update?: ScriptExpression; body: ScriptStatement; position: SourcePosition }
+  | { kind: "forOf"; constant: boolean; name: string; iterable: ScriptExpression; body: ScriptStatement; position: SourcePosition }
+  | { kind: "while"; test: ScriptExpression; body: ScriptStatement; position: SourcePosition }
+  | { kind: "return"; value?: ScriptExpression; position: SourcePosition }
+  | { kind: "break"; position: SourcePosition }
+  | { kind: "continue"; position: SourcePosition }
+  | { kind: "block"; body: ScriptStatement[]; position: SourcePosition };
+
+export interface ScriptProgram {
+  body: ScriptStatement[];
+}
+
+type TokenKind = "number" | "string" | "name" | "punctuator" | "end";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  value?: number | string;
+  position: SourcePosition;
+  newlineBefore: boolean; // for statements ended by a line break
+}
+
+// Longest script accepted, and deepest nesting of statements and expressions
+export const MAX_SCRIPT_LENGTH = 20000;
+export const MAX_NESTING = 64;
+
+const PUNCTUATORS = [
+  "===", "!==", "**", "=>", "<=", ">=", "==", "!=", "&&", "||", "??", "++", "--", "+=", "-=", "*=", "/=", "%=",
+  "+", "-", "*", "/", "%", "<", ">", "=", "!", "?", ":", ".", ",", ";", "(", ")", "[", "]", "{", "}"
+];
+const ASSIGNMENTS = ["=", "+=", "-=", "*=", "/=", "%="];
+const PRECEDENCE: Record<string, number> = {
+  "??": 1, "||": 1, "&&": 2,
+  "==": 3, "!=": 3, "===": 3, "!==": 3,
+  "<": 4, ">": 4, "<=": 4, ">=": 4,
+  "+": 5, "-": 5, "*": 6, "/": 6, "%": 6, "**": 7
+};
+const KEYWORDS = ["function", "const", "let", "if", "else", "for", "while", "return", "break", "continue", "true", "false", "null", "undefined"];
+// JavaScript a script may not use, named so the error says why
+const UNSUPPORTED = [
+  "this", "new", "class", "import", "export", "with", "delete", "typeof", "instanceof", "in", "void", "yield", "await",
+  "async", "try", "catch", "finally", "throw", "switch", "case", "default", "do", "var", "debugger", "super", "extends"
+];
+
+const NUMBER = /(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y;
+const NAME = /[A-Za-z_$][A-Za-z0-9_$]*/y;
+const STRING = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/y;
+const SPACE = /[ \t\r\n]+/y;
+const LINE_COMMENT = /\/\/[^\n]*/y;
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//y;
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r" };
+
+const fail = (position: SourcePosition, message: string): never => {
+  throw ruleError([{ ...position, message }]);
+};
+
+const describe = (token: Token) => token.kind === "end" ? "end of input" : `"${token.text}"`;
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+  let newlineBefore = false;
+
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(source)?.[0];
+  };
+  const advance = (length: number) => {
+    for (const char of source.slice(i, i + length)) {
+      if (char === "\n") { line++; column = 1; newlineBefore = true; }
+      else column++;
+    }
+    i += length;
+  };
+  const push = (kind: TokenKind, text: string, value?: number | string) => {
+    tokens.push({ kind, text, value, position: { line, column }, newlineBefore });
+    newlineBefore = false;
+    advance(text.length);
+  };
+
+  while (i < source.length) {
+    const skipped = match(SPACE) ?? match(LINE_COMMENT) ?? match(BLOCK_COMMENT);
+    if (skipped) { advance(skipped.length); continue; }
+    if (source.startsWith("/*", i)) fail({ line, column }, "comment is never closed");
+    const number = match(NUMBER);
+    if (number) { push("number", number, parseFloat(number)); continue; }
+    const name = match(NAME);
+    if (name) { push("name", name); continue; }
+    const string = match(STRING);
+    if (string) { push("string", string, string.slice(1, -1).replace(/\\(.)/g, (_, char: string) => ESCAPES[char] ?? char)); continue; }
+    if (source[i] === "\"" || source[i] === "'") fail({ line, column }, "string is never closed");
+    if (source[i] === "`") fail({ line, column }, "template strings are not supported; join strings with +");
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+    if (!punctuator) fail({ line, column }, `unexpected character "${source[i]}"`);
+    push("punctuator", punctuator!);
+  }
+  tokens.push({ kind: "end", text: "", position: { line, column }, newlineBefore: true });
+  return tokens;
+};
+
+// Recursive descent for statements, precedence climbing for binary operators
+export const parseScript = (source: string): ScriptProgram => {
+  if (source.length > MAX_SCRIPT_LENGTH) fail({ line: 1, column: 1 }, `scripts are limited to ${MAX_SCRIPT_LENGTH} characters`);
+  const tokens = tokenize(source);
+  let at = 0;
+  let depth = 0;
+  let loops = 0; // enclosing loops in the current function
+  let functions = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(at + offset, tokens.length - 1)];
+  const next = () => tokens[at++];
+  const isPunctuator = (text: string, offset = 0) => peek(offset).kind === "punctuator" && peek(offset).text === text;
+  const isWord = (word: string, offset = 0) => peek(offset).kind === "name" && peek(offset).text === word;
+  const expect = (text: string) => {
+    if (!isPunctuator(text)) fail(peek().position, `expected "${text}" but found ${describe(peek())}`);
+    return next();
+  };
+  const deeper = (position: SourcePosition) => {
+    if (++depth > MAX_NESTING) fail(position, `nested more than ${MAX_NESTING} levels deep`);
+  };
+  const nested = <T>(parse: () => T): T => {
+    deeper(peek().position);
+    try { return parse(); } finally { depth--; }
+  };
+
+  const identifier = (role: string) => {
+    const token = peek();
+    if (token.kind !== "name") fail(token.position, `expected ${role} but found ${describe(token)}`);
+    if (KEYWORDS.includes(token.text) || UNSUPPORTED.includes(token.text)) fail(token.position, `"${token.text}" cannot be used as ${role}`);
+    return next().text;
+  };
+
+  const isAssignable = (expression: ScriptExpression) => expression.kind === "name" || expression.kind === "member" || expression.kind === "index";
+
+  const params = () => {
+    expect("(");
+    const names: string[] = [];
+    if (!isPunctuator(")")) {
+      names.push(identifier("a parameter name"));
+      while (isPunctuator(",")) { next(); names.push(identifier("a parameter name")); }
+    }
+    expect(")");
+    return names;
+  };
+
+  // Loops and returns are checked against the function they are in
+  const functionBody = (): ScriptStatement[] => {
+    const outerLoops = loops;
+    loops = 0;
+    functions++;
+    try { return block(); } finally { loops = outerLoops; functions--; }
+  };
+
+  const arrow = (names: string[], position: SourcePosition): ScriptExpression => {
+    expect("=>");
+    const body = isPunctuator("{") ? functionBody() : assignment();
+    return { kind: "function", params: names, body, position };
+  };
+
+  // ( a, b ) => ... rather than a parenthesised expression
+  const isArrowAhead = () => {
+    let nesting = 0;
+    for (let j = at; j < tokens.length; j++) {
+      const token = tokens[j];
+      if (token.kind !== "punctuator") continue;
+      if (token.text === "(") nesting++;
+      else if (token.text === ")" && --nesting === 0) return tokens[j + 1]?.kind === "punctuator" && tokens[j + 1].text === "=>";
+    }
+    return false;
+  };
+
+  const primary = (): ScriptExpression => {
+    const token = peek();
+    const { position } = token;
+    if (token.kind === "number") { next(); return { kind: "number", value: token.value as number, position }; }
+    if (token.kind === "string") { next(); return { kind: "string", value: token.value as string, position }; }
+    if (token.kind === "name") {
+      switch (token.text) {
+        case "true": next(); return { kind: "literal", value: true, position };
+        case "false": next(); return { kind: "literal", value: false, position };
+        case "null": next(); return { kind: "literal", value: null, position };
+        case "undefined": next(); return { kind: "literal", value: undefined, position };
+        case "function": {
+          next();
+          const name = peek().kind === "name" ? identifier("a function name") : undefined;
+          return { kind: "function", name, params: params(), body: functionBody(), position };
+        }
+      }
+      if (UNSUPPORTED.includes(token.text)) fail(position, `"${token.text}" is not supported in strategy scripts`);
+      if (KEYWORDS.includes(token.text)) fail(position, `expected an expression but found ${describe(token)}`);
+      next();
+      if (isPunctuator("=>")) return arrow([token.text], position);
+      return { kind: "name", name: token.text, position };
+    }
+    if (isPunctuator("(")) {
+      if (isArrowAhead()) return arrow(params(), position);
+      next();
+      const inner = assignment();
+      expect(")");
+      return inner;
+    }
+    if (isPunctuator("[")) {
+      next();
+      const elements: ScriptExpression[] = [];
+      while (!isPunctuator("]")) {
+        elements.push(assignment());
+        if (!isPunctuator("]")) expect(",");
+      }
+      next();
+      return { kind: "array", elements, position };
+    }
+    if (isPunctuator("{")) {
+      next();
+      const entries: { key: string; value: ScriptExpression }[] = [];
+      while (!isPunctuator("}")) {
+        const key = peek();
+        if (key.kind !== "name" && key.kind !== "string" && key.kind !== "number") fail(key.position, `expected a property name but found ${describe(key)}`);
+        next();
+        const name = key.kind === "name" ? key.text : String(key.value);
+        if (isPunctuator(":")) {
+          next();
+          entries.push({ key: name, value: assignment() });
+        } else {
+          if (key.kind !== "name") fail(peek().position, `expected ":" after the property ${name}`);
+          entries.push({ key: name, value: { kind: "name", name, position: key.position } });
+        }
+        if (!isPunctuator("}")) expect(",");
+      }
+      next();
+      return { kind: "object", entries, position };
+    }
+    if (token.kind === "punctuator" && token.text === "/") fail(position, "regular expressions are not supported");
+    return fail(position, `expected an expression but found ${describe(token)}`);
+  };
+
+  // Each member, index or call of a chain puts the expression before it a
+  // level deeper
+  const postfix = (): ScriptExpression => {
+    let expression = primary();
+    const outer = depth;
+    try {
+      for (;;) {
+        const token = peek();
+        if (isPunctuator(".") || isPunctuator("[") || isPunctuator("(")) deeper(token.position);
+        if (isPunctuator(".")) {
+          next();
+          const property = peek();
+          if (property.kind !== "name") fail(property.position, `expected a property name after "." but found ${describe(property)}`);
+          next();
+          expression = { kind: "member", object: expression, property: property.text, position: token.position };
+        } else if (isPunctuator("[")) {
+          next();
+          const index = assignment();
+          expect("]");
+          expression = { kind: "index", object: expression, index, position: token.position };
+        } else if (isPunctuator("(")) {
+          next();
+          const args: ScriptExpression[] = [];
+          while (!isPunctuator(")")) {
+            args.push(assignment());
+            if (!isPunctuator(")")) expect(",");
+          }
+          next();
+          expression = { kind: "call", callee: expression, args, position: token.position };
+        } else if ((isPunctuator("++") || isPunctuator("--")) && !token.newlineBefore) {
+          if (!isAssignable(expression)) fail(token.position, `${token.text} needs a variable, property or element`);
+          next();
+          return { kind: "update", operator: token.text as "++" | "--", prefix: false, target: expression, position: token.position };
+        } else {
+          return expression;
+        }
+      }
+    } finally { depth = outer; }
+  };
+
+  const unary = (): ScriptExpression => nested(() => {
+    const token = peek();
+    if (isPunctuator("-") || isPunctuator("+") || isPunctuator("!")) {
+      next();
+      return { kind: "unary", operator: token.text as "-" | "+" | "!", operand: unary(), position: token.position };
+    }
+    if (isPunctuator("++") || isPunctuator("--")) {
+      next();
+      const target = unary();
+      if (!isAssignable(target)) fail(token.position, `${token.text} needs a variable, property or element`);
+      return { kind: "update", operator: token.text as "++" | "--", prefix: true, target, position: token.position };
+    }
+    return postfix();
+  });
+
+  // So does each operator of a chain, for the operands before it
+  const binary = (minimum: number): ScriptExpression => {
+    let left = unary();
+    const outer = depth;
+    try {
+      for (;;) {
+        const token = peek();
+        const precedence = token.kind === "punctuator" ? PRECEDENCE[token.text] : undefined;
+        if (precedence === undefined || precedence < minimum) return left;
+        next();
+        deeper(token.position);
+        // ** groups to the right, everything else to the left
+        const right = binary(token.text === "**" ? precedence : precedence + 1);
+        left = { kind: "binary", operator: token.text as ScriptOperator, left, right, position: token.position };
+      }
+    } finally { depth = outer; }
+  };
+
+  const conditional = (): ScriptExpression => {
+    const test = binary(1);
+    if (!isPunctuator("?")) return test;
+    const { position } = next();
+    const consequent = assignment();
+    expect(":");
+    return { kind: "conditional", test, consequent, alternate: assignment(), position };
+  };
+
+  const assignment = (): ScriptExpression => nested(() => {
+    const target = conditional();
+    const token = peek();
+    if (token.kind !== "punctuator" || !ASSIGNMENTS.includes(token.text)) return target;
+    if (!isAssignable(target)) fail(token.position, "can only assign to a variable, property or element");
+    next();
+    return { kind: "assign", operator: token.text as AssignmentOperator, target, value: assignment(), position: token.position };
+  });
+
+  // A statement ends at a semicolon, a line break, a closing brace or the end
+  const terminate = <T extends ScriptStatement>(statement: T): T => {
+    if (isPunctuator(";")) next();
+    else if (!isPunctuator("}") && !peek().newlineBefore) fail(peek().position, `expected ";" or end of line but found ${describe(peek())}`);
+    return statement;
+  };
+
+  const declaration = (): ScriptStatement => {
+    const { position, text } = next();
+    const constant = text === "const";
+    const declarations: ScriptDeclaration[] = [];
+    do {
+      if (declarations.length > 0) next();
+      const start = peek().position;
+      const name = identifier("a variable name");
+      let init: ScriptExpression | undefined;
+      if (isPunctuator("=")) { next(); init = assignment(); }
+      else if (constant) fail(peek().position, `const ${name} needs a value`);
+      declarations.push({ name, init, position: start });
+    } while (isPunctuator(","));
+    return { kind: "declare", constant, declarations, position };
+  };
+
+  const loopBody = (): ScriptStatement => {
+    loops++;
+    try { return statement(); } finally { loops--; }
+  };
+
+  const forStatement = (position: SourcePosition): ScriptStatement => {
+    expect("(");
+    if ((isWord("const") || isWord("let")) && isWord("of", 2)) {
+      const constant = next().text === "const";
+      const name = identifier("a variable name");
+      next();
+      const iterable = assignment();
+      expect(")");
+      return { kind: "forOf", constant, name, iterable, body: loopBody(), position };
+    }
+    let init: ScriptStatement | undefined;
+    if (isWord("const") || isWord("let")) init = declaration();
+    else if (!isPunctuator(";")) init = { kind: "expression", expression: assignment(), position: peek().position };
+    expect(";");
+    const test = isPunctuator(";") ? undefined : assignment();
+    expect(";");
+    const update = isPunctuator(")") ? undefined : assignment();
+    expect(")");
+    return { kind: "for", init, test, update, body: loopBody(), position };
+  };
+
+  const statement = (): ScriptStatement => nested(() => {
+    const token = peek();
+    const { position } = token;
+    if (isPunctuator("{")) return { kind: "block", body: block(), position };
+    if (isPunctuator(";")) { next(); return { kind: "block", body: [], position }; }
+    if (token.kind === "name") {
+      switch (token.text) {
+        case "const":
+        case "let":
+          return terminate(declaration());
+        case "function": {
+          next();
+          const name = identifier("a function name");
+          return { kind: "function", name, params: params(), body: functionBody(), position };
+        }
+        case "if": {
+          next();
+          expect("(");
+          const test = assignment();
+          expect(")");
+          const consequent = statement();
+          if (!isWord("else")) return { kind: "if", test, consequent, position };
+          next();
+          return { kind: "if", test, consequent, alternate: statement(), position };
+        }
+        case "for":
+          next();
+          return forStatement(position);
+        case "while": {
+          next();
+          expect("(");
+          const test = assignment();
+          expect(")");
+          return { kind: "while", test, body: loopBody(), position };
+        }
+        case "return": {
+          next();
+          if (functions === 0) fail(position, "return is only allowed inside a function");
+          if (isPunctuator(";") || isPunctuator("}") || peek().newlineBefore) return terminate({ kind: "return", position });
+          return terminate({ kind: "return", value: assignment(), position });
+        }
+        case "break":
+        case "continue":
+          next();
+          if (loops === 0) fail(position, `${token.text} is only allowed inside a loop`);
+          return terminate(token.text === "break" ? { kind: "break", position } : { kind: "continue", position });
+        case "else":
+          fail(position, "else without a matching if");
+      }
+    }
+    return terminate({ kind: "expression", expression: assignment(), position });
+  });
+
+  const block = (): ScriptStatement[] => {
+    expect("{");
+    const body: ScriptStatement[] = [];
+    while (!isPunctuator("}")) {
+      if (peek().kind === "end") fail(peek().position, "expected \"}\" but found end of input");
+      body.push(statement());
+    }
+    next();
+    return body;
+  };
+
+  const body: ScriptStatement[] = [];
+  while (peek().kind !== "end") body.push(statement());
+  return { body };
+};
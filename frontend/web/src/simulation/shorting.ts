@@ -0,0 +1,82 @@
+// shorting.ts
+// Short selling. Shorts borrow from a lending pool sized off each asset's
+// turnover; the fuller the pool, the harder the asset is to borrow, the higher
+// the daily fee and the likelier lenders recall. A crowded short also drifts
+// upward as the market leans against it, which is what squeezes the shorts.
+import { Allocation, ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { chanceIn } from "./clock";
+import { Holdings } from "./portfolio";
+import { Rng } from "./rng";
+
+export interface BorrowParams {
+  hardToBorrow: Record<AssetClass, number>; // baseline level in [0, 1] with no short interest
+  baseFee: number; // annual fee on an easy borrow
+  maxFee: number; // annual fee once fully hard to borrow
+  lendableDays: number; // lending pool size, in trading days of volume
+  recallProbability: number; // per trading day, for an easy borrow
+  recallCrowding: number; // multiplies the recall probability at full hard-to-borrow
+  squeezeThreshold: number; // utilisation above which shorts get squeezed
+  squeezeStrength: number; // log return per trading day at full squeeze
+}
+
+export interface BorrowState {
+  utilization: number; // short interest over the lending pool
+  hardToBorrow: number;
+  feeRate: number; // annual
+}
+
+// Short quantities (positive numbers) each fund reported at its last settlement
+export type ShortBook = Record<string, Partial<Record<AssetClass, number>>>;
+
+export const DEFAULT_BORROW: BorrowParams = {
+  hardToBorrow: { equities: 0.1, govBonds: 0.02, credit: 0.3, commodities: 0.05, fx: 0, crypto: 0.5 },
+  baseFee: 0.003,
+  maxFee: 0.3,
+  lendableDays: 20,
+  recallProbability: 0.002,
+  recallCrowding: 10,
+  squeezeThreshold: 0.5,
+  squeezeStrength: 0.01
+};
+
+export const shortInterest = (shorts: ShortBook): Record<AssetClass, number> =>
+  assetRecord(c => Object.values(shorts).reduce((sum, fund) => sum + (fund[c] ?? 0), 0));
+
+// Fees grow with the square of the hard-to-borrow level, so only crowded or
+// scarce names get expensive. Volumes are per tick of `days` trading days.
+export const borrowState = (params: BorrowParams, asset: AssetClass, shortQuantity: number, price: number, volume: number, days = 1): BorrowState => {
+  const pool = volume / days * params.lendableDays;
+  const utilization = pool > 0 ? shortQuantity * price / pool : 0;
+  const hardToBorrow = Math.min(1, params.hardToBorrow[asset] + utilization * (1 - params.hardToBorrow[asset]));
+  return { utilization, hardToBorrow, feeRate: params.baseFee + (params.maxFee - params.baseFee) * hardToBorrow * hardToBorrow };
+};
+
+export const borrowStates = (
+  params: BorrowParams,
+  shorts: ShortBook,
+  prices: Record<AssetClass, number>,
+  volumes: Record<AssetClass, number>,
+  days = 1
+): Record<AssetClass, BorrowState> => {
+  const interest = shortInterest(shorts);
+  return assetRecord(c => borrowState(params, c, interest[c], prices[c], volumes[c], days));
+};
+
+// Ramps from nothing at the threshold to full strength once the pool is out
+export const squeezeReturn = (params: BorrowParams, borrow: BorrowState, days = 1) =>
+  params.squeezeStrength * days * Math.min(1, Math.max(0, (borrow.utilization - params.squeezeThreshold) / (1 - params.squeezeThreshold)));
+
+// One draw per asset, whether or not anyone is short, so the stream does not
+// depend on what funds hold
+export const drawRecalls = (params: BorrowParams, borrow: Record<AssetClass, BorrowState>, rng: Rng, days = 1): AssetClass[] =>
+  ASSET_CLASSES.filter(c => rng.next() < chanceIn(Math.min(1, params.recallProbability * (1 + params.recallCrowding * borrow[c].hardToBorrow)), days));
+
+export const borrowFee = (holdings: Holdings, prices: Record<AssetClass, number>, borrow: Record<AssetClass, BorrowState>, dt: number) =>
+  ASSET_CLASSES.reduce((sum, c) => sum + Math.max(0, -holdings.positions[c]) * prices[c] * borrow[c].feeRate * dt, 0);
+
+export const fundShorts = (holdings: Holdings): Partial<Record<AssetClass, number>> =>
+  Object.fromEntries(ASSET_CLASSES.filter(c => holdings.positions[c] < 0).map(c => [c, -holdings.positions[c]]));
+
+// A recalled borrow has to be returned: the fund may not be short that asset this tick
+export const coverRecalled = (target: Allocation, recalls: AssetClass[]): Allocation =>
+  assetRecord(c => recalls.includes(c) ? Math.max(0, target[c]) : target[c]);
@@ -0,0 +1,9 @@
+// simulationNodeWorker.ts
+// worker_threads entry: serves simulation jobs from the parent thread over the
+// same protocol as the Web Worker. Talk to it with
+// createSimulationClient(nodePort(new Worker(...))).
+import { parentPort } from "worker_threads";
+import { nodePort, serveSimulations, SimulationRequest, SimulationResponse } from "./workerProtocol";
+
+if (!parentPort) throw new Error("simulationNodeWorker must run inside a worker thread");
+serveSimulations(nodePort<SimulationRequest, SimulationResponse>(parentPort));
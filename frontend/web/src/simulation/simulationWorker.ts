@@ -0,0 +1,6 @@
+// simulationWorker.ts
+// Web Worker entry: serves simulation jobs from the page. Start it with
+// new Worker(new URL("./simulationWorker.ts", import.meta.url), { type: "module" }).
+import { serveSimulations, SimulationRequest, SimulationResponse, webPort } from "./workerProtocol";
+
+serveSimulations(webPort<SimulationRequest, SimulationResponse>(self));
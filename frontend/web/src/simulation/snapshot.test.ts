@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CLOCK } from "./clock";
+import { stepFunds } from "./fundStep";
+import { DEFAULT_MARGIN } from "./margin";
+import { createMarketEngine, MarketEngineConfig } from "./marketEngine";
+import { DEFAULT_OVERLAY } from "./options";
+import { createSnapshot, parseSnapshot, restoreSnapshot, serializeSnapshot, SimulationSnapshot, SNAPSHOT_VERSION } from "./snapshot";
+import { testFund } from "./testFixtures";
+
+const fund = (id: string, strategy: string) => testFund(id, strategy, { optionOverlay: { ...DEFAULT_OVERLAY, protectivePuts: true } });
+
+// A market some way into its run, with funds that have traded
+const running = (config: MarketEngineConfig, ticks = 60) => {
+  const engine = createMarketEngine(config);
+  let round = stepFunds(engine, engine.initialState(), [fund("a", "Quant"), fund("b", "Macro")]);
+  for (let i = 1; i < ticks; i++) round = stepFunds(engine, engine.step(round.state), round.funds);
+  return { engine, ...round };
+};
+
+const edit = (text: string, change: (snapshot: SimulationSnapshot) => void) => {
+  const snapshot: SimulationSnapshot = JSON.parse(text);
+  change(snapshot);
+  return JSON.stringify(snapshot);
+};
+
+// For documents the snapshot types do not allow
+const set = (target: object, values: object) => Object.assign(target, values);
+const drop = (target: object, key: string) => Reflect.deleteProperty(target, key);
+
+describe("snapshots", () => {
+  it("restore to a market and funds that step exactly like the originals", () => {
+    const config = { seed: 7, clock: { ...DEFAULT_CLOCK, granularity: "intraday" as const } };
+    const { engine, state, funds } = running(config);
+    const text = serializeSnapshot(createSnapshot(config, state, funds));
+    const restored = restoreSnapshot(parseSnapshot(text));
+    expect(serializeSnapshot(createSnapshot(restored.engine.config, restored.state, restored.funds))).toBe(text);
+
+    const original = stepFunds(engine, engine.step(state), funds);
+    const resumed = stepFunds(restored.engine, restored.engine.step(restored.state), restored.funds);
+    expect(JSON.stringify(resumed)).toBe(JSON.stringify(original));
+  });
+
+  it("migrate version 1 tick counts into trading days at the snapshot's tick length", () => {
+    const config = { seed: 3, clock: { ...DEFAULT_CLOCK, granularity: "weekly" as const }, margin: DEFAULT_MARGIN };
+    const { state, funds } = running(config, 5);
+    const v1 = edit(serializeSnapshot(createSnapshot(config, state, funds)), snapshot => {
+      snapshot.version = 1;
+      set(snapshot.config.margin!, { callGraceTicks: 2 });
+      drop(snapshot.config.margin!, "callGraceDays");
+      for (const fund of snapshot.funds) {
+        set(fund.optionOverlay, { tenorTicks: 13 });
+        drop(fund.optionOverlay, "tenorDays");
+      }
+    });
+
+    const migrated = parseSnapshot(v1);
+    expect(migrated.version).toBe(SNAPSHOT_VERSION);
+    expect(migrated.config.margin).toEqual({ ...DEFAULT_MARGIN, callGraceDays: 10 });
+    expect(migrated.funds.map(fund => fund.optionOverlay.tenorDays)).toEqual([65, 65]);
+    expect(migrated.funds[0].optionOverlay).not.toHaveProperty("tenorTicks");
+  });
+
+  describe("reject", () => {
+    const config = { seed: 11 };
+    const { state, funds } = running(config, 30);
+    const text = serializeSnapshot(createSnapshot(config, state, funds));
+
+    it.each([
+      ["text that is not JSON", "{", /not JSON/],
+      ["other JSON documents", "{}", /not a simulation snapshot/],
+      ["versions newer than the build", edit(text, s => { s.version = SNAPSHOT_VERSION + 1; }), /newer than this build supports/],
+      ["a missing version", edit(text, s => { drop(s, "version"); }), /missing format version/],
+      ["a negative tick", edit(text, s => { s.state.tick = -1; }), /tick must be a non-negative integer/],
+      ["a state from another seed", edit(text, s => { s.config.seed = 12; }), /not produced by this config's seed/],
+      ["an event that ends before it starts", edit(text, s => { s.state.events = [{ id: "e", kind: "pandemic", startTick: 5, endTick: 5 }]; }), /events must each have/],
+      ["a halt of an unknown asset", edit(text, s => { set(s.state, { halts: [{ id: "h", scope: "gold", startTick: 1, endTick: 3, move: -0.1 }] }); }), /halts must each have/],
+      ["a book in the wrong asset", edit(text, s => { s.state.exchange.books.fx.asset = "crypto"; }), /order book of fx is missing/],
+      ["a sell resting among the bids", edit(text, s => { s.state.exchange.books.equities.bids[0].side = "sell"; }), /bids of equities must be limit buys/],
+      ["a fund without cash", edit(text, s => { drop(s.funds[0].holdings, "cash"); }), /cash of fund a must be a number/],
+      ["duplicate fund ids", edit(text, s => { s.funds[1].id = "a"; }), /fund ids must be unique/]
+    ])("%s", (_, input, message) => {
+      expect(() => parseSnapshot(input)).toThrow(message);
+    });
+  });
+});
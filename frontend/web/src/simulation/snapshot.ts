@@ -0,0 +1,222 @@
+// snapshot.ts
+// Saved simulations. A snapshot holds the engine config and the full market
+// state (seed and RNG state, prices, books, events, clock) plus every fund's
+// account, so restoring one and stepping on gives exactly what the original
+// would have. Snapshots are plain JSON tagged with a format version; older
+// versions are migrated forward one version at a time on load and the result
+// is checked before use.
+import { ASSET_CLASSES, AssetClass } from "./assets";
+import { DEFAULT_CLOCK, GRANULARITIES, tickDays, tickYears } from "./clock";
+import { FundAccount } from "./fundStep";
+import { createMarketEngine, MarketEngine, MarketEngineConfig, MarketState } from "./marketEngine";
+import { REGIMES } from "./regimes";
+
+export const SNAPSHOT_FORMAT = "fhe-hedge-war/simulation";
+export const SNAPSHOT_VERSION = 2;
+
+export interface SimulationSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  config: MarketEngineConfig;
+  state: MarketState;
+  funds: FundAccount[]; // in trading order
+}
+
+export interface RestoredSimulation {
+  engine: MarketEngine;
+  state: MarketState;
+  funds: FundAccount[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && isFinite(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const check: (condition: boolean, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new Error(`Invalid snapshot: ${message}`);
+};
+
+// Moves a count of ticks in `from` to a count of trading days in `to`
+const inDays = (record: unknown, from: string, to: string, days: number): unknown => {
+  if (!isRecord(record)) return record;
+  const { [from]: ticks, ...rest } = record;
+  return isFiniteNumber(ticks) ? { ...rest, [to]: ticks * days } : record;
+};
+
+// Trading days in one tick of the engine a config describes
+const configDays = (config: UnknownRecord) => {
+  const { priceModel, clock } = config;
+  if (isRecord(priceModel) && isFiniteNumber(priceModel.dt)) return tickDays(priceModel.dt);
+  if (!isRecord(clock)) return tickDays(tickYears(DEFAULT_CLOCK));
+  const granularity = GRANULARITIES.find(g => g === clock.granularity) ?? DEFAULT_CLOCK.granularity;
+  const barsPerDay = isFiniteNumber(clock.barsPerDay) ? clock.barsPerDay : DEFAULT_CLOCK.barsPerDay;
+  return tickDays(tickYears({ ...DEFAULT_CLOCK, granularity, barsPerDay }));
+};
+
+// Each entry lifts a snapshot from the version it is keyed on to the next one.
+// Add one whenever SNAPSHOT_VERSION goes up.
+const MIGRATIONS: Record<number, (snapshot: UnknownRecord) => UnknownRecord> = {
+  // Durations that were counted in ticks are set in trading days, converted at
+  // the snapshot's own tick length
+  1: snapshot => {
+    const { config, funds } = snapshot;
+    check(isRecord(config), "missing config");
+    const days = configDays(config);
+    const { margin, borrow, crowding, circuitBreakers } = config;
+    const breakers = inDays(circuitBreakers, "assetHaltTicks", "assetHaltDays", days);
+    return {
+      ...snapshot,
+      config: {
+        ...config,
+        ...(margin !== undefined && { margin: inDays(margin, "callGraceTicks", "callGraceDays", days) }),
+        ...(borrow !== undefined && { borrow: inDays(borrow, "lendableTicks", "lendableDays", days) }),
+        ...(crowding !== undefined && { crowding: inDays(inDays(crowding, "capacityTicks", "capacityDays", days), "unwindTicks", "unwindDays", days) }),
+        ...(breakers !== undefined && {
+          circuitBreakers: isRecord(breakers) && Array.isArray(breakers.indexLevels)
+            ? { ...breakers, indexLevels: breakers.indexLevels.map((level: unknown) => inDays(level, "ticks", "days", days)) }
+            : breakers
+        })
+      },
+      funds: Array.isArray(funds)
+        ? funds.map((fund: unknown) => isRecord(fund) ? { ...fund, optionOverlay: inDays(fund.optionOverlay, "tenorTicks", "tenorDays", days) } : fund)
+        : funds
+    };
+  }
+};
+
+export const createSnapshot = (config: MarketEngineConfig, state: MarketState, funds: FundAccount[] = []): SimulationSnapshot =>
+  ({ format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, config, state, funds });
+
+export const serializeSnapshot = (snapshot: SimulationSnapshot) => JSON.stringify(snapshot);
+
+// Brings a snapshot of any supported version up to the current one; the
+// result still has to pass validateSnapshot
+export const migrateSnapshot = (raw: unknown): UnknownRecord => {
+  check(isRecord(raw) && raw.format === SNAPSHOT_FORMAT, "not a simulation snapshot");
+  let snapshot = raw;
+  let version = raw.version;
+  check(isInteger(version) && version >= 1, "missing format version");
+  if (version > SNAPSHOT_VERSION) throw new Error(`Snapshot version ${version} is newer than this build supports (${SNAPSHOT_VERSION})`);
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from snapshot version ${version}`);
+    version++;
+    snapshot = { ...migrate(snapshot), version };
+  }
+  return snapshot;
+};
+
+// A tick span such as an event or a halt: an id and a start before its end
+const isSpan = (entry: unknown): entry is UnknownRecord =>
+  isRecord(entry) && isString(entry.id) && isInteger(entry.startTick) && isInteger(entry.endTick) && entry.startTick < entry.endTick;
+
+const isOrder = (order: unknown, asset: AssetClass): order is UnknownRecord =>
+  isRecord(order) && isString(order.id) && isString(order.fundId) && order.asset === asset
+  && (order.side === "buy" || order.side === "sell") && ["market", "limit", "stop", "ioc"].some(type => type === order.type)
+  && isInteger(order.seq) && isInteger(order.tick) && isFiniteNumber(order.quantity) && isFiniteNumber(order.remaining) && order.remaining > 0
+  && (order.limitPrice === undefined || isFiniteNumber(order.limitPrice)) && (order.stopPrice === undefined || isFiniteNumber(order.stopPrice));
+
+// Resting orders sit on the side they trade from at a limit; stops wait for their trigger
+const validateBook = (book: unknown, asset: AssetClass) => {
+  check(isRecord(book) && book.asset === asset && isFiniteNumber(book.lastPrice), `order book of ${asset} is missing`);
+  const { bids, asks, stops } = book;
+  check(Array.isArray(bids) && bids.every(order => isOrder(order, asset) && order.side === "buy" && isFiniteNumber(order.limitPrice)), `bids of ${asset} must be limit buys in ${asset}`);
+  check(Array.isArray(asks) && asks.every(order => isOrder(order, asset) && order.side === "sell" && isFiniteNumber(order.limitPrice)), `asks of ${asset} must be limit sells in ${asset}`);
+  check(Array.isArray(stops) && stops.every(order => isOrder(order, asset) && isFiniteNumber(order.stopPrice)), `stops of ${asset} must be stop orders in ${asset}`);
+};
+
+const validateState = (state: unknown) => {
+  check(isRecord(state), "missing market state");
+  check(isInteger(state.seed) && isInteger(state.rngState), "seed and RNG state must be integers");
+  check(isInteger(state.tick) && state.tick >= 0, "tick must be a non-negative integer");
+  check(isFiniteNumber(state.time) && isFiniteNumber(state.shortRate), "time and short rate must be numbers");
+  check(REGIMES.some(regime => regime === state.regime) && isInteger(state.regimeAge), `unknown regime "${state.regime}"`);
+  check(isRecord(state.conditions) && isFiniteNumber(state.conditions.volatility) && isFiniteNumber(state.conditions.trend), "market conditions must be numbers");
+  const { timeHistory, prices, returns, volumes, priceHistory, borrow, exchange } = state;
+  check(Array.isArray(timeHistory) && timeHistory.every(isFiniteNumber), "time history must be a list of numbers");
+  check(isRecord(prices) && isRecord(returns) && isRecord(volumes) && isRecord(priceHistory) && isRecord(borrow), "prices, returns, volumes and borrow must be objects");
+  check(isRecord(exchange) && isRecord(exchange.books), "exchange state is missing");
+  for (const c of ASSET_CLASSES) {
+    const price = prices[c];
+    check(isFiniteNumber(price) && price > 0, `price of ${c} must be a positive number`);
+    check(isFiniteNumber(returns[c]) && isFiniteNumber(volumes[c]), `return and volume of ${c} must be numbers`);
+    const history = priceHistory[c];
+    check(Array.isArray(history) && history.every((price: unknown) => isFiniteNumber(price) && price > 0), `price history of ${c} must be positive numbers`);
+    check(history.length === timeHistory.length, `price history of ${c} is out of step with the time history`);
+    check(isRecord(borrow[c]), `borrow of ${c} is missing`);
+    validateBook(exchange.books[c], c);
+  }
+  for (const key of ["events", "releases", "halts", "unwinds", "recalls"]) {
+    check(Array.isArray(state[key]), `${key} must be a list`);
+  }
+  const { events, halts } = state;
+  check(Array.isArray(events) && events.every(event => isSpan(event) && isString(event.kind)), "events must each have an id, a kind and a tick span");
+  check(Array.isArray(halts) && halts.every(halt => isSpan(halt) && (halt.scope === "index" || ASSET_CLASSES.some(c => c === halt.scope)) && isFiniteNumber(halt.move)),
+    "halts must each have an id, a scope, a tick span and a move");
+  for (const key of ["shorts", "positioning", "flows", "fairPrices", "futuresBasis"]) {
+    check(isRecord(state[key]), `${key} must be an object`);
+  }
+  check(Array.isArray(exchange.tape) && isRecord(exchange.fills) && isInteger(exchange.nextSeq), "exchange state is incomplete");
+};
+
+const validateFund = (fund: unknown, index: number) => {
+  check(isRecord(fund) && isString(fund.id) && isString(fund.strategy), `fund ${index} needs an id and a strategy`);
+  for (const key of ["performance", "risk", "assets", "marketImpact"]) {
+    check(isFiniteNumber(fund[key]), `${key} of fund ${fund.id} must be a number`);
+  }
+  const { holdings, allocation } = fund;
+  check(isRecord(holdings) && isFiniteNumber(holdings.cash), `cash of fund ${fund.id} must be a number`);
+  const { positions } = holdings;
+  for (const c of ASSET_CLASSES) {
+    check(isRecord(positions) && isFiniteNumber(positions[c]) && isRecord(allocation) && isFiniteNumber(allocation[c]), `${c} position and weight of fund ${fund.id} must be numbers`);
+  }
+  check(isRecord(fund.optionOverlay) && isRecord(fund.margin) && isRecord(fund.costs) && isRecord(fund.futuresPnl), `fund ${fund.id} is missing account records`);
+  check(fund.params === undefined || isRecord(fund.params), `params of fund ${fund.id} must be an object`);
+  check(fund.program === undefined || isString(fund.program), `program of fund ${fund.id} must be text`);
+  check(fund.violation === undefined || isRecord(fund.violation), `violation of fund ${fund.id} must be an object`);
+};
+
+// Checks the shape of a current-version snapshot; config values are checked by
+// the engine when it is restored
+export const validateSnapshot: (snapshot: unknown) => asserts snapshot is SimulationSnapshot = snapshot => {
+  check(isRecord(snapshot) && snapshot.format === SNAPSHOT_FORMAT && snapshot.version === SNAPSHOT_VERSION, `expected version ${SNAPSHOT_VERSION}`);
+  const { config, state, funds } = snapshot;
+  check(isRecord(config) && isInteger(config.seed), "config needs an integer seed");
+  validateState(state);
+  check(isRecord(state) && config.seed === state.seed, "state was not produced by this config's seed");
+  check(Array.isArray(funds), "funds must be a list");
+  funds.forEach(validateFund);
+  check(new Set(funds.map(fund => fund.id)).size === funds.length, "fund ids must be unique");
+};
+
+export const parseSnapshot = (text: string): SimulationSnapshot => {
+  let raw: unknown;
+  try { raw = JSON.parse(text); }
+  catch (e) { throw new Error("Invalid snapshot: not JSON"); }
+  const snapshot = migrateSnapshot(raw);
+  validateSnapshot(snapshot);
+  return snapshot;
+};
+
+export const restoreSnapshot = (snapshot: SimulationSnapshot): RestoredSimulation => ({
+  engine: createMarketEngine(snapshot.config),
+  state: snapshot.state,
+  funds: snapshot.funds
+});
+
+// Saves, loads and restores the snapshot, then checks that the text survives
+// unchanged and that the restored market steps exactly like the original
+export const verifyRoundTrip = (snapshot: SimulationSnapshot) => {
+  const text = serializeSnapshot(snapshot);
+  const restored = parseSnapshot(text);
+  if (serializeSnapshot(restored) !== text) throw new Error("Snapshot changed on a save and load");
+  const original = createMarketEngine(snapshot.config).step(snapshot.state);
+  const resumed = restoreSnapshot(restored);
+  if (JSON.stringify(resumed.engine.step(resumed.state)) !== JSON.stringify(original)) throw new Error("Restored snapshot steps differently from the original");
+};
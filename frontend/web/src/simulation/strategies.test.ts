@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MACRO_CALENDAR } from "./macroCalendar";
+import { RULES_STRATEGY, strategyFor } from "./strategies";
+import { isStrategyViolation } from "./strategy";
+import { testMarket } from "./testFixtures";
+
+const rules = (n: number) => `when tick > ${n} allocate EQ 100%\notherwise allocate BOND 100%`;
+
+describe("program strategies", () => {
+  it("compile each program text once", () => {
+    expect(strategyFor(RULES_STRATEGY, rules(0))).toBe(strategyFor(RULES_STRATEGY, rules(0)));
+  });
+
+  it("keep only the most recently used programs", () => {
+    const kept = strategyFor(RULES_STRATEGY, rules(0));
+    const dropped = strategyFor(RULES_STRATEGY, rules(1));
+    for (let n = 2; n <= 64; n++) {
+      strategyFor(RULES_STRATEGY, rules(n));
+      strategyFor(RULES_STRATEGY, rules(0));
+    }
+    expect(strategyFor(RULES_STRATEGY, rules(0))).toBe(kept);
+    expect(strategyFor(RULES_STRATEGY, rules(1))).not.toBe(dropped);
+  });
+
+  it("compile rules against the engine's macro calendar", () => {
+    const { market, portfolio } = testMarket();
+    const program = "when payrolls_surprise > 1 allocate EQ 100%\notherwise allocate BOND 100%";
+    const cpiOnly = DEFAULT_MACRO_CALENDAR.filter(({ kind }) => kind === "cpi");
+    expect(strategyFor(RULES_STRATEGY, program).onTick(market, portfolio, {})).toMatchObject({ kind: "weights" });
+    const violation = (() => {
+      try { strategyFor(RULES_STRATEGY, program, cpiOnly).onTick(market, portfolio, {}); }
+      catch (e) { return isStrategyViolation(e) ? e.violation : e; }
+    })();
+    expect(violation).toMatchObject({ kind: "syntax", line: 1, column: 6 });
+  });
+});
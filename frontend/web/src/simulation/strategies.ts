@@ -0,0 +1,118 @@
+// strategies.ts
+// The registry funds look their strategy up in. The page and the simulation
+// worker both load this module, so a strategy registered here trades the same
+// on either side. Funds whose strategy is not registered hold their own mix.
+// Funds on custom rules or a script carry their program: rules trade
+// compiled, scripts in the sandbox.
+import { Allocation } from "./assets";
+import { FuturesMode } from "./futures";
+import { DEFAULT_MACRO_CALENDAR, MacroReleaseDefinition } from "./macroCalendar";
+import { checkRules, compileRules } from "./ruleCompiler";
+import { isRuleError, RuleDiagnostic } from "./ruleParser";
+import { checkScript, scriptStrategy } from "./sandbox";
+import { createStrategyRegistry, fixedMix, Strategy, strategyViolation } from "./strategy";
+import { STRATEGY_LIBRARY } from "./strategyLibrary";
+
+const QUANT = fixedMix(
+  "Quant", "Quantitative",
+  "Spreads risk across every asset class, crypto included, and rebalances back to the same mix each round.",
+  { equities: 0.45, govBonds: 0.1, credit: 0.1, commodities: 0.1, fx: 0.1, crypto: 0.15 }
+);
+
+const VALUE = fixedMix(
+  "Value", "Value Investing",
+  "Mostly equities and bonds held for the long run, with no currency or crypto exposure.",
+  { equities: 0.6, govBonds: 0.2, credit: 0.15, commodities: 0.05, fx: 0, crypto: 0 }
+);
+
+// Macro funds express their index and commodity views through futures
+const MACRO = fixedMix(
+  "Macro", "Macro Strategy",
+  "Leans on bonds, commodities and currencies, holding index and commodity views as rolled futures.",
+  { equities: 0.25, govBonds: 0.3, credit: 0.1, commodities: 0.2, fx: 0.15, crypto: 0 },
+  "auto"
+);
+
+export const RULES_STRATEGY = "Rules";
+export const SCRIPT_STRATEGY = "Script";
+
+// What the editor starts from for strategies that bring their own program
+export const EXAMPLE_PROGRAMS: Record<string, string> = {
+  [RULES_STRATEGY]: [
+    "# First matching rule wins; otherwise catches the rest",
+    "when regime == crisis allocate BOND 70% CREDIT 10%",
+    "when sma(20) > sma(50) allocate EQ 60% BOND 40%",
+    "otherwise allocate EQ 30% BOND 50%"
+  ].join("\n"),
+  [SCRIPT_STRATEGY]: [
+    "// Hold the assets trending up, equally weighted; bonds when none are",
+    "function onTick(market, portfolio) {",
+    "  const trending = ASSETS.filter(asset => {",
+    "    const prices = market.priceHistory[asset];",
+    "    return !market.halted.includes(asset) && sma(prices, 20) > sma(prices, 50);",
+    "  });",
+    "  if (trending.length === 0) return { BOND: 0.8 };",
+    "  const weights = {};",
+    "  for (const asset of trending) weights[asset] = 1 / trending.length;",
+    "  return weights;",
+    "}"
+  ].join("\n")
+};
+
+const RULES = fixedMix(
+  RULES_STRATEGY, "Custom Rules",
+  "Trades a program of when/allocate rules written in the rule language, such as: when sma(20) > sma(50) allocate EQ 60% BOND 40%.",
+  VALUE.defaultAllocation
+);
+
+const SCRIPT = fixedMix(
+  SCRIPT_STRATEGY, "Custom Script",
+  "Runs a strategy written in a small subset of JavaScript. The script sees the market and its own fund only, under a fixed budget of steps and memory each round; a script that breaks the rules sits that round out.",
+  VALUE.defaultAllocation
+);
+
+export const strategyRegistry = createStrategyRegistry([QUANT, VALUE, MACRO, ...STRATEGY_LIBRARY, RULES, SCRIPT]);
+
+export const DEFAULT_STRATEGY = QUANT.id;
+
+export const writesProgram = (id: string) => id in EXAMPLE_PROGRAMS;
+
+// Problems with a program for the given strategy; empty when it will trade on
+// an engine with this macro calendar
+export const checkProgram = (id: string, source: string, calendar: MacroReleaseDefinition[] = DEFAULT_MACRO_CALENDAR): RuleDiagnostic[] =>
+  id === RULES_STRATEGY ? checkRules(source, calendar) : id === SCRIPT_STRATEGY ? checkScript(source) : [];
+
+// Rules that no longer compile make their fund sit out, as a broken script does
+const rulesStrategy = (source: string, calendar: MacroReleaseDefinition[]): Strategy => {
+  try {
+    return compileRules(source, RULES_STRATEGY, RULES.label, calendar);
+  } catch (e) {
+    if (!isRuleError(e)) throw e;
+    const [first] = e.diagnostics;
+    return { ...RULES, onTick: () => { throw strategyViolation({ kind: "syntax", ...first }); } };
+  }
+};
+
+// Compiled once per program text and calendar. Every edit of a draft is a new
+// text, so the cache keeps only the most recently used programs; Map order is
+// use order. Rules only see which releases a calendar has.
+const MAX_PROGRAMS = 64;
+const programs = new Map<string, Strategy>();
+
+const programStrategy = (id: string, source: string, calendar: MacroReleaseDefinition[]): Strategy => {
+  const key = id === RULES_STRATEGY ? `${id}:${calendar.map(({ kind }) => kind).join(",")}:${source}` : `${id}:${source}`;
+  const strategy = programs.get(key) ?? (id === RULES_STRATEGY ? rulesStrategy(source, calendar) : scriptStrategy(source, SCRIPT_STRATEGY, SCRIPT.label));
+  programs.delete(key);
+  programs.set(key, strategy);
+  if (programs.size > MAX_PROGRAMS) programs.delete(programs.keys().next().value!);
+  return strategy;
+};
+
+export const strategyFor = (id: string, program?: string, calendar: MacroReleaseDefinition[] = DEFAULT_MACRO_CALENDAR): Strategy => {
+  if (writesProgram(id) && program) return programStrategy(id, program, calendar);
+  return strategyRegistry.get(id) ?? fixedMix(id, id, "Holds the fund's own mix.", VALUE.defaultAllocation);
+};
+
+export const defaultAllocation = (id: string): Allocation => strategyFor(id).defaultAllocation;
+
+export const defaultFuturesMode = (id: string): FuturesMode => strategyFor(id).defaultFuturesMode;
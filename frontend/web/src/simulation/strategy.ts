@@ -0,0 +1,249 @@
+// strategy.ts
+// How a fund decides what to hold. Each round a strategy sees the public
+// market and its own portfolio, never other funds, and answers with target
+// weights, which the fund reaches at its leverage and futures mode, or with
+// orders of its own. A strategy that breaks its limits throws a violation and
+// its fund sits the round out. Tunable settings are declared as a schema the
+// forms are built from. Strategies live in a registry keyed by id, which is
+// what a fund record stores.
+import { Allocation, ASSET_CLASSES, AssetClass, assetRecord } from "./assets";
+import { haltedAssets } from "./circuitBreakers";
+import { FuturesMode } from "./futures";
+import { MacroRelease, ScheduledRelease } from "./macroCalendar";
+import { DEFAULT_MARGIN, MarginParams, targetLeverage } from "./margin";
+import { MarketConditions, MarketEngine, MarketState } from "./marketEngine";
+import { OrderRequest } from "./orderBook";
+import { Holdings, markToMarket, normalizeAllocation } from "./portfolio";
+import { RegimeName } from "./regimes";
+
+export interface MarketView {
+  tick: number;
+  time: number;
+  dt: number; // length of a bar in years, for annualising
+  prices: Record<AssetClass, number>;
+  returns: Record<AssetClass, number>; // log returns of the last tick
+  priceHistory: Record<AssetClass, number[]>; // oldest first, ending at the current price
+  regime: RegimeName;
+  regimeOdds: Record<RegimeName, number>; // chance of each regime next tick
+  conditions: MarketConditions;
+  shortRate: number;
+  halted: AssetClass[];
+  releases: MacroRelease[]; // latest macro prints, oldest first
+  upcomingReleases: ScheduledRelease[]; // due within the next month, soonest first
+}
+
+export interface PortfolioView {
+  nav: number;
+  cash: number;
+  positions: Record<AssetClass, number>; // spot quantities
+  weights: Allocation; // spot positions as a share of NAV
+  allocation: Allocation; // the mix the fund was set up with
+  risk: number;
+  leverage: number; // what weights are levered by at the current mix; weights divided by it are targets
+}
+
+export type StrategyOrder = Omit<OrderRequest, "fundId">;
+
+export type ParamValue = number | boolean | string;
+
+export type StrategyParams = Record<string, ParamValue>;
+
+// Descriptors for a strategy's tunable parameters, in the spirit of JSON
+// Schema; fund settings are checked against them
+export interface NumberParam {
+  type: "number" | "integer";
+  title: string;
+  help: string;
+  default: number;
+  minimum: number;
+  maximum: number;
+  step?: number;
+}
+
+export interface BooleanParam {
+  type: "boolean";
+  title: string;
+  help: string;
+  default: boolean;
+}
+
+export interface ChoiceParam {
+  type: "string";
+  title: string;
+  help: string;
+  default: string;
+  enum: string[];
+  labels?: Record<string, string>; // shown instead of the raw values
+}
+
+export type ParamSchema = NumberParam | BooleanParam | ChoiceParam;
+
+type SchemaFor<V> = V extends number ? NumberParam : V extends boolean ? BooleanParam : ChoiceParam;
+
+export type ParamsSchema<P extends StrategyParams = StrategyParams> = { [K in keyof P]: SchemaFor<P[K]> };
+
+export type StrategyDecision =
+  | { kind: "weights"; weights: Partial<Allocation> } // normalised, then levered by the fund's risk factor
+  | { kind: "orders"; orders: StrategyOrder[] }; // sent as they are; futures are left alone
+
+// Each round a strategy gets its params resolved against the schema: the
+// fund's own settings where they are valid, the defaults elsewhere
+export interface Strategy<P extends StrategyParams = StrategyParams> {
+  id: string;
+  label: string;
+  description: string;
+  defaultAllocation: Allocation; // starting mix offered when creating a fund
+  defaultFuturesMode: FuturesMode;
+  params: ParamsSchema<P>;
+  checkParams?(params: P): Record<string, string>; // problems between params, by the name of the param to change
+  onTick(market: MarketView, portfolio: PortfolioView, params: P): StrategyDecision;
+}
+
+export type ViolationKind = "syntax" | "cpu" | "memory" | "depth" | "api" | "runtime" | "result";
+
+// Why a strategy was stopped in a round; the fund sits that round out
+export interface StrategyViolation {
+  kind: ViolationKind;
+  message: string;
+  line?: number; // where in the strategy's source, when it has one
+  column?: number;
+}
+
+export interface StrategyViolationError extends Error {
+  violation: StrategyViolation;
+}
+
+export interface StrategyRegistry {
+  register: (strategy: Strategy) => void;
+  get: (id: string) => Strategy | undefined;
+  list: () => Strategy[]; // in registration order
+}
+
+export const marketView = (engine: MarketEngine, state: MarketState, dt: number): MarketView => ({
+  tick: state.tick,
+  time: state.time,
+  dt,
+  prices: state.prices,
+  returns: state.returns,
+  priceHistory: state.priceHistory,
+  regime: state.regime,
+  regimeOdds: engine.regime(state).odds,
+  conditions: state.conditions,
+  shortRate: state.shortRate,
+  halted: haltedAssets(state.halts, state.tick),
+  releases: state.releases,
+  upcomingReleases: engine.upcomingReleases(state)
+});
+
+export const portfolioView = (
+  holdings: Holdings,
+  prices: Record<AssetClass, number>,
+  allocation: Allocation,
+  risk: number,
+  margin: MarginParams = DEFAULT_MARGIN
+): PortfolioView => {
+  const nav = markToMarket(holdings, prices);
+  const weights = assetRecord(c => nav > 0 ? holdings.positions[c] * prices[c] / nav : 0);
+  return {
+    nav,
+    cash: holdings.cash,
+    positions: holdings.positions,
+    weights,
+    allocation,
+    risk,
+    leverage: targetLeverage(risk, normalizeAllocation(weights), margin)
+  };
+};
+
+export const strategyViolation = (violation: StrategyViolation): StrategyViolationError =>
+  Object.assign(new Error(violation.message), { violation });
+
+export const isStrategyViolation = (error: unknown): error is StrategyViolationError =>
+  error instanceof Error && typeof (error as StrategyViolationError).violation === "object";
+
+export const formatViolation = (violation: StrategyViolation) =>
+  `${violation.kind}${violation.line !== undefined ? ` at line ${violation.line}, column ${violation.column}` : ""}: ${violation.message}`;
+
+export const defaultParams = <P extends StrategyParams>(schema: ParamsSchema<P>): P =>
+  Object.fromEntries(Object.entries<ParamSchema>(schema).map(([name, param]) => [name, param.default])) as P;
+
+// Why a value does not fit its parameter, or undefined when it does
+export const paramError = (param: ParamSchema, value: unknown): string | undefined => {
+  switch (param.type) {
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !isFinite(value)) return "must be a number";
+      if (param.type === "integer" && !Number.isInteger(value)) return "must be a whole number";
+      if (value < param.minimum || value > param.maximum) return `must be from ${param.minimum} to ${param.maximum}`;
+      return undefined;
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "must be on or off";
+    case "string":
+      return typeof value === "string" && param.enum.includes(value) ? undefined : `must be one of ${param.enum.join(", ")}`;
+  }
+};
+
+// Problems by parameter name; settings the schema does not know are reported
+// too, and the strategy's own checks run once each param fits on its own
+export const paramErrors = (strategy: Strategy, values: StrategyParams): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const param = strategy.params[name];
+    const error = param ? paramError(param, value) : "is not a parameter of this strategy";
+    if (error) errors[name] = error;
+  }
+  return Object.keys(errors).length > 0 ? errors : strategy.checkParams?.(resolveParams(strategy.params, values)) ?? {};
+};
+
+export const validateParams = (strategy: Strategy, values: StrategyParams) => {
+  const [problem] = Object.entries(paramErrors(strategy, values));
+  if (problem) throw new Error(`Parameter ${problem[0]} ${problem[1]}`);
+};
+
+// Settings that no longer fit, say after a strategy's schema changed, fall
+// back to the default rather than stop the fund
+export const resolveParams = <P extends StrategyParams>(schema: ParamsSchema<P>, values: StrategyParams = {}): P =>
+  Object.fromEntries(Object.entries<ParamSchema>(schema).map(([name, param]) =>
+    [name, values[name] !== undefined && !paramError(param, values[name]) ? values[name] : param.default]
+  )) as P;
+
+// The params a strategy runs with; when they fail its own checks it runs on
+// its defaults
+export const strategyParams = <P extends StrategyParams>(strategy: Strategy<P>, values: StrategyParams = {}): P => {
+  const params = resolveParams(strategy.params, values);
+  return strategy.checkParams && Object.keys(strategy.checkParams(params)).length > 0 ? defaultParams(strategy.params) : params;
+};
+
+export const validateStrategy = (strategy: Strategy) => {
+  if (!strategy.id.trim()) throw new Error("A strategy needs an id");
+  if (ASSET_CLASSES.some(c => !isFinite(strategy.defaultAllocation[c]))) throw new Error(`Default allocation of strategy "${strategy.id}" must cover every asset class`);
+  for (const [name, param] of Object.entries(strategy.params)) {
+    if ((param.type === "number" || param.type === "integer") && !(param.minimum <= param.maximum)) throw new Error(`Parameter ${name} of strategy "${strategy.id}" has an empty range`);
+    const error = paramError(param, param.default);
+    if (error) throw new Error(`Default of parameter ${name} of strategy "${strategy.id}" ${error}`);
+  }
+  const [problem] = Object.entries(strategy.checkParams?.(defaultParams(strategy.params)) ?? {});
+  if (problem) throw new Error(`Default of parameter ${problem[0]} of strategy "${strategy.id}" ${problem[1]}`);
+};
+
+export const createStrategyRegistry = (strategies: Strategy[] = []): StrategyRegistry => {
+  const entries = new Map<string, Strategy>();
+  const register = (strategy: Strategy) => {
+    validateStrategy(strategy);
+    if (entries.has(strategy.id)) throw new Error(`Strategy "${strategy.id}" is already registered`);
+    entries.set(strategy.id, strategy);
+  };
+  strategies.forEach(register);
+  return { register, get: id => entries.get(id), list: () => [...entries.values()] };
+};
+
+// Holds whatever mix the fund was set up with
+export const fixedMix = (id: string, label: string, description: string, defaultAllocation: Allocation, defaultFuturesMode: FuturesMode = "spot"): Strategy => ({
+  id,
+  label,
+  description,
+  defaultAllocation,
+  defaultFuturesMode,
+  params: {},
+  onTick: (_, portfolio) => ({ kind: "weights", weights: portfolio.allocation })
+});
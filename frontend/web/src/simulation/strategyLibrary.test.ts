@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { assetRecord } from "./assets";
+import { paramErrors, portfolioView, Strategy, strategyParams, validateParams } from "./strategy";
+import { MEAN_REVERSION, PAIRS_TRADING, RISK_PARITY, STRATEGY_LIBRARY } from "./strategyLibrary";
+import { testMarket } from "./testFixtures";
+
+const { market, portfolio, state } = testMarket({ seed: 4 }, 80);
+
+const gross = (weights: Partial<Record<string, number>>) => Object.values(weights).reduce<number>((sum, w) => sum + Math.abs(w ?? 0), 0);
+
+describe("library strategies", () => {
+  it("keep halted assets at their weight and stay within 100% gross", () => {
+    const levered = { ...portfolio, weights: { ...portfolio.weights, equities: 0.9, credit: -0.6 } };
+    const decision = RISK_PARITY.onTick({ ...market, halted: ["equities", "credit"] }, levered, strategyParams(RISK_PARITY));
+    if (decision.kind !== "weights") throw new Error("expected weights");
+    expect(gross(decision.weights)).toBeCloseTo(1);
+    expect(decision.weights.equities! / decision.weights.credit!).toBeCloseTo(-1.5);
+    expect(decision.weights.govBonds).toBeGreaterThan(0);
+  });
+
+  it("take halted assets back to their weight before leverage", () => {
+    // Equities at 120% of NAV, borrowed against a high risk factor
+    const holdings = { cash: -2e5, positions: assetRecord(c => c === "equities" ? 1.2e6 / state.prices.equities : 0) };
+    const levered = portfolioView(holdings, state.prices, portfolio.allocation, 1);
+    expect(levered.weights.equities).toBeCloseTo(1.2);
+    expect(levered.leverage).toBeGreaterThan(1.2);
+
+    const decision = RISK_PARITY.onTick({ ...market, halted: ["equities"] }, levered, strategyParams(RISK_PARITY));
+    if (decision.kind !== "weights") throw new Error("expected weights");
+    const unlevered = 1.2 / levered.leverage;
+    expect(decision.weights.equities).toBeCloseTo(unlevered / (1 + unlevered));
+    expect(gross(decision.weights)).toBeCloseTo(1);
+  });
+
+  it("answer with at most 100% gross", () => {
+    for (const strategy of STRATEGY_LIBRARY) {
+      const decision = strategy.onTick(market, portfolio, strategyParams(strategy));
+      if (decision.kind === "weights") expect(gross(decision.weights)).toBeLessThanOrEqual(1 + 1e-9);
+    }
+  });
+
+  it.each<Strategy>([MEAN_REVERSION, PAIRS_TRADING])("$id rejects an exit at or beyond its entry", strategy => {
+    expect(paramErrors(strategy, { entry: 1, exit: 1 })).toEqual({ exit: "must be below the entry z-score" });
+    expect(paramErrors(strategy, { entry: 1, exit: 0.8 })).toEqual({});
+    expect(() => validateParams(strategy, { entry: 0.5, exit: 2 })).toThrow("Parameter exit must be below the entry z-score");
+    expect(strategyParams(strategy, { entry: 0.5, exit: 2 })).toEqual(strategyParams(strategy));
+  });
+
+  it("Pairs rejects the same asset on both legs", () => {
+    expect(paramErrors(PAIRS_TRADING, { first: "fx", second: "fx" })).toEqual({ second: "must differ from the first leg" });
+    expect(strategyParams(PAIRS_TRADING, { first: "fx", second: "fx" })).toEqual(strategyParams(PAIRS_TRADING));
+  });
+});
@@ -0,0 +1,247 @@
+// strategyLibrary.ts
+// Reference strategies players can start from and any fund can run. Each one
+// reads only the public market and its own portfolio, answers with target
+// weights of at most 100% gross, and leaves leverage to the fund's risk factor.
+// Halted assets keep the weight they have, since they cannot be traded.
+import { Allocation, ASSET_CLASSES, ASSET_LABELS, AssetClass, assetRecord } from "./assets";
+import { ema, momentum, volatility, zScore } from "./indicators";
+import { normalizeAllocation } from "./portfolio";
+import { ChoiceParam, MarketView, NumberParam, PortfolioView, Strategy, StrategyDecision } from "./strategy";
+
+const prices = (market: MarketView, asset: AssetClass) => market.priceHistory[asset];
+
+const tradable = (market: MarketView) => ASSET_CLASSES.filter(c => !market.halted.includes(c));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Scales the tradable weights to the given gross and puts halted assets back
+// at their current weight before leverage, renormalising when the two
+// together pass 100% gross
+const weights = (market: MarketView, portfolio: PortfolioView, raw: Partial<Allocation>, gross = 1): StrategyDecision => {
+  const total = tradable(market).reduce((sum, c) => sum + Math.abs(raw[c] ?? 0), 0);
+  const scale = total > 0 ? gross / total : 0;
+  return {
+    kind: "weights",
+    weights: normalizeAllocation(assetRecord(c => market.halted.includes(c) ? portfolio.weights[c] / portfolio.leverage : (raw[c] ?? 0) * scale))
+  };
+};
+
+// Lookbacks are counted in bars and kept within the price history the market
+// keeps by default
+const period = (title: string, help: string, value: number): NumberParam =>
+  ({ type: "integer", title, help, default: value, minimum: 2, maximum: 250, step: 1 });
+
+const asset = (title: string, help: string, value: AssetClass): ChoiceParam =>
+  ({ type: "string", title, help, default: value, enum: [...ASSET_CLASSES], labels: ASSET_LABELS });
+
+// Per-bar volatility with a floor, so a flat series does not get all the weight
+const riskOf = (market: MarketView, asset: AssetClass, window: number) => Math.max(volatility(prices(market, asset), window), 1e-4);
+
+type TimeSeriesMomentumParams = { lookback: number; volWindow: number; shorts: boolean };
+
+export const TIME_SERIES_MOMENTUM: Strategy<TimeSeriesMomentumParams> = {
+  id: "Momentum",
+  label: "Time-Series Momentum",
+  description: "Goes long every asset whose own return over the lookback is positive and, when shorts are allowed, short every asset whose return is negative. Each position is sized by the inverse of the asset's recent volatility so that calm and wild assets carry similar risk. It does well in persistent trends and gives back gains when markets chop sideways or reverse sharply.",
+  defaultAllocation: { equities: 0.3, govBonds: 0.2, credit: 0.1, commodities: 0.2, fx: 0.1, crypto: 0.1 },
+  defaultFuturesMode: "spot",
+  params: {
+    lookback: period("Lookback", "Bars of return that decide each asset's direction.", 60),
+    volWindow: period("Volatility window", "Bars of volatility used to size each position.", 20),
+    shorts: { type: "boolean", title: "Allow shorts", help: "Sell assets in a downtrend short instead of just leaving them out.", default: true }
+  },
+  onTick: (market, portfolio, { lookback, volWindow, shorts }) => weights(market, portfolio, assetRecord(c => {
+    const signal = Math.sign(momentum(prices(market, c), lookback));
+    return (shorts ? signal : Math.max(0, signal)) / riskOf(market, c, volWindow);
+  }))
+};
+
+type CrossSectionalMomentumParams = { lookback: number; winners: number; losers: number };
+
+export const CROSS_SECTIONAL_MOMENTUM: Strategy<CrossSectionalMomentumParams> = {
+  id: "CrossMomentum",
+  label: "Cross-Sectional Momentum",
+  description: "Ranks the asset classes against each other by their return over the lookback, buys the strongest and sells short the weakest in equal weights. Because it bets on relative rather than absolute performance, it can make money when everything falls as long as the leaders fall less. It suffers when leadership rotates quickly and yesterday's winners become tomorrow's laggards.",
+  defaultAllocation: { equities: 0.35, govBonds: 0.15, credit: 0.1, commodities: 0.15, fx: 0.1, crypto: 0.15 },
+  defaultFuturesMode: "spot",
+  params: {
+    lookback: period("Lookback", "Bars of return the assets are ranked by.", 60),
+    winners: { type: "integer", title: "Winners", help: "How many of the strongest assets to buy.", default: 2, minimum: 1, maximum: ASSET_CLASSES.length, step: 1 },
+    losers: { type: "integer", title: "Losers", help: "How many of the weakest assets to sell short; 0 runs long only.", default: 1, minimum: 0, maximum: ASSET_CLASSES.length - 1, step: 1 }
+  },
+  onTick: (market, portfolio, { lookback, winners, losers }) => {
+    const ranked = tradable(market).sort((a, b) => momentum(prices(market, b), lookback) - momentum(prices(market, a), lookback));
+    const long = ranked.slice(0, winners);
+    const short = losers > 0 ? ranked.slice(long.length).slice(-losers) : [];
+    return weights(market, portfolio, assetRecord(c => long.includes(c) ? 1 / long.length : short.includes(c) ? -1 / short.length : 0));
+  }
+};
+
+// A position closed at or beyond where it opens would be opened and closed
+// in the same round
+const exitBelowEntry = ({ entry, exit }: { entry: number; exit: number }): Record<string, string> =>
+  exit < entry ? {} : { exit: "must be below the entry z-score" };
+
+const distinctLegs = ({ first, second }: { first: string; second: string }): Record<string, string> =>
+  first !== second ? {} : { second: "must differ from the first leg" };
+
+type MeanReversionParams = { window: number; entry: number; exit: number; shorts: boolean };
+
+export const MEAN_REVERSION: Strategy<MeanReversionParams> = {
+  id: "MeanReversion",
+  label: "Mean Reversion",
+  description: "Buys assets that have fallen well below their moving average and sells those that have run well above it, measuring the stretch in standard deviations. A position opens once the stretch passes the entry level, grows with it and is closed when the price comes back within the exit level. It earns steadily in range-bound markets and takes its losses in strong trends, where stretched prices keep stretching.",
+  defaultAllocation: { equities: 0.4, govBonds: 0.3, credit: 0.2, commodities: 0.1, fx: 0, crypto: 0 },
+  defaultFuturesMode: "spot",
+  params: {
+    window: period("Window", "Bars the mean and deviation are measured over.", 20),
+    entry: { type: "number", title: "Entry z-score", help: "How many deviations from the mean a price must stray before a position opens.", default: 1.5, minimum: 0.5, maximum: 4, step: 0.1 },
+    exit: { type: "number", title: "Exit z-score", help: "Positions close once the price is back within this many deviations.", default: 0.5, minimum: 0, maximum: 2, step: 0.1 },
+    shorts: { type: "boolean", title: "Allow shorts", help: "Sell stretched assets short as well as buying depressed ones.", default: true }
+  },
+  checkParams: exitBelowEntry,
+  onTick: (market, portfolio, { window, entry, exit, shorts }) => {
+    const raw = assetRecord(c => {
+      const z = zScore(prices(market, c), window);
+      if (Math.abs(z) < exit) return 0;
+      // Between exit and entry a position is held, not opened
+      if (Math.abs(z) < entry) return Math.sign(portfolio.weights[c]) === -Math.sign(z) ? -Math.sign(z) : 0;
+      return shorts || z < 0 ? clamp(-z / entry, -2, 2) : 0;
+    });
+    return weights(market, portfolio, raw, Math.min(1, ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(raw[c]), 0) / ASSET_CLASSES.length));
+  }
+};
+
+type RiskParityParams = { window: number; crypto: boolean };
+
+export const RISK_PARITY: Strategy<RiskParityParams> = {
+  id: "RiskParity",
+  label: "Risk Parity",
+  description: "Holds every asset class long with weights inversely proportional to its recent volatility, so each contributes roughly the same risk instead of equities dominating. That tilts the fund heavily towards bonds and credit, which the fund's risk factor can lever back up to a useful level of return. This is the simple inverse-volatility form that ignores correlations, and it is hurt when bonds and equities fall together.",
+  defaultAllocation: { equities: 0.2, govBonds: 0.4, credit: 0.25, commodities: 0.1, fx: 0.05, crypto: 0 },
+  defaultFuturesMode: "spot",
+  params: {
+    window: period("Volatility window", "Bars of volatility each asset's risk is measured over.", 60),
+    crypto: { type: "boolean", title: "Include crypto", help: "Give crypto a risk budget like the other asset classes.", default: false }
+  },
+  onTick: (market, portfolio, { window, crypto }) =>
+    weights(market, portfolio, assetRecord(c => c === "crypto" && !crypto ? 0 : 1 / riskOf(market, c, window)))
+};
+
+type TrendParams = { fast: number; slow: number; volWindow: number };
+
+export const TREND_CTA: Strategy<TrendParams> = {
+  id: "Trend",
+  label: "Trend-Following CTA",
+  description: "Follows trends the way a managed-futures fund does: the signal for each asset is the gap between a fast and a slow moving average, measured against the asset's volatility and capped, so strong trends get full size and weak ones little. Positions are risk-weighted across every asset, long or short, and index and commodity exposure is held through rolled futures. It tends to shine in prolonged sell-offs and lose slowly in trendless markets.",
+  defaultAllocation: { equities: 0.25, govBonds: 0.25, credit: 0.1, commodities: 0.2, fx: 0.1, crypto: 0.1 },
+  defaultFuturesMode: "auto",
+  params: {
+    fast: period("Fast average", "Bars in the quick moving average.", 20),
+    slow: period("Slow average", "Bars in the slow moving average the quick one is compared with.", 100),
+    volWindow: period("Volatility window", "Bars of volatility used to size each position.", 40)
+  },
+  onTick: (market, portfolio, { fast, slow, volWindow }) => {
+    const signals = assetRecord(c => {
+      const history = prices(market, c);
+      const price = history[history.length - 1];
+      // Moving-average gap in units of the price move expected over the slow window
+      return clamp((ema(history, fast) - ema(history, slow)) / (price * riskOf(market, c, volWindow) * Math.sqrt(slow)), -1, 1);
+    });
+    // Overall size follows the average strength of the trends
+    const strength = ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(signals[c]), 0) / ASSET_CLASSES.length;
+    return weights(market, portfolio, assetRecord(c => signals[c] / riskOf(market, c, volWindow)), strength);
+  }
+};
+
+type PairsParams = { first: string; second: string; window: number; entry: number; exit: number };
+
+export const PAIRS_TRADING: Strategy<PairsParams> = {
+  id: "Pairs",
+  label: "Pairs Trading",
+  description: "Trades the spread between two related assets, equities and credit by default. When the log price ratio strays beyond the entry level, measured in standard deviations of its recent history, it sells the rich leg and buys the cheap one in equal size, then unwinds once the ratio returns within the exit level. Being long one leg and short the other keeps it largely market-neutral; the risk is that the relationship breaks and the spread keeps widening.",
+  defaultAllocation: { equities: 0.5, govBonds: 0, credit: 0.5, commodities: 0, fx: 0, crypto: 0 },
+  defaultFuturesMode: "spot",
+  params: {
+    first: asset("First leg", "One side of the pair.", "equities"),
+    second: asset("Second leg", "The other side; it must differ from the first leg.", "credit"),
+    window: period("Window", "Bars the price ratio's mean and deviation are measured over.", 60),
+    entry: { type: "number", title: "Entry z-score", help: "How far the ratio must stray, in deviations, before the pair is put on.", default: 2, minimum: 0.5, maximum: 4, step: 0.1 },
+    exit: { type: "number", title: "Exit z-score", help: "The pair is taken off once the ratio is back within this many deviations.", default: 0.5, minimum: 0, maximum: 2, step: 0.1 }
+  },
+  checkParams: params => ({ ...exitBelowEntry(params), ...distinctLegs(params) }),
+  onTick: (market, portfolio, { first, second, window, entry, exit }) => {
+    const a = ASSET_CLASSES.find(c => c === first);
+    const b = ASSET_CLASSES.find(c => c === second);
+    if (!a || !b) return { kind: "weights", weights: portfolio.weights };
+    const history = prices(market, a);
+    const other = prices(market, b);
+    const length = Math.min(history.length, other.length);
+    const ratio = history.slice(-length).map((price, i) => price / other[other.length - length + i]);
+    const z = zScore(ratio, window);
+    const held = Math.sign(portfolio.weights[a]);
+    const side = Math.abs(z) >= entry ? -Math.sign(z) : Math.abs(z) > exit ? held : 0;
+    return weights(market, portfolio, { [a]: side, [b]: -side }, side === 0 ? 0 : 1);
+  }
+};
+
+type CarryParams = { lookback: number; threshold: number; weight: number; crisisExit: boolean };
+
+export const FX_CARRY: Strategy<CarryParams> = {
+  id: "Carry",
+  label: "FX Carry",
+  description: "Holds the currency basket while it pays more than cash and sells it short while it pays less. With a single basket and no foreign rates in the game, carry is measured as the basket's annualised return over the lookback less the home short rate that finances the position, and nothing happens until that gap passes the threshold. Carry earns small amounts steadily and gives them back in sudden unwinds, so by default it steps aside in a crisis regime.",
+  defaultAllocation: { equities: 0, govBonds: 0.5, credit: 0, commodities: 0, fx: 0.5, crypto: 0 },
+  defaultFuturesMode: "spot",
+  params: {
+    lookback: period("Lookback", "Bars of currency return the carry signal is judged on.", 60),
+    threshold: { type: "number", title: "Threshold", help: "Smallest gap between the annualised carry and the short rate that counts as a signal.", default: 0.01, minimum: 0, maximum: 0.2, step: 0.005 },
+    weight: { type: "number", title: "Currency weight", help: "Share of the book put in the currency basket; the rest stays in cash.", default: 0.5, minimum: 0.1, maximum: 1, step: 0.05 },
+    crisisExit: { type: "boolean", title: "Exit in a crisis", help: "Drop the currency position whenever the market is in crisis.", default: true }
+  },
+  onTick: (market, portfolio, { lookback, threshold, weight, crisisExit }) => {
+    const history = prices(market, "fx");
+    const bars = Math.min(lookback, history.length - 1);
+    const carry = bars > 0 ? momentum(history, bars) / (bars * market.dt) - market.shortRate : 0;
+    const side = crisisExit && market.regime === "crisis" ? 0 : Math.abs(carry) > threshold ? Math.sign(carry) : 0;
+    return weights(market, portfolio, { fx: side }, side === 0 ? 0 : clamp(weight, 0, 1));
+  }
+};
+
+type VolTargetParams = { target: number; window: number; floor: number };
+
+export const VOLATILITY_TARGETING: Strategy<VolTargetParams> = {
+  id: "VolTarget",
+  label: "Volatility Targeting",
+  description: "Holds the fund's own mix but scales it down into cash whenever the mix's realised volatility runs above the annual target, and back up to full size as markets calm. Volatility is measured on the mix's daily returns over the window, so correlations between its assets are counted. Exposure never drops below the floor, and anything above the mix itself comes from the fund's risk factor rather than from this strategy.",
+  defaultAllocation: { equities: 0.6, govBonds: 0.3, credit: 0.1, commodities: 0, fx: 0, crypto: 0 },
+  defaultFuturesMode: "spot",
+  params: {
+    target: { type: "number", title: "Target volatility", help: "Annualised volatility the book is scaled to.", default: 0.1, minimum: 0.02, maximum: 0.5, step: 0.01 },
+    window: period("Volatility window", "Bars of volatility the scaling is measured over.", 20),
+    floor: { type: "number", title: "Minimum exposure", help: "Smallest share of the book kept invested however wild the market.", default: 0.2, minimum: 0, maximum: 1, step: 0.05 }
+  },
+  onTick: (market, portfolio, { target, window, floor }) => {
+    const mix = portfolio.allocation;
+    const returns = Array.from({ length: window }, (_, back) => ASSET_CLASSES.reduce((sum, c) => {
+      const history = prices(market, c);
+      const i = history.length - 1 - back;
+      return i > 0 ? sum + mix[c] * Math.log(history[i] / history[i - 1]) : sum;
+    }, 0));
+    const path = returns.reduceRight<number[]>((levels, r) => [...levels, levels[levels.length - 1] * Math.exp(r)], [1]);
+    const realised = volatility(path, window) / Math.sqrt(market.dt);
+    const exposure = clamp(realised > 0 ? target / realised : 1, floor, 1);
+    return weights(market, portfolio, mix, exposure * ASSET_CLASSES.reduce((sum, c) => sum + Math.abs(mix[c]), 0));
+  }
+};
+
+export const STRATEGY_LIBRARY: Strategy[] = [
+  TIME_SERIES_MOMENTUM,
+  CROSS_SECTIONAL_MOMENTUM,
+  MEAN_REVERSION,
+  RISK_PARITY,
+  TREND_CTA,
+  PAIRS_TRADING,
+  FX_CARRY,
+  VOLATILITY_TARGETING
+];
@@ -0,0 +1,43 @@
+// testFixtures.ts
+// Markets and funds shared by the simulation tests.
+import { ZERO_COSTS } from "./costs";
+import { FundAccount } from "./fundStep";
+import { ZERO_FUTURES_PNL } from "./futures";
+import { EMPTY_MARGIN_ACCOUNT } from "./margin";
+import { createMarketEngine, MarketEngineConfig, priceModelParams } from "./marketEngine";
+import { DEFAULT_OVERLAY } from "./options";
+import { cashHoldings } from "./portfolio";
+import { defaultAllocation } from "./strategies";
+import { marketView, portfolioView } from "./strategy";
+
+// A fund of a million in cash that has not traded yet
+export const testFund = (id: string, strategy: string, overrides: Partial<FundAccount> = {}): FundAccount => ({
+  id,
+  strategy,
+  performance: 0,
+  risk: 0.3,
+  assets: 1e6,
+  allocation: defaultAllocation(strategy),
+  holdings: cashHoldings(1e6),
+  futuresMode: "auto",
+  optionOverlay: DEFAULT_OVERLAY,
+  margin: EMPTY_MARGIN_ACCOUNT,
+  costs: ZERO_COSTS,
+  futuresPnl: ZERO_FUTURES_PNL,
+  marketImpact: 0,
+  ...overrides
+});
+
+// The market after some ticks, as a strategy sees it, next to a portfolio
+// that holds only cash and is set up for equities
+export const testMarket = (config: MarketEngineConfig = { seed: 4 }, ticks = 0) => {
+  const engine = createMarketEngine(config);
+  let state = engine.initialState();
+  for (let i = 0; i < ticks; i++) state = engine.step(state);
+  return {
+    engine,
+    state,
+    market: marketView(engine, state, priceModelParams(engine.config).dt),
+    portfolio: portfolioView(cashHoldings(1e6), state.prices, { equities: 1, govBonds: 0, credit: 0, commodities: 0, fx: 0, crypto: 0 }, 0.2)
+  };
+};
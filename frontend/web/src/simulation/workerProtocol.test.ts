@@ -0,0 +1,67 @@
+import { MessageChannel } from "node:worker_threads";
+import { afterEach, describe, expect, it } from "vitest";
+import { stepFunds } from "./fundStep";
+import { createMarketEngine } from "./marketEngine";
+import { testFund } from "./testFixtures";
+import { createSimulationClient, nodePort, serveSimulations, SimulationJob, SimulationProgress, SimulationRequest, SimulationResponse } from "./workerProtocol";
+
+const channels: MessageChannel[] = [];
+
+// A server and a client on the two ends of a fresh channel
+const connect = () => {
+  const channel = new MessageChannel();
+  channels.push(channel);
+  serveSimulations(nodePort<SimulationRequest, SimulationResponse>(channel.port1));
+  return { channel, client: createSimulationClient(nodePort<SimulationResponse, SimulationRequest>(channel.port2)) };
+};
+
+const job = (ticks: number, progressEvery?: number): SimulationJob => {
+  const config = { seed: 6 };
+  return { config, state: createMarketEngine(config).initialState(), funds: [testFund("a", "Quant")], ticks, progressEvery };
+};
+
+afterEach(() => {
+  for (const { port1, port2 } of channels.splice(0)) {
+    port1.close();
+    port2.close();
+  }
+});
+
+describe("simulation protocol", () => {
+  it("streams progress and answers with the same rounds as stepping in place", async () => {
+    const { client } = connect();
+    const progress: SimulationProgress[] = [];
+    const outcome = await client.run(job(12, 5), message => progress.push(message)).result;
+
+    expect(progress.map(({ completed, total }) => [completed, total])).toEqual([[5, 12], [10, 12]]);
+    const engine = createMarketEngine({ seed: 6 });
+    let round = stepFunds(engine, job(12).state, job(12).funds);
+    for (let i = 1; i < 12; i++) round = stepFunds(engine, engine.step(round.state), round.funds);
+    expect(outcome).toEqual({ status: "complete", completed: 12, ...round });
+  });
+
+  it("stops a run that is cancelled", async () => {
+    const { client } = connect();
+    const handle = client.run(job(1000, 2), () => handle.cancel());
+    const outcome = await handle.result;
+    expect(outcome.status).toBe("cancelled");
+    expect(outcome.completed).toBeLessThan(1000);
+  });
+
+  it("rejects a run the worker refuses and keeps serving", async () => {
+    const { client } = connect();
+    await expect(client.run(job(0)).result).rejects.toThrow("A simulation needs at least one trading round");
+    await expect(client.run(job(2)).result).resolves.toMatchObject({ status: "complete", completed: 2 });
+  });
+
+  it("rejects every running job when the channel fails", async () => {
+    const { channel, client } = connect();
+    const first = client.run(job(1000, 2));
+    const second = client.run(job(1000, 2));
+    channel.port2.emit("error", new Error("worker crashed"));
+    await expect(first.result).rejects.toThrow("worker crashed");
+    await expect(second.result).rejects.toThrow("worker crashed");
+    first.cancel();
+    second.cancel();
+  });
+});
@@ -0,0 +1,263 @@
+// workerProtocol.ts
+// Message protocol for running simulations off the main thread. A simulation
+// job carries the engine config, the market state and the funds; the worker
+// steps the market and trades the funds bar by bar, streams progress with the
+// state and funds so far, and answers with the result or a cancellation. Monte
+// Carlo jobs stream each finished path and answer with the report. Ports hide
+// the transport, so the same server and client run over a Web Worker or Node
+// worker_threads.
+import { FundAccount, stepFunds } from "./fundStep";
+import { createMarketEngine, MarketEngineConfig, MarketState } from "./marketEngine";
+import { MonteCarloJob, MonteCarloReport, PathOutcome, PathResult, simulatePath, summarizeMonteCarlo, validateMonteCarloJob } from "./monteCarlo";
+
+export interface SimulationJob {
+  config: MarketEngineConfig;
+  state: MarketState;
+  funds: FundAccount[]; // in trading order
+  ticks: number; // trading rounds; the first is at the current bar, each later one steps the market first
+  progressEvery?: number; // rounds between progress messages
+}
+
+export type SimulationRequest =
+  | { type: "run"; jobId: string; job: SimulationJob }
+  | { type: "monteCarlo"; jobId: string; job: MonteCarloJob }
+  | { type: "cancel"; jobId: string };
+
+export type SimulationResponse =
+  | { type: "progress"; jobId: string; completed: number; total: number; state: MarketState; funds: FundAccount[] }
+  | { type: "result"; jobId: string; completed: number; state: MarketState; funds: FundAccount[] }
+  | { type: "monteCarloProgress"; jobId: string; completed: number; total: number; outcome: PathOutcome }
+  | { type: "monteCarloResult"; jobId: string; report: MonteCarloReport }
+  | { type: "cancelled"; jobId: string; completed: number }
+  | { type: "error"; jobId: string; message: string };
+
+export type SimulationProgress = Extract<SimulationResponse, { type: "progress" }>;
+
+export type MonteCarloProgress = Extract<SimulationResponse, { type: "monteCarloProgress" }>;
+
+export type SimulationOutcome =
+  | { status: "complete"; completed: number; state: MarketState; funds: FundAccount[] }
+  | { status: "cancelled"; completed: number };
+
+export type MonteCarloOutcome =
+  | { status: "complete"; report: MonteCarloReport }
+  | { status: "cancelled"; completed: number };
+
+export interface JobHandle<Outcome> {
+  jobId: string;
+  result: Promise<Outcome>;
+  cancel: () => void;
+}
+
+export type SimulationHandle = JobHandle<SimulationOutcome>;
+
+export type MonteCarloHandle = JobHandle<MonteCarloOutcome>;
+
+// One side of a message channel; listen and listenFailures return a function
+// that stops listening. Failures are errors of the channel itself, such as a
+// worker that crashed or a message that could not be read.
+export interface SimulationPort<In, Out> {
+  post: (message: Out) => void;
+  listen: (handler: (message: In) => void) => () => void;
+  listenFailures?: (handler: (error: Error) => void) => () => void;
+}
+
+type PortEvent = "message" | "error" | "messageerror";
+
+// Web Worker, or the worker's own global scope. Messages are taken to follow
+// the protocol; only their envelope is checked.
+interface MessageTarget {
+  postMessage: (message: unknown) => void;
+  addEventListener: (type: PortEvent, listener: (event: Event) => void) => void;
+  removeEventListener: (type: PortEvent, listener: (event: Event) => void) => void;
+}
+
+// Node Worker, or parentPort inside one
+interface MessageEmitter {
+  postMessage: (message: unknown) => void;
+  on: (event: PortEvent, listener: (value: unknown) => void) => unknown;
+  off: (event: PortEvent, listener: (value: unknown) => void) => unknown;
+}
+
+const UNREADABLE_MESSAGE = "Simulation worker sent a message that could not be read";
+
+const DEFAULT_PROGRESS_EVERY = 21;
+
+const failure = (error: unknown) =>
+  error instanceof Error ? error : new Error(typeof error === "string" && error ? error : "Simulation worker failed");
+
+export const webPort = <In, Out>(target: MessageTarget): SimulationPort<In, Out> => ({
+  post: message => target.postMessage(message),
+  listen: handler => {
+    const listener = (event: Event) => {
+      if ("data" in event) handler(event.data as In);
+    };
+    target.addEventListener("message", listener);
+    return () => target.removeEventListener("message", listener);
+  },
+  listenFailures: handler => {
+    const onError = (event: Event) => handler(failure("message" in event ? event.message : undefined));
+    const onMessageError = () => handler(new Error(UNREADABLE_MESSAGE));
+    target.addEventListener("error", onError);
+    target.addEventListener("messageerror", onMessageError);
+    return () => {
+      target.removeEventListener("error", onError);
+      target.removeEventListener("messageerror", onMessageError);
+    };
+  }
+});
+
+export const nodePort = <In, Out>(emitter: MessageEmitter): SimulationPort<In, Out> => ({
+  post: message => emitter.postMessage(message),
+  listen: handler => {
+    const listener = (value: unknown) => handler(value as In);
+    emitter.on("message", listener);
+    return () => { emitter.off("message", listener); };
+  },
+  listenFailures: handler => {
+    const onError = (error: unknown) => handler(failure(error));
+    const onMessageError = () => handler(new Error(UNREADABLE_MESSAGE));
+    emitter.on("error", onError);
+    emitter.on("messageerror", onMessageError);
+    return () => {
+      emitter.off("error", onError);
+      emitter.off("messageerror", onMessageError);
+    };
+  }
+});
+
+export const validateJob = (job: SimulationJob) => {
+  if (!(Number.isInteger(job.ticks) && job.ticks >= 1)) throw new Error("A simulation needs at least one trading round");
+  if (job.progressEvery !== undefined && !(Number.isInteger(job.progressEvery) && job.progressEvery >= 1)) {
+    throw new Error("Progress interval must be a positive whole number of rounds");
+  }
+};
+
+// Lets queued messages, cancels among them, through between batches of rounds
+const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Worker side. Simulations run one round at a time and yield at every
+// progress message, so a cancel lands within one batch; they stop early when a
+// replay runs out of history. Monte Carlo jobs yield after every path.
+export const serveSimulations = (port: SimulationPort<SimulationRequest, SimulationResponse>) => {
+  const cancelled = new Map<string, boolean>(); // running jobs, and whether a cancel came in
+
+  // Posts the cancellation when one has come in
+  const stopped = async (jobId: string, completed: number) => {
+    await yieldToMessages();
+    if (!cancelled.get(jobId)) return false;
+    port.post({ type: "cancelled", jobId, completed });
+    return true;
+  };
+
+  const simulate = async (jobId: string, job: SimulationJob) => {
+    validateJob(job);
+    const engine = createMarketEngine(job.config);
+    const every = job.progressEvery ?? DEFAULT_PROGRESS_EVERY;
+    let { state, funds } = stepFunds(engine, job.state, job.funds);
+    let completed = 1;
+    while (completed < job.ticks && !engine.replayComplete(state)) {
+      if (completed % every === 0) {
+        port.post({ type: "progress", jobId, completed, total: job.ticks, state, funds });
+        if (await stopped(jobId, completed)) return;
+      }
+      ({ state, funds } = stepFunds(engine, engine.step(state), funds));
+      completed++;
+    }
+    port.post({ type: "result", jobId, completed, state, funds });
+  };
+
+  const monteCarlo = async (jobId: string, job: MonteCarloJob) => {
+    validateMonteCarloJob(job);
+    const results: PathResult[] = [];
+    for (let i = 0; i < job.paths; i++) {
+      results.push(simulatePath(job, i));
+      port.post({ type: "monteCarloProgress", jobId, completed: i + 1, total: job.paths, outcome: results[i].outcome });
+      if (i + 1 < job.paths && await stopped(jobId, i + 1)) return;
+    }
+    port.post({ type: "monteCarloResult", jobId, report: summarizeMonteCarlo(job, results) });
+  };
+
+  const run = async (jobId: string, work: () => Promise<void>) => {
+    cancelled.set(jobId, false);
+    try {
+      await work();
+    } catch (e) {
+      port.post({ type: "error", jobId, message: e instanceof Error && e.message ? e.message : "Unknown error" });
+    } finally {
+      cancelled.delete(jobId);
+    }
+  };
+
+  return port.listen(request => {
+    switch (request.type) {
+      case "run": run(request.jobId, () => simulate(request.jobId, request.job)); break;
+      case "monteCarlo": run(request.jobId, () => monteCarlo(request.jobId, request.job)); break;
+      case "cancel": if (cancelled.has(request.jobId)) cancelled.set(request.jobId, true); break;
+    }
+  });
+};
+
+// Main-thread side. Each job gets its own id; progress goes to the callback
+// and the handle's promise settles with the outcome, or rejects with the
+// worker's error. A failure of the channel rejects every running job, since
+// none of their answers can be trusted to arrive.
+export const createSimulationClient = (port: SimulationPort<SimulationResponse, SimulationRequest>) => {
+  // Handlers for running jobs; each returns true once its job is over
+  const pending = new Map<string, (response: SimulationResponse) => boolean>();
+  let nextJob = 0;
+
+  const stopMessages = port.listen(response => {
+    const handle = pending.get(response.jobId);
+    if (handle && handle(response)) pending.delete(response.jobId);
+  });
+
+  const stopFailures = port.listenFailures?.(error => {
+    const running = [...pending];
+    pending.clear();
+    for (const [jobId, handle] of running) handle({ type: "error", jobId, message: error.message });
+  });
+
+  const stop = () => {
+    stopMessages();
+    stopFailures?.();
+  };
+
+  const start = <Outcome>(
+    request: (jobId: string) => SimulationRequest,
+    settle: (response: SimulationResponse, resolve: (outcome: Outcome) => void) => boolean
+  ): JobHandle<Outcome> => {
+    const jobId = `sim-${++nextJob}`;
+    const result = new Promise<Outcome>((resolve, reject) => pending.set(jobId, response => {
+      if (response.type === "error") {
+        reject(new Error(response.message));
+        return true;
+      }
+      return settle(response, resolve);
+    }));
+    port.post(request(jobId));
+    return { jobId, result, cancel: () => port.post({ type: "cancel", jobId }) };
+  };
+
+  const run = (job: SimulationJob, onProgress?: (progress: SimulationProgress) => void): SimulationHandle =>
+    start<SimulationOutcome>(jobId => ({ type: "run", jobId, job }), (response, resolve) => {
+      switch (response.type) {
+        case "progress": onProgress?.(response); return false;
+        case "result": resolve({ status: "complete", completed: response.completed, state: response.state, funds: response.funds }); return true;
+        case "cancelled": resolve({ status: "cancelled", completed: response.completed }); return true;
+        default: return false;
+      }
+    });
+
+  const runMonteCarlo = (job: MonteCarloJob, onProgress?: (progress: MonteCarloProgress) => void): MonteCarloHandle =>
+    start<MonteCarloOutcome>(jobId => ({ type: "monteCarlo", jobId, job }), (response, resolve) => {
+      switch (response.type) {
+        case "monteCarloProgress": onProgress?.(response); return false;
+        case "monteCarloResult": resolve({ status: "complete", report: response.report }); return true;
+        case "cancelled": resolve({ status: "cancelled", completed: response.completed }); return true;
+        default: return false;
+      }
+    });
+
+  return { run, runMonteCarlo, close: stop };
+};